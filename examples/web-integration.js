@@ -1,6 +1,7 @@
 /**
  * Exemplo de integração JavaScript para aplicação web
- * Use este arquivo como base para integrar com o Electron Desktop
+ * Para novos projetos, prefira o cliente tipado @intranet-desktop/client (pasta sdk/),
+ * que detecta IPC ou API local e expõe a mesma API nos dois casos
  */
 
 class IntranetDesktopClient {
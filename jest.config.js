@@ -0,0 +1,13 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { tsconfig: '<rootDir>/tests/tsconfig.json' }]
+  },
+  // Os testes rodam fora do Electron: app usa uma pasta temporária como userData
+  moduleNameMapper: {
+    '^electron$': '<rootDir>/tests/mocks/electron.ts'
+  }
+};
@@ -0,0 +1,11 @@
+// Copia os arquivos HTML do renderer para dist (o tsc compila apenas os arquivos .ts)
+const fs = require('fs');
+const path = require('path');
+
+const source = path.join(__dirname, '..', 'src', 'renderer');
+const target = path.join(__dirname, '..', 'dist', 'renderer');
+
+fs.mkdirSync(target, { recursive: true });
+for (const file of fs.readdirSync(source).filter(name => name.endsWith('.html'))) {
+  fs.copyFileSync(path.join(source, file), path.join(target, file));
+}
@@ -0,0 +1,179 @@
+import {
+  ApiScope,
+  CallOptions,
+  CameraInfo,
+  CaptureOptions,
+  DeviceChannel,
+  DeviceEventListener,
+  ElectronAPI,
+  PairingResult,
+  PrintData,
+  PrinterInfo,
+  ScanDocumentOptions,
+  ScanDocumentResult,
+  ScannerConnectionStatus,
+  ScannerInfo,
+  SerialPortInfo,
+  SerialPortOptions,
+  Subscription,
+  USBDeviceInfo
+} from './types';
+import { IntranetDesktopError } from './errors';
+import { Transport, TransportMode } from './transports/Transport';
+import { IpcTransport } from './transports/IpcTransport';
+import { RemoteTransport, SocketFactory } from './transports/RemoteTransport';
+
+export interface ClientOptions {
+  /**
+   * auto (padrão): IPC quando window.electronAPI existe, senão a API local
+   */
+  mode?: 'auto' | TransportMode;
+  /**
+   * Endereço da API local (padrão http://localhost:8080)
+   */
+  baseUrl?: string;
+  apiPrefix?: string;
+  /**
+   * Token obtido no pareamento (necessário quando a autenticação está habilitada)
+   */
+  token?: string;
+  /**
+   * Função io do socket.io-client, usada para os eventos pela API local
+   */
+  io?: SocketFactory;
+  fetch?: typeof fetch;
+  /**
+   * Falhas das operações sem chamador para receber o erro (ex.: assinatura de eventos recusada pela API)
+   */
+  onError?: (error: IntranetDesktopError) => void;
+}
+
+/**
+ * Cliente dos dispositivos do Intranet Desktop. A mesma API funciona dentro do aplicativo
+ * (IPC pelo preload) e no navegador (REST e WebSocket da API local).
+ */
+export class IntranetDesktopClient {
+  readonly mode: TransportMode;
+  private transport: Transport;
+
+  readonly printers = {
+    list: (options?: CallOptions) =>
+      this.call<PrinterInfo[]>('listPrinters', {}, options),
+    print: (printData: PrintData, options?: CallOptions) =>
+      this.call<boolean>('printDocument', { ...printData }, options),
+    test: async (name: string, options?: CallOptions) =>
+      (await this.call<{ available: boolean }>('testPrinter', { name }, options)).available
+  };
+
+  readonly cameras = {
+    list: (options?: CallOptions) =>
+      this.call<CameraInfo[]>('listCameras', {}, options),
+    capture: (cameraId: string, captureOptions: CaptureOptions = {}, options?: CallOptions) =>
+      this.call<string>('capturePhoto', { id: cameraId, ...captureOptions }, options),
+    startStream: async (cameraId: string, captureOptions: Partial<CaptureOptions> = {}, options?: CallOptions) =>
+      (await this.call<{ streamUrl: string }>('startStream', { id: cameraId, ...captureOptions }, options)).streamUrl,
+    stopStream: (cameraId: string, options?: CallOptions) =>
+      this.call<boolean>('stopStream', { id: cameraId }, options)
+  };
+
+  readonly usb = {
+    list: (options?: CallOptions) =>
+      this.call<USBDeviceInfo[]>('listUsbDevices', {}, options),
+    get: (deviceId: string, options?: CallOptions) =>
+      this.call<USBDeviceInfo & Record<string, any>>('getUsbDevice', { id: deviceId }, options),
+    byClass: (deviceClass: string, options?: CallOptions) =>
+      this.call<USBDeviceInfo[]>('listUsbDevicesByClass', { class: deviceClass }, options)
+  };
+
+  readonly serial = {
+    list: (options?: CallOptions) =>
+      this.call<SerialPortInfo[]>('listSerialPorts', {}, options),
+    open: (port: string, portOptions: SerialPortOptions = {}, options?: CallOptions) =>
+      this.call<boolean>('openSerialPort', { port, ...portOptions }, options),
+    close: (port: string, options?: CallOptions) =>
+      this.call<boolean>('closeSerialPort', { port }, options),
+    write: (port: string, data: string, options?: CallOptions) =>
+      this.call<boolean>('writeSerialPort', { port, data }, options),
+    read: (port: string, timeout?: number, options?: CallOptions) =>
+      this.call<string>('readSerialPort', timeout !== undefined ? { port, timeout } : { port }, options)
+  };
+
+  readonly scanner = {
+    list: (options?: CallOptions) =>
+      this.call<ScannerInfo[]>('listScanners', {}, options),
+    status: (options?: CallOptions) =>
+      this.call<ScannerConnectionStatus>('getScannerStatus', {}, options),
+    getDefault: async (options?: CallOptions) =>
+      (await this.call<{ scannerId: string | null }>('getDefaultScanner', {}, options)).scannerId,
+    setDefault: (scannerId: string, options?: CallOptions) =>
+      this.call<boolean>('setDefaultScanner', { scannerId }, options),
+    test: async (scannerId: string, options?: CallOptions) =>
+      (await this.call<{ available: boolean }>('testScanner', { id: scannerId }, options)).available,
+    scan: (scanOptions: ScanDocumentOptions = {}, options?: CallOptions) =>
+      this.call<ScanDocumentResult>('scanDocument', { ...scanOptions }, options)
+  };
+
+  constructor(options: ClientOptions = {}) {
+    const electronAPI: ElectronAPI | undefined = (globalThis as any).window?.electronAPI;
+    const mode = options.mode && options.mode !== 'auto' ? options.mode : electronAPI ? 'ipc' : 'remote';
+
+    if (mode === 'ipc') {
+      if (!electronAPI) {
+        throw new IntranetDesktopError('NOT_SUPPORTED', 'window.electronAPI indisponível (página fora do aplicativo desktop)');
+      }
+      this.transport = new IpcTransport(electronAPI);
+    } else {
+      this.transport = new RemoteTransport({
+        baseUrl: (options.baseUrl || 'http://localhost:8080').replace(/\/+$/, ''),
+        apiPrefix: options.apiPrefix ?? '/api/v1',
+        token: options.token,
+        io: options.io,
+        fetch: options.fetch,
+        onError: options.onError
+      });
+    }
+    this.mode = mode;
+  }
+
+  /**
+   * Solicita o pareamento pela API local (o usuário aprova no aplicativo) e passa a usar o token recebido.
+   * Dentro do aplicativo não é necessário.
+   */
+  async pair(appName: string, scopes: ApiScope[]): Promise<PairingResult> {
+    if (!(this.transport instanceof RemoteTransport)) {
+      throw new IntranetDesktopError('NOT_SUPPORTED', 'Pareamento disponível apenas pela API local');
+    }
+    const result = await this.transport.request<PairingResult>('POST', '/auth/pair', { appName, scopes });
+    this.transport.setToken(result.token);
+    return result;
+  }
+
+  /**
+   * Define o token da API local (ex.: token salvo de um pareamento anterior)
+   */
+  setToken(token: string | undefined): void {
+    if (this.transport instanceof RemoteTransport) {
+      this.transport.setToken(token);
+    }
+  }
+
+  /**
+   * Recebe os eventos de um canal ou de um dispositivo ({ channel, target }).
+   * Retorna a função que cancela a inscrição.
+   */
+  on<C extends DeviceChannel>(subscription: C | (Subscription & { channel: C }), listener: DeviceEventListener<C>): () => void {
+    const normalized: Subscription = typeof subscription === 'string' ? { channel: subscription } : subscription;
+    return this.transport.subscribe(normalized, listener as DeviceEventListener);
+  }
+
+  /**
+   * Encerra as inscrições e a conexão WebSocket
+   */
+  close(): void {
+    this.transport.close();
+  }
+
+  private call<T>(method: string, params: Record<string, any>, options?: CallOptions): Promise<T> {
+    return this.transport.call<T>(method, params, options);
+  }
+}
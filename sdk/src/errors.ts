@@ -0,0 +1,29 @@
+import { ClientErrorCode } from './types';
+
+/**
+ * Erro das operações do cliente, com o código estável da API (ou do IPC) e o status HTTP, quando houver
+ */
+export class IntranetDesktopError extends Error {
+  constructor(
+    public readonly code: ClientErrorCode,
+    message: string,
+    public readonly details?: any,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'IntranetDesktopError';
+  }
+
+  /**
+   * Converte o erro rejeitado pelo preload ({ code, message, details }) ou qualquer outro erro
+   */
+  static from(error: unknown): IntranetDesktopError {
+    if (error instanceof IntranetDesktopError) return error;
+    if (error && typeof error === 'object' && typeof (error as any).code === 'string') {
+      const { code, message, details } = error as { code: ClientErrorCode; message?: string; details?: any };
+      return new IntranetDesktopError(code, message || code, details);
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return new IntranetDesktopError('INTERNAL_ERROR', message);
+  }
+}
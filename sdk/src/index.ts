@@ -0,0 +1,5 @@
+export { IntranetDesktopClient, ClientOptions } from './IntranetDesktopClient';
+export { IntranetDesktopError } from './errors';
+export { TransportMode } from './transports/Transport';
+export { SocketLike, SocketFactory } from './transports/RemoteTransport';
+export * from './types';
@@ -0,0 +1,91 @@
+import { CallOptions, DeviceEvent, ElectronAPI, Subscription } from '../types';
+import { IntranetDesktopError } from '../errors';
+import { Transport } from './Transport';
+
+type IpcMethod = (api: ElectronAPI, params: Record<string, any>) => Promise<any>;
+
+/**
+ * Métodos da API convertidos para as chamadas do preload, com o mesmo resultado do JSON-RPC
+ */
+const IPC_METHODS: Record<string, IpcMethod> = {
+  // Impressoras
+  listPrinters: api => api.getPrinters(),
+  printDocument: (api, { content, type, options }) => api.printDocument({ content, type, options }),
+  testPrinter: async (api, { name }) => ({ available: await api.testPrinter(name) }),
+
+  // Câmeras
+  listCameras: api => api.getCameras(),
+  capturePhoto: (api, { id, ...options }) => api.capturePhoto(id, options),
+  startStream: async (api, { id, ...options }) => ({ streamUrl: await api.startCameraStream(id, options) }),
+  stopStream: (api, { id }) => api.stopCameraStream(id),
+
+  // USB
+  listUsbDevices: api => api.getUSBDevices(),
+  getUsbDevice: (api, { id }) => api.getUSBDevice(id),
+  listUsbDevicesByClass: (api, { class: deviceClass }) => api.getUSBDevicesByClass(deviceClass),
+
+  // Serial
+  listSerialPorts: api => api.getSerialPorts(),
+  openSerialPort: (api, { port, ...options }) => api.serialOpen(port, options),
+  closeSerialPort: (api, { port }) => api.serialClose(port),
+  writeSerialPort: (api, { port, data }) => api.serialWrite(port, data),
+  readSerialPort: (api, { port, timeout }) => api.serialRead(port, timeout),
+
+  // Scanners
+  listScanners: api => api.getScanners(),
+  getScannerStatus: api => api.checkScannerConnection(),
+  getDefaultScanner: async api => ({ scannerId: await api.getDefaultScanner() }),
+  setDefaultScanner: (api, { scannerId }) => api.setDefaultScanner(scannerId),
+  testScanner: async (api, { id }) => ({ available: await api.testScanner(id) }),
+  scanDocument: async (api, { duplex }) => {
+    // start-scanner devolve o resultado em vez de rejeitar; o erro vira exceção como na API
+    const result = await api.startScanner(duplex === true);
+    if (!result.success || !result.base64) {
+      throw new IntranetDesktopError(result.code || 'OPERATION_FAILED', result.error || 'Erro ao escanear documento');
+    }
+    return { base64: result.base64, mimeType: 'application/pdf' };
+  }
+};
+
+/**
+ * Comunicação pelo IPC do Electron (window.electronAPI), usada quando a página roda dentro do aplicativo
+ */
+export class IpcTransport implements Transport {
+  readonly mode = 'ipc' as const;
+  private handlers: any[] = [];
+
+  constructor(private api: ElectronAPI) {}
+
+  async call<T>(method: string, params: Record<string, any> = {}, options?: CallOptions): Promise<T> {
+    const ipcMethod = IPC_METHODS[method];
+    if (!ipcMethod) {
+      throw new IntranetDesktopError('NOT_SUPPORTED', `Método ${method} não disponível pelo IPC`);
+    }
+
+    try {
+      return await ipcMethod(this.api, params);
+    } catch (error) {
+      throw IntranetDesktopError.from(error);
+    }
+  }
+
+  subscribe(subscription: Subscription, listener: (event: DeviceEvent) => void): () => void {
+    // O processo principal repassa todos os eventos; o filtro por canal e dispositivo é feito aqui
+    const handler = this.api.onDeviceEvent(event => {
+      if (event.channel !== subscription.channel) return;
+      if (subscription.target && event.target !== subscription.target) return;
+      listener(event);
+    });
+    this.handlers.push(handler);
+
+    return () => {
+      this.api.removeDeviceEventListener(handler);
+      this.handlers = this.handlers.filter(current => current !== handler);
+    };
+  }
+
+  close(): void {
+    this.handlers.forEach(handler => this.api.removeDeviceEventListener(handler));
+    this.handlers = [];
+  }
+}
@@ -0,0 +1,212 @@
+import { CallOptions, DeviceEvent, Subscription } from '../types';
+import { IntranetDesktopError } from '../errors';
+import { Transport } from './Transport';
+
+/**
+ * Parte do socket do socket.io-client usada pelo cliente (evita depender do pacote)
+ */
+export interface SocketLike {
+  connected: boolean;
+  on(event: string, listener: (...args: any[]) => void): any;
+  emit(event: string, ...args: any[]): any;
+  disconnect(): any;
+}
+
+/**
+ * Função io do socket.io-client (import { io } from 'socket.io-client')
+ */
+export type SocketFactory = (url: string, options: { auth?: { token: string }; transports?: string[] }) => SocketLike;
+
+export interface RemoteTransportOptions {
+  baseUrl: string;
+  apiPrefix: string;
+  token?: string;
+  io?: SocketFactory;
+  fetch?: typeof fetch;
+  onError?: (error: IntranetDesktopError) => void;
+}
+
+// Mesmo método das notificações de eventos enviadas pelo aplicativo
+const DEVICE_EVENT_NOTIFICATION = 'device.event';
+
+/**
+ * Comunicação pela API local: chamadas JSON-RPC por POST {apiPrefix}/rpc e eventos
+ * pelo WebSocket (Socket.IO), com as assinaturas subscribe/unsubscribe do JSON-RPC
+ */
+export class RemoteTransport implements Transport {
+  readonly mode = 'remote' as const;
+  private nextId = 1;
+  private socket: SocketLike | null = null;
+  private listeners: Map<string, Set<(event: DeviceEvent) => void>> = new Map();
+
+  constructor(private options: RemoteTransportOptions) {}
+
+  setToken(token: string | undefined): void {
+    this.options.token = token;
+    // O token do WebSocket vale a partir da próxima conexão
+    if (this.socket) {
+      this.socket.disconnect();
+      this.socket = null;
+      if (this.listeners.size > 0) this.connect();
+    }
+  }
+
+  /**
+   * Requisição REST direta (usada no pareamento, que não passa pelo JSON-RPC)
+   */
+  async request<T>(method: 'GET' | 'POST' | 'DELETE', path: string, body?: any, options: CallOptions = {}): Promise<T> {
+    const response = await this.fetch(path, method, body, options);
+    const payload = await response.json().catch(() => null);
+    if (!response.ok || payload?.success === false) {
+      throw RemoteTransport.toError(response.status, payload);
+    }
+    return payload?.data as T;
+  }
+
+  async call<T>(method: string, params: Record<string, any> = {}, options: CallOptions = {}): Promise<T> {
+    const id = this.nextId++;
+    const response = await this.fetch('/rpc', 'POST', { jsonrpc: '2.0', method, params, id }, options);
+    if (response.status === 204) {
+      return undefined as T;
+    }
+
+    const payload = await response.json().catch(() => null);
+    if (payload?.jsonrpc && payload.error) {
+      // Erros de dispositivo trazem o código da API em data.code
+      const code = payload.error.data?.code || (payload.error.code === -32601 ? 'NOT_SUPPORTED' : 'INTERNAL_ERROR');
+      throw new IntranetDesktopError(code, payload.error.message, payload.error.data?.details, response.status);
+    }
+    if (!response.ok || !payload) {
+      throw RemoteTransport.toError(response.status, payload);
+    }
+    return payload.result as T;
+  }
+
+  subscribe(subscription: Subscription, listener: (event: DeviceEvent) => void): () => void {
+    const key = RemoteTransport.getKey(subscription);
+    let listeners = this.listeners.get(key);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(key, listeners);
+      if (this.socket?.connected) {
+        this.rpc('subscribe', subscription);
+      }
+    }
+    listeners.add(listener);
+    this.connect();
+
+    return () => {
+      const current = this.listeners.get(key);
+      if (!current?.delete(listener) || current.size > 0) return;
+
+      this.listeners.delete(key);
+      if (this.socket?.connected) {
+        this.rpc('unsubscribe', subscription);
+      }
+    };
+  }
+
+  close(): void {
+    this.listeners.clear();
+    this.socket?.disconnect();
+    this.socket = null;
+  }
+
+  private async fetch(path: string, method: string, body: any, options: CallOptions): Promise<Response> {
+    const fetchFn = this.options.fetch || globalThis.fetch;
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    if (body !== undefined) headers['Content-Type'] = 'application/json';
+    if (this.options.token) headers.Authorization = `Bearer ${this.options.token}`;
+    if (options.idempotencyKey) headers['Idempotency-Key'] = options.idempotencyKey;
+
+    try {
+      return await fetchFn(`${this.options.baseUrl}${this.options.apiPrefix}${path}`, {
+        method,
+        headers,
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+        signal: options.signal
+      });
+    } catch (error: any) {
+      // Ao abortar, o aplicativo também cancela a operação (a conexão é encerrada)
+      if (error?.name === 'AbortError') {
+        throw new IntranetDesktopError('CANCELLED', 'Operação cancelada');
+      }
+      throw new IntranetDesktopError('NETWORK_ERROR', `Aplicativo desktop inacessível: ${error?.message || error}`);
+    }
+  }
+
+  /**
+   * Conecta o WebSocket na primeira assinatura e refaz as assinaturas a cada (re)conexão
+   */
+  private connect(): void {
+    if (this.socket) return;
+
+    const io = this.options.io || (globalThis as any).io;
+    if (typeof io !== 'function') {
+      throw new IntranetDesktopError('NOT_SUPPORTED',
+        'Eventos exigem o socket.io-client: informe a opção io ou carregue o script do Socket.IO');
+    }
+
+    const socket: SocketLike = io(this.options.baseUrl, {
+      ...(this.options.token ? { auth: { token: this.options.token } } : {}),
+      transports: ['websocket']
+    });
+    this.socket = socket;
+
+    socket.on('connect', () => {
+      for (const key of this.listeners.keys()) {
+        this.rpc('subscribe', RemoteTransport.parseKey(key));
+      }
+    });
+
+    socket.on('jsonrpc', (message: any) => {
+      if (message?.method !== DEVICE_EVENT_NOTIFICATION || !message.params) return;
+
+      const event = message.params as DeviceEvent;
+      const keys = [RemoteTransport.getKey({ channel: event.channel })];
+      if (event.target) keys.push(RemoteTransport.getKey({ channel: event.channel, target: event.target }));
+
+      // Quem assinou o canal e o dispositivo recebe o evento uma única vez
+      const delivered = new Set<(event: DeviceEvent) => void>();
+      for (const key of keys) {
+        this.listeners.get(key)?.forEach(listener => {
+          if (delivered.has(listener)) return;
+          delivered.add(listener);
+          listener(event);
+        });
+      }
+    });
+  }
+
+  private rpc(method: string, params: Record<string, any>): void {
+    this.socket?.emit('jsonrpc', { jsonrpc: '2.0', method, params, id: this.nextId++ }, (response: any) => {
+      if (response?.error) {
+        this.options.onError?.(new IntranetDesktopError(response.error.data?.code || 'INTERNAL_ERROR', response.error.message, { method }));
+      }
+    });
+  }
+
+  private static getKey(subscription: Subscription): string {
+    return subscription.target ? `${subscription.channel}:${subscription.target}` : subscription.channel;
+  }
+
+  private static parseKey(key: string): Subscription {
+    const [channel, ...target] = key.split(':');
+    return target.length > 0
+      ? { channel: channel as Subscription['channel'], target: target.join(':') }
+      : { channel: channel as Subscription['channel'] };
+  }
+
+  /**
+   * Erro das respostas REST ({ success: false, error, code, details })
+   */
+  private static toError(status: number, payload: any): IntranetDesktopError {
+    const fallback = status === 401 ? 'UNAUTHORIZED' : status === 403 ? 'FORBIDDEN' : status === 404 ? 'NOT_FOUND' : 'INTERNAL_ERROR';
+    return new IntranetDesktopError(
+      payload?.code || fallback,
+      payload?.error || `Erro HTTP ${status}`,
+      payload?.details,
+      status
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { CallOptions, DeviceEvent, Subscription } from '../types';
+
+export type TransportMode = 'ipc' | 'remote';
+
+/**
+ * Meio de comunicação com o aplicativo. As chamadas usam os nomes e os parâmetros dos métodos
+ * JSON-RPC da API (operationId das rotas, com os campos do caminho, da query e do corpo em um objeto)
+ * e retornam o mesmo resultado em qualquer modo.
+ */
+export interface Transport {
+  readonly mode: TransportMode;
+
+  call<T>(method: string, params?: Record<string, any>, options?: CallOptions): Promise<T>;
+
+  /**
+   * Recebe os eventos do canal (ou do dispositivo); retorna a função que cancela a inscrição
+   */
+  subscribe(subscription: Subscription, listener: (event: DeviceEvent) => void): () => void;
+
+  close(): void;
+}
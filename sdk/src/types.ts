@@ -0,0 +1,243 @@
+/**
+ * Tipos públicos do cliente. Espelham as interfaces dos serviços do aplicativo
+ * (src/services) e os formatos da API; mantenha-os em sincronia ao alterar os serviços.
+ */
+
+export type DeviceErrorCode =
+  | 'DEVICE_NOT_FOUND'
+  | 'DEVICE_UNAVAILABLE'
+  | 'DEVICE_BUSY'
+  | 'DEVICE_NOT_OPEN'
+  | 'NO_PAGES'
+  | 'TIMEOUT'
+  | 'BACKEND_MISSING'
+  | 'INVALID_ARGUMENT'
+  | 'CANCELLED'
+  | 'OPERATION_FAILED'
+  | 'INTERNAL_ERROR';
+
+/**
+ * Códigos de erro do cliente: erros de dispositivo e erros da API (autenticação, idempotência, rede)
+ */
+export type ClientErrorCode =
+  | DeviceErrorCode
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'IDEMPOTENCY_CONFLICT'
+  | 'IDEMPOTENCY_KEY_REUSED'
+  | 'PAIRING_UNAVAILABLE'
+  | 'NOT_SUPPORTED'
+  | 'NETWORK_ERROR';
+
+export type ApiScope = 'printer' | 'camera' | 'usb' | 'serial' | 'scanner' | 'audit';
+
+/**
+ * Canais de eventos de dispositivos (cada canal exige o escopo de mesmo nome)
+ */
+export type DeviceChannel = Exclude<ApiScope, 'audit'>;
+
+export interface Subscription {
+  channel: DeviceChannel;
+  target?: string;
+}
+
+// Impressoras
+
+export interface PrinterInfo {
+  name: string;
+  status: string;
+  isDefault: boolean;
+  description?: string;
+}
+
+export interface PrintOptions {
+  printer?: string;
+  copies?: number;
+  paperSize?: string;
+  orientation?: 'portrait' | 'landscape';
+  quality?: 'draft' | 'normal' | 'high';
+}
+
+export interface PrintData {
+  content: string;
+  type?: 'text' | 'html' | 'pdf';
+  options?: PrintOptions;
+}
+
+// Câmeras
+
+export interface CameraInfo {
+  id: string;
+  name: string;
+  type: 'webcam' | 'usb' | 'ip';
+  status: 'available' | 'busy' | 'error';
+  resolution?: string[];
+}
+
+export interface CaptureOptions {
+  width?: number;
+  height?: number;
+  quality?: number;
+  format?: 'jpg' | 'png' | 'bmp';
+  saveToFile?: boolean;
+  filePath?: string;
+}
+
+// USB
+
+export interface USBDeviceInfo {
+  deviceId: string;
+  vendorId: string;
+  productId: string;
+  manufacturer?: string;
+  product?: string;
+  serialNumber?: string;
+  deviceClass?: string;
+  deviceSubclass?: string;
+  status: 'connected' | 'disconnected' | 'error';
+}
+
+// Serial
+
+export interface SerialPortInfo {
+  path: string;
+  manufacturer?: string;
+  serialNumber?: string;
+  pnpId?: string;
+  vendorId?: string;
+  productId?: string;
+  locationId?: string;
+  friendlyName?: string;
+  status: 'available' | 'busy' | 'error';
+}
+
+export interface SerialPortOptions {
+  baudRate?: number;
+  dataBits?: 5 | 6 | 7 | 8;
+  stopBits?: 1 | 1.5 | 2;
+  parity?: 'none' | 'even' | 'odd' | 'mark' | 'space';
+  rtscts?: boolean;
+  xon?: boolean;
+  xoff?: boolean;
+  xany?: boolean;
+  autoOpen?: boolean;
+}
+
+// Scanners
+
+export interface ScannerInfo {
+  id: string;
+  name: string;
+  status: 'available' | 'busy' | 'offline';
+  type: string;
+  isDefault: boolean;
+}
+
+export interface ScannerConnectionStatus {
+  connected: boolean;
+  scannerName?: string;
+  error?: string;
+  code?: DeviceErrorCode;
+}
+
+export interface ScanDocumentOptions {
+  duplex?: boolean;
+}
+
+export interface ScanDocumentResult {
+  base64: string;
+  mimeType: 'application/pdf';
+}
+
+export interface ScanProgress {
+  stage: 'checking' | 'scanning' | 'processing' | 'completed' | 'failed';
+  duplex: boolean;
+  message?: string;
+  pages?: number;
+  durationMs?: number;
+  code?: DeviceErrorCode;
+}
+
+// Eventos
+
+/**
+ * Dados de cada canal de eventos
+ */
+export interface DeviceEventDataMap {
+  usb: { event: 'connected' | 'disconnected'; device: USBDeviceInfo };
+  serial:
+    | { port: string; data: string }
+    | { event: 'opened' | 'closed'; port: string }
+    | { event: 'error'; port: string; error: string };
+  printer:
+    | { event: 'updated'; printers: PrinterInfo[] }
+    | { event: 'printed'; printer: string; content: string }
+    | { event: 'error'; error: string };
+  camera:
+    | { event: 'updated'; cameras: CameraInfo[] }
+    | { event: 'captured'; cameraId: string; filePath?: string }
+    | { event: 'stream-started'; cameraId: string; streamUrl: string }
+    | { event: 'stream-stopped'; cameraId: string }
+    | { event: 'error'; cameraId: string; error: string };
+  scanner: ScanProgress;
+}
+
+/**
+ * Evento de dispositivo (mesmo formato pelo IPC e pelas notificações device.event da API)
+ */
+export interface DeviceEvent<C extends DeviceChannel = DeviceChannel> {
+  channel: C;
+  event: string;
+  target?: string;
+  data: DeviceEventDataMap[C];
+}
+
+export type DeviceEventListener<C extends DeviceChannel = DeviceChannel> = (event: DeviceEvent<C>) => void;
+
+// Autenticação
+
+export interface PairingResult {
+  id: string;
+  token: string;
+  scopes: ApiScope[];
+  expiresAt: string;
+}
+
+/**
+ * Opções de cada chamada. O cancelamento pelo sinal e a chave de idempotência valem
+ * apenas pela API (no Electron a chamada segue até o fim e o sinal é ignorado).
+ */
+export interface CallOptions {
+  signal?: AbortSignal;
+  idempotencyKey?: string;
+}
+
+/**
+ * API exposta pelo preload do aplicativo em window.electronAPI
+ */
+export interface ElectronAPI {
+  getPrinters(): Promise<PrinterInfo[]>;
+  printDocument(printData: PrintData): Promise<boolean>;
+  testPrinter(printerName: string): Promise<boolean>;
+  capturePhoto(cameraId?: string, options?: CaptureOptions): Promise<string>;
+  getCameras(): Promise<CameraInfo[]>;
+  startCameraStream(cameraId: string, options?: Partial<CaptureOptions>): Promise<string>;
+  stopCameraStream(cameraId: string): Promise<boolean>;
+  getUSBDevices(): Promise<USBDeviceInfo[]>;
+  getUSBDevice(deviceId: string): Promise<USBDeviceInfo & Record<string, any>>;
+  getUSBDevicesByClass(deviceClass: string): Promise<USBDeviceInfo[]>;
+  getSerialPorts(): Promise<SerialPortInfo[]>;
+  serialOpen(port: string, options?: SerialPortOptions): Promise<boolean>;
+  serialClose(port: string): Promise<boolean>;
+  serialWrite(port: string, data: string): Promise<boolean>;
+  serialRead(port: string, timeout?: number): Promise<string>;
+  getScanners(): Promise<ScannerInfo[]>;
+  checkScannerConnection(): Promise<ScannerConnectionStatus>;
+  getDefaultScanner(): Promise<string | null>;
+  setDefaultScanner(scannerId: string): Promise<boolean>;
+  testScanner(scannerId: string): Promise<boolean>;
+  startScanner(duplex: boolean): Promise<{ success: boolean; base64?: string; pages?: number; error?: string; code?: DeviceErrorCode }>;
+  onDeviceEvent(callback: (event: DeviceEvent) => void): any;
+  removeDeviceEventListener(handler: any): void;
+}
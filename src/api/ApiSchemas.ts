@@ -0,0 +1,366 @@
+import { ApiScope } from '../utils/ConfigManager';
+import { API_SCOPES } from './AuthManager';
+import type { CaptureOptions } from '../services/CameraService';
+
+/**
+ * Subconjunto de JSON Schema usado para validar requisições e gerar o OpenAPI
+ */
+export interface SchemaObject {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
+  description?: string;
+  enum?: (string | number)[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  properties?: Record<string, SchemaObject>;
+  required?: string[];
+  items?: SchemaObject;
+  default?: any;
+}
+
+export interface RouteSchema {
+  operationId: string;
+  method: 'get' | 'post' | 'delete';
+  path: string;
+  tag: string;
+  summary: string;
+  scope?: ApiScope;
+  public?: boolean;
+  params?: Record<string, SchemaObject>;
+  query?: Record<string, SchemaObject>;
+  body?: SchemaObject;
+  responses?: Record<string, string>;
+  // Operação registrada na auditoria; target indica onde está o dispositivo (ex.: params.port)
+  audit?: { operation: string; target?: string };
+}
+
+const printOptionsSchema: SchemaObject = {
+  type: 'object',
+  properties: {
+    printer: { type: 'string', minLength: 1, description: 'Nome da impressora (padrão do sistema se omitido)' },
+    copies: { type: 'integer', minimum: 1, maximum: 99 },
+    paperSize: { type: 'string', minLength: 1 },
+    orientation: { type: 'string', enum: ['portrait', 'landscape'] },
+    quality: { type: 'string', enum: ['draft', 'normal', 'high'] }
+  }
+};
+
+const printBodySchema: SchemaObject = {
+  type: 'object',
+  required: ['content'],
+  properties: {
+    content: { type: 'string', minLength: 1, description: 'Texto, HTML ou caminho do PDF' },
+    type: { type: 'string', enum: ['text', 'html', 'pdf'], default: 'text' },
+    options: printOptionsSchema
+  }
+};
+
+const captureOptionsSchema: SchemaObject = {
+  type: 'object',
+  properties: {
+    width: { type: 'integer', minimum: 1, maximum: 4096 },
+    height: { type: 'integer', minimum: 1, maximum: 4096 },
+    quality: { type: 'integer', minimum: 1, maximum: 100 },
+    format: { type: 'string', enum: ['jpg', 'png', 'bmp'] }
+  }
+};
+
+/**
+ * Opções de captura aceitas pela API. O validador mantém campos desconhecidos, então saveToFile e
+ * filePath são descartados aqui: capturas remotas sempre usam um arquivo temporário.
+ */
+export function pickCaptureOptions(source: any): CaptureOptions {
+  const { width, height, quality, format } = source || {};
+  return { width, height, quality, format };
+}
+
+const serialOpenSchema: SchemaObject = {
+  type: 'object',
+  properties: {
+    baudRate: { type: 'integer', minimum: 110, maximum: 921600 },
+    dataBits: { type: 'integer', enum: [5, 6, 7, 8] },
+    stopBits: { type: 'number', enum: [1, 1.5, 2] },
+    parity: { type: 'string', enum: ['none', 'even', 'odd', 'mark', 'space'] },
+    rtscts: { type: 'boolean' },
+    xon: { type: 'boolean' },
+    xoff: { type: 'boolean' },
+    xany: { type: 'boolean' },
+    autoOpen: { type: 'boolean' }
+  }
+};
+
+const scanBodySchema: SchemaObject = {
+  type: 'object',
+  properties: {
+    duplex: { type: 'boolean', default: false, description: 'Frente e verso' }
+  }
+};
+
+/**
+ * Parâmetros aceitos por cada tipo de job assíncrono
+ */
+export const JOB_PARAM_SCHEMAS: Record<'scan' | 'print' | 'capture', SchemaObject> = {
+  scan: scanBodySchema,
+  print: printBodySchema,
+  capture: {
+    type: 'object',
+    properties: {
+      cameraId: { type: 'string', minLength: 1, default: '0' },
+      options: captureOptionsSchema
+    }
+  }
+};
+
+const auditQuerySchema: Record<string, SchemaObject> = {
+  from: { type: 'string', minLength: 1, description: 'Data/hora inicial (ISO 8601)' },
+  to: { type: 'string', minLength: 1, description: 'Data/hora final (ISO 8601)' },
+  channel: { type: 'string', enum: ['ipc', 'rest', 'websocket', 'job', 'command', 'mqtt'] },
+  device: { type: 'string', enum: ['printer', 'camera', 'usb', 'serial', 'scanner'] },
+  operation: { type: 'string', minLength: 1 },
+  outcome: { type: 'string', enum: ['success', 'failure'] },
+  origin: { type: 'string', minLength: 1 },
+  limit: { type: 'integer', minimum: 1, maximum: 10000, default: 1000 }
+};
+
+const idParam = (description: string): Record<string, SchemaObject> => ({
+  id: { type: 'string', minLength: 1, description }
+});
+
+const portParam: Record<string, SchemaObject> = {
+  port: { type: 'string', minLength: 1, description: 'Caminho da porta (ex.: COM3)' }
+};
+
+/**
+ * Definição de todas as rotas da API (fonte única para rotas, validação e OpenAPI)
+ */
+export const API_ROUTES = {
+  openApi: {
+    operationId: 'openApi', method: 'get', path: '/openapi.json', tag: 'Documentação', public: true,
+    summary: 'Documento OpenAPI desta API'
+  },
+
+  // Autenticação
+  pair: {
+    operationId: 'pair', method: 'post', path: '/auth/pair', tag: 'Autenticação', public: true,
+    summary: 'Solicita pareamento (aguarda aprovação do usuário no aplicativo)',
+    body: {
+      type: 'object',
+      required: ['scopes'],
+      properties: {
+        appName: { type: 'string', minLength: 1, maxLength: 100 },
+        scopes: {
+          type: 'array',
+          minItems: 1,
+          items: { type: 'string', enum: API_SCOPES }
+        }
+      }
+    },
+    responses: { '403': 'Origem não autorizada ou pareamento negado', '409': 'Pareamento já pendente' }
+  },
+  getSession: {
+    operationId: 'getSession', method: 'get', path: '/auth/session', tag: 'Autenticação',
+    summary: 'Informações do token atual'
+  },
+  revokeSession: {
+    operationId: 'revokeSession', method: 'delete', path: '/auth/session', tag: 'Autenticação',
+    summary: 'Revoga o token atual'
+  },
+
+  // Impressoras
+  listPrinters: {
+    operationId: 'listPrinters', method: 'get', path: '/printers', tag: 'Impressoras', scope: 'printer',
+    summary: 'Lista impressoras'
+  },
+  printDocument: {
+    operationId: 'printDocument', method: 'post', path: '/printers/print', tag: 'Impressoras', scope: 'printer',
+    audit: { operation: 'print', target: 'body.options.printer' },
+    summary: 'Imprime documento',
+    body: printBodySchema
+  },
+  testPrinter: {
+    operationId: 'testPrinter', method: 'get', path: '/printers/:name/test', tag: 'Impressoras', scope: 'printer',
+    audit: { operation: 'test', target: 'params.name' },
+    summary: 'Testa impressora',
+    params: { name: { type: 'string', minLength: 1 } }
+  },
+
+  // Câmeras
+  listCameras: {
+    operationId: 'listCameras', method: 'get', path: '/cameras', tag: 'Câmeras', scope: 'camera',
+    summary: 'Lista câmeras'
+  },
+  capturePhoto: {
+    operationId: 'capturePhoto', method: 'post', path: '/cameras/:id/capture', tag: 'Câmeras', scope: 'camera',
+    audit: { operation: 'capture', target: 'params.id' },
+    summary: 'Captura foto',
+    params: idParam('Id da câmera'),
+    body: captureOptionsSchema
+  },
+  startStream: {
+    operationId: 'startStream', method: 'post', path: '/cameras/:id/stream/start', tag: 'Câmeras', scope: 'camera',
+    audit: { operation: 'stream-start', target: 'params.id' },
+    summary: 'Inicia stream de vídeo',
+    params: idParam('Id da câmera'),
+    body: captureOptionsSchema
+  },
+  stopStream: {
+    operationId: 'stopStream', method: 'post', path: '/cameras/:id/stream/stop', tag: 'Câmeras', scope: 'camera',
+    audit: { operation: 'stream-stop', target: 'params.id' },
+    summary: 'Para stream de vídeo',
+    params: idParam('Id da câmera')
+  },
+
+  // USB
+  listUsbDevices: {
+    operationId: 'listUsbDevices', method: 'get', path: '/usb/devices', tag: 'USB', scope: 'usb',
+    summary: 'Lista dispositivos USB'
+  },
+  getUsbDevice: {
+    operationId: 'getUsbDevice', method: 'get', path: '/usb/devices/:id', tag: 'USB', scope: 'usb',
+    summary: 'Informações de dispositivo',
+    params: idParam('Id do dispositivo')
+  },
+  listUsbDevicesByClass: {
+    operationId: 'listUsbDevicesByClass', method: 'get', path: '/usb/devices/class/:class', tag: 'USB', scope: 'usb',
+    summary: 'Filtra dispositivos por classe',
+    params: { class: { type: 'string', minLength: 1 } }
+  },
+
+  // Comunicação serial
+  listSerialPorts: {
+    operationId: 'listSerialPorts', method: 'get', path: '/serial/ports', tag: 'Serial', scope: 'serial',
+    summary: 'Lista portas seriais'
+  },
+  openSerialPort: {
+    operationId: 'openSerialPort', method: 'post', path: '/serial/ports/:port/open', tag: 'Serial', scope: 'serial',
+    audit: { operation: 'open', target: 'params.port' },
+    summary: 'Abre porta serial',
+    params: portParam,
+    body: serialOpenSchema
+  },
+  closeSerialPort: {
+    operationId: 'closeSerialPort', method: 'post', path: '/serial/ports/:port/close', tag: 'Serial', scope: 'serial',
+    audit: { operation: 'close', target: 'params.port' },
+    summary: 'Fecha porta serial',
+    params: portParam
+  },
+  writeSerialPort: {
+    operationId: 'writeSerialPort', method: 'post', path: '/serial/ports/:port/write', tag: 'Serial', scope: 'serial',
+    audit: { operation: 'write', target: 'params.port' },
+    summary: 'Escreve dados na porta serial',
+    params: portParam,
+    body: {
+      type: 'object',
+      required: ['data'],
+      properties: { data: { type: 'string', minLength: 1, maxLength: 65536 } }
+    }
+  },
+  openCashDrawer: {
+    operationId: 'openCashDrawer', method: 'post', path: '/serial/ports/:port/drawer', tag: 'Serial', scope: 'serial',
+    audit: { operation: 'open-drawer', target: 'params.port' },
+    summary: 'Abre a gaveta de dinheiro ligada à impressora da porta (ESC/POS)',
+    params: portParam,
+    body: {
+      type: 'object',
+      properties: { drawer: { type: 'integer', enum: [1, 2], default: 1, description: 'Conector da gaveta' } }
+    }
+  },
+  readSerialPort: {
+    operationId: 'readSerialPort', method: 'get', path: '/serial/ports/:port/read', tag: 'Serial', scope: 'serial',
+    audit: { operation: 'read', target: 'params.port' },
+    summary: 'Lê dados da porta serial',
+    params: portParam,
+    query: {
+      timeout: { type: 'integer', minimum: 100, maximum: 60000, default: 5000, description: 'Tempo máximo de espera (ms)' }
+    }
+  },
+
+  // Scanners
+  listScanners: {
+    operationId: 'listScanners', method: 'get', path: '/scanners', tag: 'Scanners', scope: 'scanner',
+    summary: 'Lista scanners'
+  },
+  getScannerStatus: {
+    operationId: 'getScannerStatus', method: 'get', path: '/scanners/status', tag: 'Scanners', scope: 'scanner',
+    summary: 'Verifica conexão do scanner'
+  },
+  getDefaultScanner: {
+    operationId: 'getDefaultScanner', method: 'get', path: '/scanners/default', tag: 'Scanners', scope: 'scanner',
+    summary: 'Obtém scanner padrão'
+  },
+  setDefaultScanner: {
+    operationId: 'setDefaultScanner', method: 'post', path: '/scanners/default', tag: 'Scanners', scope: 'scanner',
+    audit: { operation: 'set-default', target: 'body.scannerId' },
+    summary: 'Define scanner padrão',
+    body: {
+      type: 'object',
+      required: ['scannerId'],
+      properties: { scannerId: { type: 'string', minLength: 1 } }
+    }
+  },
+  testScanner: {
+    operationId: 'testScanner', method: 'get', path: '/scanners/:id/test', tag: 'Scanners', scope: 'scanner',
+    audit: { operation: 'test', target: 'params.id' },
+    summary: 'Testa scanner',
+    params: idParam('Id do scanner')
+  },
+  scanDocument: {
+    operationId: 'scanDocument', method: 'post', path: '/scanners/scan', tag: 'Scanners', scope: 'scanner',
+    audit: { operation: 'scan' },
+    summary: 'Digitaliza documento e retorna o PDF (binário com Accept: application/pdf)',
+    body: scanBodySchema
+  },
+
+  // JSON-RPC 2.0 (mesmas operações das rotas de dispositivos; o escopo é verificado por método)
+  jsonRpc: {
+    operationId: 'jsonRpc', method: 'post', path: '/rpc', tag: 'JSON-RPC',
+    summary: 'Chamada JSON-RPC 2.0 (única ou em lote); o método é o operationId da rota',
+    responses: { '204': 'Apenas notificações, sem resposta' }
+  },
+
+  // Auditoria
+  queryAudit: {
+    operationId: 'queryAudit', method: 'get', path: '/audit', tag: 'Auditoria', scope: 'audit',
+    summary: 'Consulta a trilha de auditoria (mais recentes primeiro)',
+    query: auditQuerySchema
+  },
+  exportAudit: {
+    operationId: 'exportAudit', method: 'get', path: '/audit/export', tag: 'Auditoria', scope: 'audit',
+    summary: 'Exporta a trilha de auditoria em CSV ou JSON',
+    query: {
+      ...auditQuerySchema,
+      format: { type: 'string', enum: ['csv', 'json'], default: 'csv' }
+    }
+  },
+
+  // Jobs assíncronos
+  createJob: {
+    operationId: 'createJob', method: 'post', path: '/jobs', tag: 'Jobs',
+    summary: 'Cria job assíncrono (params conforme o tipo)',
+    body: {
+      type: 'object',
+      required: ['type'],
+      properties: {
+        type: { type: 'string', enum: ['scan', 'print', 'capture'] },
+        params: { type: 'object', default: {} }
+      }
+    },
+    responses: { '202': 'Job criado' }
+  },
+  listJobs: {
+    operationId: 'listJobs', method: 'get', path: '/jobs', tag: 'Jobs',
+    summary: 'Lista jobs do cliente'
+  },
+  getJob: {
+    operationId: 'getJob', method: 'get', path: '/jobs/:id', tag: 'Jobs',
+    summary: 'Consulta status do job',
+    params: idParam('Id do job')
+  },
+  cancelJob: {
+    operationId: 'cancelJob', method: 'post', path: '/jobs/:id/cancel', tag: 'Jobs',
+    summary: 'Cancela job',
+    params: idParam('Id do job')
+  }
+} satisfies Record<string, RouteSchema>;
@@ -2,15 +2,36 @@ import express, { Express, Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import { Server as SocketIOServer } from 'socket.io';
 import { createServer, Server } from 'http';
+import { createServer as createHttpsServer, Server as HttpsServer } from 'https';
+import * as crypto from 'crypto';
 import { PrinterService } from '../services/PrinterService';
 import { CameraService } from '../services/CameraService';
 import { USBService } from '../services/USBService';
 import { SerialService } from '../services/SerialService';
+import { ScannerService } from '../services/ScannerService';
+import { ServiceRegistry, ServiceName } from '../services/ServiceRegistry';
+import { SubscriptionManager, Subscription, SubscriptionAck, SUBSCRIPTION_CHANNELS } from './SubscriptionManager';
+import { MetricsCollector } from './MetricsCollector';
+import { JsonRpcServer, JsonRpcContext, JsonRpcId, JSON_RPC_ERRORS } from './JsonRpcServer';
+import { IdempotencyCache } from './IdempotencyCache';
+import { AuthManager, PairingError, PairingApprover } from './AuthManager';
+import { JobManager, JobRunner, JobType } from './JobManager';
+import { ApiScope, ApiTokenRecord } from '../utils/ConfigManager';
+import { DeviceError, InvalidArgumentError } from '../services/DeviceError';
+import { API_ROUTES, JOB_PARAM_SCHEMAS, RouteSchema, pickCaptureOptions } from './ApiSchemas';
+import { RequestValidator } from './RequestValidator';
+import { OpenApiGenerator } from './OpenApiGenerator';
+import { TlsCredentials } from '../utils/CertificateManager';
+import { AuditLog, AuditContext, AuditChannel, AuditQuery } from '../utils/AuditLog';
 
-interface ApiConfig {
+export interface ApiConfig {
   port: number;
+  httpsPort: number;
+  tls?: TlsCredentials;
   allowedOrigins: string[];
   apiPrefix: string;
+  // Endpoint /metrics (Prometheus); com token, exige Authorization: Bearer <token>
+  metrics: { enabled: boolean; token?: string };
 }
 
 /**
@@ -19,36 +40,66 @@ interface ApiConfig {
 export class ApiServer {
   private app: Express;
   private server: Server;
+  private httpsServer: HttpsServer | null = null;
   private io: SocketIOServer;
   private config: ApiConfig;
-  
+  private started: boolean = false;
+  private apiRouter: express.Router = express.Router();
+  private routeMount: express.Router = express.Router();
+  private authManager: AuthManager;
+  private jobManager: JobManager;
+  private auditLog: AuditLog;
+  private services: ServiceRegistry;
+  private subscriptionManager: SubscriptionManager;
+  private metricsCollector: MetricsCollector;
+  private jsonRpcServer: JsonRpcServer;
+  private idempotencyCache: IdempotencyCache = new IdempotencyCache();
+
   private printerService: PrinterService;
   private cameraService: CameraService;
   private usbService: USBService;
   private serialService: SerialService;
+  private scannerService: ScannerService;
 
-  constructor(config?: Partial<ApiConfig>) {
+  constructor(services: ServiceRegistry, metricsCollector: MetricsCollector, config?: Partial<ApiConfig>) {
     this.config = {
       port: 8080,
+      httpsPort: 8443,
       allowedOrigins: ['http://localhost:3000', 'http://localhost:8000'],
       apiPrefix: '/api/v1',
+      metrics: { enabled: true },
       ...config
     };
 
+    this.authManager = AuthManager.getInstance();
+    this.jobManager = new JobManager();
+    this.auditLog = AuditLog.getInstance();
+
     this.app = express();
     this.server = createServer(this.app);
     this.io = new SocketIOServer(this.server, {
       cors: {
-        origin: this.config.allowedOrigins,
+        // Origens lidas a cada conexão, para refletir alterações de configuração
+        origin: (origin, callback) => callback(null, this.isOriginAllowed(origin)),
         methods: ["GET", "POST"]
       }
     });
 
-    // Inicializar serviços
-    this.printerService = new PrinterService();
-    this.cameraService = new CameraService();
-    this.usbService = new USBService();
-    this.serialService = new SerialService();
+    // Listener HTTPS opcional (mesmas rotas e WebSocket), para páginas servidas por HTTPS
+    if (this.config.tls) {
+      this.httpsServer = this.createHttpsListener(this.config.tls);
+    }
+
+    // Serviços compartilhados com os handlers IPC
+    this.services = services;
+    this.printerService = services.printer;
+    this.cameraService = services.camera;
+    this.usbService = services.usb;
+    this.serialService = services.serial;
+    this.scannerService = services.scanner;
+    this.subscriptionManager = new SubscriptionManager(this.io, services);
+    this.metricsCollector = metricsCollector;
+    this.jsonRpcServer = new JsonRpcServer(services, this.subscriptionManager);
 
     this.setupMiddleware();
     this.setupRoutes();
@@ -60,14 +111,14 @@ export class ApiServer {
    */
   async start(): Promise<void> {
     try {
-      // Inicializar serviços
-      await this.initializeServices();
+      // Aguardar serviços (inicializados pelo registro, idempotente)
+      await this.services.initializeAll();
+      this.subscriptionManager.attach();
 
-      // Iniciar servidor
-      this.server.listen(this.config.port, () => {
-        console.log(`Servidor de API iniciado na porta ${this.config.port}`);
-        console.log(`Endpoints disponíveis em http://localhost:${this.config.port}${this.config.apiPrefix}`);
-      });
+      // Iniciar servidor (mesmo se a porta falhar, uma nova porta configurada será aplicada)
+      this.started = true;
+      await this.listenHttp();
+      await this.listenHttps();
     } catch (error) {
       console.error('Erro ao iniciar servidor de API:', error);
       throw error;
@@ -79,25 +130,107 @@ export class ApiServer {
    */
   async stop(): Promise<void> {
     try {
-      // Finalizar serviços
-      await this.cleanupServices();
+      // Cancelar jobs pendentes e assinaturas (os serviços são finalizados pelo registro)
+      this.jobManager.cancelAll();
+      this.subscriptionManager.detach();
 
       // Fechar servidor
-      this.server.close();
+      this.started = false;
+      await this.closeListener(this.server);
+      if (this.httpsServer) {
+        await this.closeListener(this.httpsServer);
+      }
       console.log('Servidor de API finalizado');
     } catch (error) {
       console.error('Erro ao parar servidor de API:', error);
     }
   }
 
+  /**
+   * Indica se a API está aceitando conexões (falso antes do start, após o stop ou se a porta falhou)
+   */
+  isRunning(): boolean {
+    return this.started && this.server.listening;
+  }
+
+  /**
+   * Inicia o listener HTTP na porta configurada
+   */
+  private async listenHttp(): Promise<void> {
+    await this.listen(this.server, this.config.port);
+    console.log(`Servidor de API iniciado na porta ${this.config.port}`);
+    console.log(`Endpoints disponíveis em http://localhost:${this.config.port}${this.config.apiPrefix}`);
+  }
+
+  /**
+   * Inicia o listener HTTPS, se habilitado
+   */
+  private async listenHttps(): Promise<void> {
+    if (!this.httpsServer) return;
+
+    await this.listen(this.httpsServer, this.config.httpsPort);
+    console.log(`Servidor de API HTTPS iniciado na porta ${this.config.httpsPort}`);
+    console.log(`Endpoints disponíveis em https://localhost:${this.config.httpsPort}${this.config.apiPrefix}`);
+  }
+
+  private listen(server: Server | HttpsServer, port: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onError = (error: Error) => reject(error);
+      server.once('error', onError);
+      server.listen(port, () => {
+        server.off('error', onError);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Fecha o listener encerrando também conexões keep-alive e WebSocket abertas
+   */
+  private closeListener(server: Server | HttpsServer): Promise<void> {
+    return new Promise((resolve) => {
+      if (!server.listening) {
+        resolve();
+        return;
+      }
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+  }
+
+  /**
+   * Cria o listener HTTPS com as mesmas rotas e o WebSocket
+   */
+  private createHttpsListener(tls: TlsCredentials): HttpsServer {
+    const httpsServer = createHttpsServer({ key: tls.key, cert: tls.cert }, this.app);
+    this.io.attach(httpsServer);
+    return httpsServer;
+  }
+
+  /**
+   * Verifica se a origem pode acessar a API (requisições sem origem, como as do próprio
+   * computador fora do navegador, são aceitas e dependem do token)
+   */
+  private isOriginAllowed(origin: string | undefined): boolean {
+    return !origin || this.config.allowedOrigins.includes(origin);
+  }
+
+  /**
+   * Define a função usada para pedir ao usuário a aprovação de pareamentos
+   */
+  setPairingApprover(approver: PairingApprover | null): void {
+    this.authManager.setPairingApprover(approver);
+  }
+
   /**
    * Configura middleware do Express
    */
   private setupMiddleware(): void {
     // CORS
     this.app.use(cors({
-      origin: this.config.allowedOrigins,
-      credentials: true
+      origin: (origin, callback) => callback(null, this.isOriginAllowed(origin)),
+      credentials: true,
+      exposedHeaders: ['Idempotent-Replayed']
     }));
 
     // JSON parsing
@@ -114,72 +247,443 @@ export class ApiServer {
     this.app.get('/health', (req: Request, res: Response) => {
       res.json({ status: 'OK', timestamp: new Date().toISOString() });
     });
+
+    // Saúde detalhada por serviço, com indicador de prontidão (?services=printer,scanner limita o ready geral)
+    this.app.get('/health/details', (req: Request, res: Response) => {
+      const requested = typeof req.query.services === 'string'
+        ? req.query.services.split(',').map(name => name.trim()).filter(Boolean)
+        : [];
+      const names = this.services.getNames();
+      const unknown = requested.filter(name => !names.includes(name as ServiceName));
+      if (unknown.length > 0) {
+        this.sendError(res, new InvalidArgumentError(`Serviço desconhecido: ${unknown.join(', ')}`, { field: 'query.services' }));
+        return;
+      }
+      res.json(this.services.getHealth(requested as ServiceName[]));
+    });
+
+    // Métricas para o Prometheus (fora do prefixo e do pareamento, para coleta remota)
+    this.app.get('/metrics', (req: Request, res: Response) => {
+      const { enabled, token } = this.config.metrics;
+      if (!enabled) {
+        res.status(404).json({ success: false, error: 'Métricas desabilitadas', code: 'NOT_FOUND' });
+        return;
+      }
+
+      const provided = AuthManager.extractBearerToken(req.headers.authorization);
+      if (token && (!provided || !this.authManager.matchesSecret(provided, token))) {
+        res.status(401).json({ success: false, error: 'Token de métricas ausente ou inválido', code: 'UNAUTHORIZED' });
+        return;
+      }
+
+      res.type('text/plain; version=0.0.4').send(this.metricsCollector.render(this.io.engine?.clientsCount ?? 0));
+    });
+
+    // CA local do HTTPS, para instalação como autoridade confiável
+    this.app.get('/ca.crt', (req: Request, res: Response) => {
+      if (!this.config.tls) {
+        res.status(404).json({ success: false, error: 'HTTPS não habilitado', code: 'NOT_FOUND' });
+        return;
+      }
+      res.type('application/x-x509-ca-cert')
+        .attachment('intranet-desktop-ca.crt')
+        .send(this.config.tls.ca);
+    });
   }
 
   /**
    * Configura rotas da API
    */
   private setupRoutes(): void {
-    const router = express.Router();
+    const router = this.apiRouter;
+
+    // Rotas de pareamento e sessão (o pareamento não exige token)
+    this.setupAuthRoutes(router);
 
     // Rotas de impressoras
+    router.use('/printers', this.requireScope('printer'));
     this.setupPrinterRoutes(router);
 
     // Rotas de câmeras
+    router.use('/cameras', this.requireScope('camera'));
     this.setupCameraRoutes(router);
 
     // Rotas de USB
+    router.use('/usb', this.requireScope('usb'));
     this.setupUSBRoutes(router);
 
     // Rotas de portas seriais
+    router.use('/serial', this.requireScope('serial'));
     this.setupSerialRoutes(router);
 
-    // Usar router com prefixo
-    this.app.use(this.config.apiPrefix, router);
+    // Rotas de scanners
+    router.use('/scanners', this.requireScope('scanner'));
+    this.setupScannerRoutes(router);
+
+    // Rotas de jobs assíncronos (escopo verificado pelo tipo do job)
+    this.setupJobRoutes(router);
+
+    // JSON-RPC (escopo verificado pelo método)
+    this.route(router, API_ROUTES.jsonRpc, async (req: Request, res: Response) => {
+      try {
+        const response = await this.jsonRpcServer.handle(req.body, {
+          hasScope: (scope) => this.tokenHasScope(res, scope),
+          audit: this.getAuditContext('rest', req.headers.origin, res.locals.apiToken),
+          signal: this.createAbortSignal(res)
+        });
+        if (response) {
+          res.json(response);
+        } else {
+          res.status(204).end();
+        }
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    });
+
+    // Rotas de auditoria
+    router.use('/audit', this.requireScope('audit'));
+    this.setupAuditRoutes(router);
+
+    // Usar router com prefixo (o prefixo pode mudar em updateConfig)
+    this.mountRoutes();
+    this.app.use((req: Request, res: Response, next: NextFunction) => this.routeMount(req, res, next));
 
     // Handler de erro
-    this.app.use((error: Error, req: Request, res: Response, next: NextFunction) => {
+    this.app.use((error: unknown, req: Request, res: Response, next: NextFunction) => {
       console.error('Erro na API:', error);
-      res.status(500).json({
-        error: 'Erro interno do servidor',
-        message: error instanceof Error ? error instanceof Error ? error.message : String(error) : String(error)
+      // O body-parser marca o erro de JSON inválido com type
+      const parseFailed = typeof error === 'object' && error !== null && 'type' in error && error.type === 'entity.parse.failed';
+      if (parseFailed && req.path === `${this.config.apiPrefix}${API_ROUTES.jsonRpc.path}`) {
+        res.status(400).json(JsonRpcServer.errorResponse(null, JSON_RPC_ERRORS.PARSE_ERROR, 'JSON inválido'));
+        return;
+      }
+      if (parseFailed) {
+        this.sendError(res, new InvalidArgumentError('Corpo da requisição não é um JSON válido'));
+        return;
+      }
+      this.sendError(res, error);
+    });
+  }
+
+  /**
+   * Registra uma rota a partir da sua definição, validando a requisição antes do handler.
+   * Rotas que alteram estado aceitam Idempotency-Key (repetições recebem a resposta original, sem
+   * nova auditoria), e rotas de operações de dispositivos são registradas na auditoria, inclusive quando inválidas.
+   */
+  private route(router: express.Router, schema: RouteSchema, handler: (req: Request, res: Response) => any): void {
+    const idempotency = schema.method !== 'get' && !schema.public ? [this.idempotent(schema)] : [];
+    const audit = schema.audit ? [this.auditRequest(schema)] : [];
+    router[schema.method](schema.path, this.measureRequest(schema), ...idempotency, ...audit, RequestValidator.middleware(schema), handler);
+  }
+
+  /**
+   * Middleware de Idempotency-Key: a primeira requisição com a chave executa a operação e, se
+   * concluída com sucesso, sua resposta é guardada por alguns minutos e devolvida nas repetições
+   */
+  private idempotent(schema: RouteSchema) {
+    return (req: Request, res: Response, next: NextFunction) => {
+      const idempotencyKey = req.get('Idempotency-Key');
+      if (idempotencyKey === undefined) {
+        next();
+        return;
+      }
+
+      if (!/^[\x21-\x7e]{1,255}$/.test(idempotencyKey)) {
+        this.sendError(res, new InvalidArgumentError('Cabeçalho Idempotency-Key inválido (até 255 caracteres visíveis)', { field: 'headers.idempotency-key' }));
+        return;
+      }
+
+      // As chaves valem por cliente (token ou origem)
+      const owner = this.getOwnerId(res) || req.headers.origin || 'anonymous';
+      const key = `${owner}:${idempotencyKey}`;
+      const fingerprint = crypto.createHash('sha256')
+        .update(`${schema.operationId}\n${req.originalUrl}\n${JSON.stringify(req.body ?? {})}`)
+        .digest('hex');
+
+      const cached = this.idempotencyCache.begin(key, fingerprint);
+      if (cached.state === 'pending') {
+        res.status(409).json({ success: false, error: 'Requisição com esta Idempotency-Key ainda em andamento', code: 'IDEMPOTENCY_CONFLICT' });
+        return;
+      }
+      if (cached.state === 'full') {
+        res.status(503).set('Retry-After', '5').json({ success: false, error: 'Muitas requisições com Idempotency-Key em andamento', code: 'IDEMPOTENCY_CACHE_FULL' });
+        return;
+      }
+      if (cached.state === 'mismatch') {
+        res.status(422).json({ success: false, error: 'Idempotency-Key já usada em outra requisição', code: 'IDEMPOTENCY_KEY_REUSED' });
+        return;
+      }
+      if (cached.state === 'done') {
+        const { statusCode, contentType, body } = cached.response;
+        res.status(statusCode).set('Idempotent-Replayed', 'true');
+        if (contentType) res.set('Content-Type', contentType);
+        res.send(body);
+        return;
+      }
+
+      // Captura o corpo enviado (res.json também passa por res.send)
+      let body: any;
+      const send = res.send.bind(res);
+      res.send = (data?: any) => {
+        body = data;
+        return send(data);
+      };
+
+      // Apenas sucessos são guardados; falhas e cancelamentos liberam a chave para nova tentativa
+      res.once('close', () => {
+        if (res.writableFinished && res.statusCode >= 200 && res.statusCode < 300) {
+          this.idempotencyCache.complete(key, {
+            statusCode: res.statusCode,
+            contentType: res.get('Content-Type'),
+            body
+          });
+        } else {
+          this.idempotencyCache.release(key);
+        }
+      });
+
+      next();
+    };
+  }
+
+  /**
+   * Sinal cancelado quando o cliente encerra a conexão antes da resposta
+   */
+  private createAbortSignal(res: Response): AbortSignal {
+    const controller = new AbortController();
+    res.once('close', () => {
+      if (!res.writableFinished) {
+        controller.abort();
+      }
+    });
+    return controller.signal;
+  }
+
+  /**
+   * Middleware que registra a latência da rota nas métricas
+   */
+  private measureRequest(schema: RouteSchema) {
+    return (req: Request, res: Response, next: NextFunction) => {
+      const startedAt = process.hrtime.bigint();
+      res.once('finish', () => {
+        const seconds = Number(process.hrtime.bigint() - startedAt) / 1e9;
+        this.metricsCollector.observeRequest(schema.method, schema.operationId, res.statusCode, seconds);
+      });
+      next();
+    };
+  }
+
+  /**
+   * Middleware que registra a operação na auditoria ao encerrar a resposta
+   */
+  private auditRequest(schema: RouteSchema) {
+    return (req: Request, res: Response, next: NextFunction) => {
+      const startedAt = Date.now();
+      // 'close' também ocorre quando o cliente desiste antes da resposta
+      res.once('close', () => {
+        const success = res.writableFinished && res.statusCode < 400;
+        this.auditLog.record({
+          ...this.getAuditContext('rest', req.headers.origin, res.locals.apiToken),
+          device: schema.scope || 'unknown',
+          operation: schema.audit!.operation,
+          target: this.resolveAuditTarget(req, schema.audit!.target),
+          payloadBytes: Number(req.headers['content-length']) || 0,
+          outcome: success ? 'success' : 'failure',
+          ...(success ? {} : { errorCode: res.locals.errorCode || (res.writableFinished ? 'OPERATION_FAILED' : 'ABORTED') }),
+          durationMs: Date.now() - startedAt
+        });
       });
+      next();
+    };
+  }
+
+  /**
+   * Contexto da auditoria: canal, origem e token do cliente
+   */
+  private getAuditContext(channel: AuditChannel, origin?: string, record?: ApiTokenRecord): AuditContext {
+    return {
+      channel,
+      ...(origin ? { origin } : {}),
+      ...(record ? { tokenId: record.id, appName: record.appName } : {})
+    };
+  }
+
+  /**
+   * Obtém o dispositivo alvo da requisição a partir do caminho definido na rota (ex.: params.port)
+   */
+  private resolveAuditTarget(req: Request, targetPath?: string): string | undefined {
+    if (!targetPath) return undefined;
+    const value = targetPath.split('.').reduce((current: any, key) => current?.[key], req);
+    return typeof value === 'string' && value ? value : undefined;
+  }
+
+  /**
+   * Monta as rotas da API no prefixo configurado
+   */
+  private mountRoutes(): void {
+    const mount = express.Router();
+    mount.use(this.config.apiPrefix, this.apiRouter);
+    this.routeMount = mount;
+  }
+
+  /**
+   * Responde com erro estruturado: código estável e status HTTP correspondente
+   */
+  private sendError(res: Response, error: unknown): void {
+    const deviceError = DeviceError.from(error);
+    res.locals.errorCode = deviceError.code;
+    res.status(deviceError.statusCode).json({
+      success: false,
+      error: deviceError.message,
+      code: deviceError.code,
+      details: deviceError.details
+    });
+  }
+
+  /**
+   * Configura rotas de pareamento e gerenciamento da sessão
+   */
+  private setupAuthRoutes(router: express.Router): void {
+    // Documento OpenAPI (público, para geração de clientes)
+    this.route(router, API_ROUTES.openApi, (req: Request, res: Response) => {
+      res.json(OpenApiGenerator.build({
+        apiPrefix: this.config.apiPrefix,
+        port: this.config.port,
+        httpsPort: this.config.tls ? this.config.httpsPort : undefined
+      }));
+    });
+
+    // Solicitar pareamento (aguarda aprovação do usuário no aplicativo)
+    this.route(router, API_ROUTES.pair, async (req: Request, res: Response) => {
+      try {
+        const origin = req.headers.origin;
+        if (!origin || !this.config.allowedOrigins.includes(origin)) {
+          res.status(403).json({ success: false, error: 'Origem não autorizada a solicitar pareamento', code: 'FORBIDDEN' });
+          return;
+        }
+
+        const { appName, scopes } = req.body;
+        const result = await this.authManager.requestPairing({
+          origin,
+          appName: appName || origin,
+          scopes
+        });
+        res.json({ success: true, data: result });
+      } catch (error) {
+        if (error instanceof PairingError) {
+          res.status(error.statusCode).json({ success: false, error: error.message, code: error.code });
+          return;
+        }
+        this.sendError(res, error);
+      }
+    });
+
+    // Demais rotas exigem token válido
+    router.use(this.authenticate());
+
+    // Informações do token atual
+    this.route(router, API_ROUTES.getSession, (req: Request, res: Response) => {
+      const record = res.locals.apiToken as ApiTokenRecord | undefined;
+      if (!record) {
+        res.json({ success: true, data: { authEnabled: false } });
+        return;
+      }
+
+      const { tokenHash, ...info } = record;
+      res.json({ success: true, data: { authEnabled: true, ...info } });
+    });
+
+    // Revogar o token atual (logout)
+    this.route(router, API_ROUTES.revokeSession, (req: Request, res: Response) => {
+      const record = res.locals.apiToken as ApiTokenRecord | undefined;
+      const result = record ? this.authManager.revokeToken(record.id) : false;
+      res.json({ success: result });
     });
   }
 
+  /**
+   * Middleware que exige um token Bearer válido quando a autenticação está habilitada
+   */
+  private authenticate() {
+    return (req: Request, res: Response, next: NextFunction) => {
+      if (!this.authManager.isEnabled()) {
+        next();
+        return;
+      }
+
+      const token = AuthManager.extractBearerToken(req.headers.authorization);
+      const record = token ? this.authManager.validateToken(token, req.headers.origin) : null;
+      if (!record) {
+        res.status(401).json({ success: false, error: 'Token de acesso ausente, inválido ou expirado', code: 'UNAUTHORIZED' });
+        return;
+      }
+
+      res.locals.apiToken = record;
+      next();
+    };
+  }
+
+  /**
+   * Middleware que exige um escopo específico no token da requisição
+   */
+  private requireScope(scope: ApiScope) {
+    return (req: Request, res: Response, next: NextFunction) => {
+      if (!this.tokenHasScope(res, scope)) {
+        res.status(403).json({ success: false, error: `Token sem permissão para o escopo ${scope}`, code: 'FORBIDDEN' });
+        return;
+      }
+      next();
+    };
+  }
+
+  /**
+   * Verifica se o token da requisição possui o escopo informado
+   */
+  private tokenHasScope(res: Response, scope: ApiScope): boolean {
+    return this.recordHasScope(res.locals.apiToken, scope);
+  }
+
+  /**
+   * Verifica se o token (da requisição ou do socket) possui o escopo informado
+   */
+  private recordHasScope(record: ApiTokenRecord | undefined, scope: ApiScope): boolean {
+    return !this.authManager.isEnabled() || (!!record && this.authManager.hasScope(record, scope));
+  }
+
   /**
    * Configura rotas de impressoras
    */
   private setupPrinterRoutes(router: express.Router): void {
     // Listar impressoras
-    router.get('/printers', async (req: Request, res: Response) => {
+    this.route(router, API_ROUTES.listPrinters, async (req: Request, res: Response) => {
       try {
         const printers = await this.printerService.getPrinters();
         res.json({ success: true, data: printers });
       } catch (error) {
-        res.status(500).json({ success: false, error: error instanceof Error ? error instanceof Error ? error.message : String(error) : String(error) });
+        this.sendError(res, error);
       }
     });
 
     // Imprimir documento
-    router.post('/printers/print', async (req: Request, res: Response) => {
+    this.route(router, API_ROUTES.printDocument, async (req: Request, res: Response) => {
       try {
         const { content, type, options } = req.body;
-        const result = await this.printerService.print({ content, type, options });
+        const result = await this.printerService.print({ content, type, options }, this.createAbortSignal(res));
         res.json({ success: result });
       } catch (error) {
-        res.status(500).json({ success: false, error: error instanceof Error ? error.message : String(error) });
+        this.sendError(res, error);
       }
     });
 
     // Testar impressora
-    router.get('/printers/:name/test', async (req: Request, res: Response) => {
+    this.route(router, API_ROUTES.testPrinter, async (req: Request, res: Response) => {
       try {
         const { name } = req.params;
         const result = await this.printerService.testDevice(name);
         res.json({ success: true, available: result });
       } catch (error) {
-        res.status(500).json({ success: false, error: error instanceof Error ? error.message : String(error) });
+        this.sendError(res, error);
       }
     });
   }
@@ -189,47 +693,47 @@ export class ApiServer {
    */
   private setupCameraRoutes(router: express.Router): void {
     // Listar câmeras
-    router.get('/cameras', async (req: Request, res: Response) => {
+    this.route(router, API_ROUTES.listCameras, async (req: Request, res: Response) => {
       try {
         const cameras = await this.cameraService.getCameras();
         res.json({ success: true, data: cameras });
       } catch (error) {
-        res.status(500).json({ success: false, error: error instanceof Error ? error.message : String(error) });
+        this.sendError(res, error);
       }
     });
 
     // Capturar foto
-    router.post('/cameras/:id/capture', async (req: Request, res: Response) => {
+    this.route(router, API_ROUTES.capturePhoto, async (req: Request, res: Response) => {
       try {
         const { id } = req.params;
-        const options = req.body;
+        const options = pickCaptureOptions(req.body);
         const result = await this.cameraService.capturePhoto(id, options);
         res.json({ success: true, data: result });
       } catch (error) {
-        res.status(500).json({ success: false, error: error instanceof Error ? error.message : String(error) });
+        this.sendError(res, error);
       }
     });
 
     // Iniciar stream de vídeo
-    router.post('/cameras/:id/stream/start', async (req: Request, res: Response) => {
+    this.route(router, API_ROUTES.startStream, async (req: Request, res: Response) => {
       try {
         const { id } = req.params;
-        const options = req.body;
+        const options = pickCaptureOptions(req.body);
         const streamUrl = await this.cameraService.startVideoStream(id, options);
         res.json({ success: true, streamUrl });
       } catch (error) {
-        res.status(500).json({ success: false, error: error instanceof Error ? error.message : String(error) });
+        this.sendError(res, error);
       }
     });
 
     // Parar stream de vídeo
-    router.post('/cameras/:id/stream/stop', async (req: Request, res: Response) => {
+    this.route(router, API_ROUTES.stopStream, async (req: Request, res: Response) => {
       try {
         const { id } = req.params;
         await this.cameraService.stopVideoStream(id);
         res.json({ success: true });
       } catch (error) {
-        res.status(500).json({ success: false, error: error instanceof Error ? error.message : String(error) });
+        this.sendError(res, error);
       }
     });
   }
@@ -239,34 +743,34 @@ export class ApiServer {
    */
   private setupUSBRoutes(router: express.Router): void {
     // Listar dispositivos USB
-    router.get('/usb/devices', async (req: Request, res: Response) => {
+    this.route(router, API_ROUTES.listUsbDevices, async (req: Request, res: Response) => {
       try {
         const devices = await this.usbService.getDevices();
         res.json({ success: true, data: devices });
       } catch (error) {
-        res.status(500).json({ success: false, error: error instanceof Error ? error.message : String(error) });
+        this.sendError(res, error);
       }
     });
 
     // Obter informações de dispositivo específico
-    router.get('/usb/devices/:id', async (req: Request, res: Response) => {
+    this.route(router, API_ROUTES.getUsbDevice, async (req: Request, res: Response) => {
       try {
         const { id } = req.params;
         const device = await this.usbService.getDeviceDetails(id);
         res.json({ success: true, data: device });
       } catch (error) {
-        res.status(500).json({ success: false, error: error instanceof Error ? error.message : String(error) });
+        this.sendError(res, error);
       }
     });
 
     // Filtrar por classe de dispositivo
-    router.get('/usb/devices/class/:class', async (req: Request, res: Response) => {
+    this.route(router, API_ROUTES.listUsbDevicesByClass, async (req: Request, res: Response) => {
       try {
         const { class: deviceClass } = req.params;
         const devices = await this.usbService.getDevicesByClass(deviceClass);
         res.json({ success: true, data: devices });
       } catch (error) {
-        res.status(500).json({ success: false, error: error instanceof Error ? error.message : String(error) });
+        this.sendError(res, error);
       }
     });
   }
@@ -276,132 +780,447 @@ export class ApiServer {
    */
   private setupSerialRoutes(router: express.Router): void {
     // Listar portas seriais
-    router.get('/serial/ports', async (req: Request, res: Response) => {
+    this.route(router, API_ROUTES.listSerialPorts, async (req: Request, res: Response) => {
       try {
         const ports = await this.serialService.getPorts();
         res.json({ success: true, data: ports });
       } catch (error) {
-        res.status(500).json({ success: false, error: error instanceof Error ? error.message : String(error) });
+        this.sendError(res, error);
       }
     });
 
     // Abrir porta serial
-    router.post('/serial/ports/:port/open', async (req: Request, res: Response) => {
+    this.route(router, API_ROUTES.openSerialPort, async (req: Request, res: Response) => {
       try {
         const { port } = req.params;
         const options = req.body;
         const result = await this.serialService.openPort(port, options);
         res.json({ success: result });
       } catch (error) {
-        res.status(500).json({ success: false, error: error instanceof Error ? error.message : String(error) });
+        this.sendError(res, error);
       }
     });
 
     // Fechar porta serial
-    router.post('/serial/ports/:port/close', async (req: Request, res: Response) => {
+    this.route(router, API_ROUTES.closeSerialPort, async (req: Request, res: Response) => {
       try {
         const { port } = req.params;
         const result = await this.serialService.closePort(port);
         res.json({ success: result });
       } catch (error) {
-        res.status(500).json({ success: false, error: error instanceof Error ? error.message : String(error) });
+        this.sendError(res, error);
       }
     });
 
     // Escrever dados na porta serial
-    router.post('/serial/ports/:port/write', async (req: Request, res: Response) => {
+    this.route(router, API_ROUTES.writeSerialPort, async (req: Request, res: Response) => {
       try {
         const { port } = req.params;
         const { data } = req.body;
         const result = await this.serialService.write(port, data);
         res.json({ success: result });
       } catch (error) {
-        res.status(500).json({ success: false, error: error instanceof Error ? error.message : String(error) });
+        this.sendError(res, error);
+      }
+    });
+
+    // Abrir gaveta de dinheiro
+    this.route(router, API_ROUTES.openCashDrawer, async (req: Request, res: Response) => {
+      try {
+        const { port } = req.params;
+        const result = await this.serialService.openCashDrawer(port, req.body?.drawer);
+        res.json({ success: result });
+      } catch (error) {
+        this.sendError(res, error);
       }
     });
 
     // Ler dados da porta serial
-    router.get('/serial/ports/:port/read', async (req: Request, res: Response) => {
+    this.route(router, API_ROUTES.readSerialPort, async (req: Request, res: Response) => {
       try {
         const { port } = req.params;
-        const timeout = parseInt(req.query.timeout as string) || 5000;
-        const data = await this.serialService.read(port, timeout);
+        const timeout = Number(req.query.timeout);
+        const data = await this.serialService.read(port, timeout, this.createAbortSignal(res));
         res.json({ success: true, data });
       } catch (error) {
-        res.status(500).json({ success: false, error: error instanceof Error ? error.message : String(error) });
+        this.sendError(res, error);
       }
     });
   }
 
   /**
-   * Configura WebSocket para comunicação em tempo real
+   * Configura rotas de scanners
    */
-  private setupWebSocket(): void {
-    this.io.on('connection', (socket) => {
-      console.log(`Cliente WebSocket conectado: ${socket.id}`);
+  private setupScannerRoutes(router: express.Router): void {
+    // Listar scanners
+    this.route(router, API_ROUTES.listScanners, async (req: Request, res: Response) => {
+      try {
+        const scanners = await this.scannerService.getScanners();
+        res.json({ success: true, data: scanners });
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    });
 
-      // Eventos de dispositivos USB
-      socket.on('monitor-usb', () => {
-        this.usbService.monitorDeviceChanges((event, device) => {
-          socket.emit('usb-device-event', { event, device });
-        });
-      });
+    // Verificar conexão do scanner
+    this.route(router, API_ROUTES.getScannerStatus, async (req: Request, res: Response) => {
+      try {
+        const status = await this.scannerService.checkScannerConnection();
+        res.json({ success: true, data: status });
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    });
 
-      // Eventos de porta serial
-      socket.on('monitor-serial', (portPath) => {
-        this.serialService.onData(portPath, (data) => {
-          socket.emit('serial-data', { port: portPath, data });
-        });
-      });
+    // Obter scanner padrão
+    this.route(router, API_ROUTES.getDefaultScanner, async (req: Request, res: Response) => {
+      try {
+        const scannerId = this.scannerService.getDefaultScannerId();
+        res.json({ success: true, data: { scannerId } });
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    });
 
-      // Eventos de câmera
-      socket.on('monitor-camera', () => {
-        // Implementar monitoramento de câmeras se necessário
-      });
+    // Definir scanner padrão
+    this.route(router, API_ROUTES.setDefaultScanner, async (req: Request, res: Response) => {
+      try {
+        const { scannerId } = req.body;
+        const result = await this.scannerService.setDefaultScanner(scannerId);
+        res.json({ success: result });
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    });
 
-      socket.on('disconnect', () => {
-        console.log(`Cliente WebSocket desconectado: ${socket.id}`);
-      });
+    // Testar scanner
+    this.route(router, API_ROUTES.testScanner, async (req: Request, res: Response) => {
+      try {
+        const { id } = req.params;
+        const result = await this.scannerService.testScanner(id);
+        res.json({ success: true, available: result });
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    });
+
+    // Digitalizar documento (retorna o PDF gerado)
+    this.route(router, API_ROUTES.scanDocument, async (req: Request, res: Response) => {
+      try {
+        const duplex = req.body.duplex === true;
+        const result = await this.scannerService.startScanning(duplex, this.createAbortSignal(res));
+
+        if (!result.success || !result.base64) {
+          this.sendError(res, new DeviceError(result.code || 'OPERATION_FAILED', result.error || 'Erro ao escanear documento'));
+          return;
+        }
+
+        // Clientes que aceitam PDF recebem o arquivo binário, os demais recebem base64
+        if (req.accepts(['json', 'application/pdf']) === 'application/pdf') {
+          res.type('application/pdf').send(Buffer.from(result.base64, 'base64'));
+        } else {
+          res.json({ success: true, data: { base64: result.base64, mimeType: 'application/pdf' } });
+        }
+      } catch (error) {
+        this.sendError(res, error);
+      }
     });
   }
 
   /**
-   * Inicializa todos os serviços
+   * Configura rotas de jobs assíncronos (digitalização, impressão e captura)
    */
-  private async initializeServices(): Promise<void> {
-    try {
-      await Promise.all([
-        this.printerService.initialize(),
-        this.cameraService.initialize(),
-        this.usbService.initialize(),
-        this.serialService.initialize()
-      ]);
-
-      console.log('Todos os serviços inicializados com sucesso');
-    } catch (error) {
-      console.error('Erro ao inicializar serviços:', error);
-      throw error;
+  private setupJobRoutes(router: express.Router): void {
+    const jobScopes: Record<JobType, ApiScope> = {
+      scan: 'scanner',
+      print: 'printer',
+      capture: 'camera'
+    };
+
+    // Criar job (retorna imediatamente com o id)
+    this.route(router, API_ROUTES.createJob, (req: Request, res: Response) => {
+      try {
+        const type = req.body.type as JobType;
+        if (!this.tokenHasScope(res, jobScopes[type])) {
+          res.status(403).json({ success: false, error: `Token sem permissão para o escopo ${jobScopes[type]}`, code: 'FORBIDDEN' });
+          return;
+        }
+
+        const params = RequestValidator.assert(req.body.params, JOB_PARAM_SCHEMAS[type], 'body.params');
+        const runner = this.createJobRunner(type, params);
+
+        // A execução do job é auditada com os dados de quem o criou
+        const context = this.getAuditContext('job', req.headers.origin, res.locals.apiToken);
+        const operation = {
+          device: jobScopes[type],
+          operation: type,
+          target: params.cameraId || params.options?.printer,
+          payloadBytes: Number(req.headers['content-length']) || 0
+        };
+        const auditedRunner: JobRunner = (signal, reportProgress) =>
+          this.auditLog.track(context, operation, () => runner(signal, reportProgress));
+
+        const job = this.jobManager.create(type, auditedRunner, this.getOwnerId(res));
+        res.status(202).json({ success: true, data: job });
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    });
+
+    // Listar jobs do cliente
+    this.route(router, API_ROUTES.listJobs, (req: Request, res: Response) => {
+      res.json({ success: true, data: this.jobManager.list(this.getOwnerId(res)) });
+    });
+
+    // Consultar status de um job
+    this.route(router, API_ROUTES.getJob, (req: Request, res: Response) => {
+      const job = this.jobManager.get(req.params.id);
+      if (!job || job.ownerId !== this.getOwnerId(res)) {
+        res.status(404).json({ success: false, error: `Job ${req.params.id} não encontrado`, code: 'NOT_FOUND' });
+        return;
+      }
+      res.json({ success: true, data: job });
+    });
+
+    // Cancelar job
+    this.route(router, API_ROUTES.cancelJob, (req: Request, res: Response) => {
+      const job = this.jobManager.get(req.params.id);
+      if (!job || job.ownerId !== this.getOwnerId(res)) {
+        res.status(404).json({ success: false, error: `Job ${req.params.id} não encontrado`, code: 'NOT_FOUND' });
+        return;
+      }
+      res.json({ success: this.jobManager.cancel(job.id) });
+    });
+  }
+
+  /**
+   * Configura rotas de consulta e exportação da auditoria
+   */
+  private setupAuditRoutes(router: express.Router): void {
+    // Consultar registros
+    this.route(router, API_ROUTES.queryAudit, (req: Request, res: Response) => {
+      try {
+        res.json({ success: true, data: this.auditLog.query(this.getAuditQuery(req)) });
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    });
+
+    // Exportar registros como arquivo
+    this.route(router, API_ROUTES.exportAudit, (req: Request, res: Response) => {
+      try {
+        const format = req.query.format === 'json' ? 'json' : 'csv';
+        const date = new Date().toISOString().split('T')[0];
+        res
+          .type(format === 'json' ? 'application/json' : 'text/csv')
+          .attachment(`auditoria-${date}.${format}`)
+          .send(this.auditLog.export(this.getAuditQuery(req), format));
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    });
+  }
+
+  /**
+   * Filtro da auditoria a partir da query string (já validada pelo esquema da rota)
+   */
+  private getAuditQuery(req: Request): AuditQuery {
+    const { from, to, channel, device, operation, outcome, origin, limit } = req.query as Record<string, string | undefined>;
+    for (const [name, value] of Object.entries({ from, to })) {
+      if (value && isNaN(new Date(value).getTime())) {
+        throw new InvalidArgumentError(`Parâmetro ${name} deve ser uma data ISO 8601`, { field: `query.${name}` });
+      }
     }
+
+    return {
+      from,
+      to,
+      channel: channel as AuditQuery['channel'],
+      device,
+      operation,
+      outcome: outcome as AuditQuery['outcome'],
+      origin,
+      limit: limit ? Number(limit) : undefined
+    };
   }
 
   /**
-   * Finaliza todos os serviços
+   * Cria a função que executa um job de acordo com o tipo
    */
-  private async cleanupServices(): Promise<void> {
-    try {
-      await Promise.all([
-        this.printerService.cleanup(),
-        this.cameraService.cleanup(),
-        this.usbService.cleanup(),
-        this.serialService.cleanup()
-      ]);
-
-      console.log('Todos os serviços finalizados com sucesso');
-    } catch (error) {
-      console.error('Erro ao finalizar serviços:', error);
+  private createJobRunner(type: JobType, params: any): JobRunner {
+    switch (type) {
+      case 'scan':
+        return async (signal, reportProgress) => {
+          this.scannerService.onScanProgress(reportProgress);
+          try {
+            const result = await this.scannerService.startScanning(params.duplex === true, signal);
+            if (!result.success) {
+              throw new DeviceError(result.code || 'OPERATION_FAILED', result.error || 'Erro ao escanear documento');
+            }
+            return { base64: result.base64, mimeType: 'application/pdf' };
+          } finally {
+            this.scannerService.offScanProgress(reportProgress);
+          }
+        };
+
+      case 'print':
+        return async (signal) => {
+          const { content, type: contentType, options } = params;
+          await this.printerService.print({ content, type: contentType, options }, signal);
+          return { printed: true };
+        };
+
+      case 'capture':
+        return async () => {
+          return await this.cameraService.capturePhoto(params.cameraId, pickCaptureOptions(params.options));
+        };
     }
   }
 
+  /**
+   * Identificador do dono dos jobs (o token da requisição, ou anônimo sem autenticação)
+   */
+  private getOwnerId(res: Response): string | undefined {
+    return (res.locals.apiToken as ApiTokenRecord | undefined)?.id;
+  }
+
+  /**
+   * Sala do Socket.IO que recebe os eventos de jobs de um dono
+   */
+  private getJobRoom(ownerId?: string): string {
+    return `jobs:${ownerId || 'anonymous'}`;
+  }
+
+  /**
+   * Configura WebSocket para comunicação em tempo real
+   */
+  private setupWebSocket(): void {
+    // Autenticação no handshake: token em auth.token ou no cabeçalho Authorization
+    this.io.use((socket, next) => {
+      if (!this.authManager.isEnabled()) {
+        next();
+        return;
+      }
+
+      const token = socket.handshake.auth?.token || AuthManager.extractBearerToken(socket.handshake.headers.authorization);
+      const record = token ? this.authManager.validateToken(token, socket.handshake.headers.origin) : null;
+      if (!record) {
+        next(new Error('Token de acesso ausente, inválido ou expirado'));
+        return;
+      }
+
+      socket.data.apiToken = record;
+      next();
+    });
+
+    // Eventos de jobs vão apenas para os clientes do mesmo token
+    this.jobManager.onJobEvent((event, job) => {
+      this.io.to(this.getJobRoom(job.ownerId)).emit(event, job);
+    });
+
+    this.io.on('connection', (socket) => {
+      console.log(`Cliente WebSocket conectado: ${socket.id}`);
+      this.metricsCollector.observeConnection();
+
+      // Operações em andamento deste cliente, canceladas ao desconectar
+      const connection = new AbortController();
+      const pendingRpc = new Map<JsonRpcId, AbortController>();
+      let scanController: AbortController | null = null;
+      socket.join(this.getJobRoom((socket.data.apiToken as ApiTokenRecord | undefined)?.id));
+
+      const hasScope = (scope: ApiScope): boolean => {
+        const record = socket.data.apiToken as ApiTokenRecord | undefined;
+        if (!this.authManager.isEnabled()) return true;
+        if (record && this.authManager.hasScope(record, scope)) return true;
+        socket.emit('auth-error', { error: `Token sem permissão para o escopo ${scope}` });
+        return false;
+      };
+
+      // Assinaturas de eventos de dispositivos (resposta pelo callback de confirmação, se enviado)
+      const subscribe = (subscription: Subscription, ack?: (result: SubscriptionAck) => void) => {
+        const channel = subscription?.channel;
+        if (SUBSCRIPTION_CHANNELS.includes(channel) && !hasScope(channel)) {
+          if (typeof ack === 'function') ack({ success: false, error: `Token sem permissão para o escopo ${channel}`, code: 'FORBIDDEN' });
+          return;
+        }
+        const result = this.subscriptionManager.subscribe(socket, subscription);
+        if (typeof ack === 'function') ack(result);
+      };
+
+      socket.on('subscribe', subscribe);
+
+      socket.on('unsubscribe', (subscription?: Partial<Subscription>, ack?: (result: SubscriptionAck) => void) => {
+        // Permite chamar socket.emit('unsubscribe', callback) para cancelar todas
+        if (typeof subscription === 'function') {
+          ack = subscription;
+          subscription = undefined;
+        }
+        const result = this.subscriptionManager.unsubscribe(socket, subscription);
+        if (typeof ack === 'function') ack(result);
+      });
+
+      socket.on('subscriptions', (ack?: (subscriptions: Subscription[]) => void) => {
+        if (typeof ack === 'function') ack(this.subscriptionManager.list(socket));
+      });
+
+      // Mensagens anteriores às assinaturas, mantidas por compatibilidade
+      socket.on('monitor-usb', () => subscribe({ channel: 'usb' }));
+      socket.on('monitor-serial', (portPath) => subscribe({ channel: 'serial', target: portPath }));
+      socket.on('monitor-camera', () => subscribe({ channel: 'camera' }));
+      socket.on('monitor-scanner', () => subscribe({ channel: 'scanner' }));
+
+      // JSON-RPC 2.0: resposta pelo callback de confirmação ou, sem ele, pelo próprio evento jsonrpc
+      socket.on('jsonrpc', async (message: unknown, ack?: (response: any) => void) => {
+        const context: JsonRpcContext = {
+          hasScope: (scope) => this.recordHasScope(socket.data.apiToken, scope),
+          audit: this.getAuditContext('websocket', socket.handshake.headers.origin, socket.data.apiToken),
+          socket,
+          signal: connection.signal,
+          pending: pendingRpc
+        };
+        const response = await this.jsonRpcServer.handle(message, context);
+        if (!response) return;
+        if (typeof ack === 'function') {
+          ack(response);
+        } else {
+          socket.emit('jsonrpc', response);
+        }
+      });
+
+      // Digitalização iniciada pelo WebSocket (resposta equivalente ao onScannerResponse do preload)
+      socket.on('start-scan', async (options?: { duplex?: boolean }) => {
+        if (!hasScope('scanner')) return;
+        const context = this.getAuditContext('websocket', socket.handshake.headers.origin, socket.data.apiToken);
+        const controller = new AbortController();
+        scanController = controller;
+        try {
+          const result = await this.auditLog.track(context, { device: 'scanner', operation: 'scan' }, () =>
+            this.scannerService.startScanning(options?.duplex === true, controller.signal)
+          );
+          socket.emit('scanner-response', result);
+        } catch (error) {
+          // Mesmo formato do ScanResult de falha, para o cliente não ficar sem resposta
+          const deviceError = DeviceError.from(error);
+          socket.emit('scanner-response', { success: false, error: deviceError.message, code: deviceError.code });
+        } finally {
+          if (scanController === controller) scanController = null;
+        }
+      });
+
+      // Cancela a digitalização iniciada por start-scan (a resposta chega com code CANCELLED)
+      socket.on('cancel-scan', () => {
+        scanController?.abort();
+      });
+
+      // Ao desconectar, o Socket.IO remove o cliente das salas (e das assinaturas)
+      socket.on('disconnect', () => {
+        console.log(`Cliente WebSocket desconectado: ${socket.id}`);
+        connection.abort();
+        scanController?.abort();
+      });
+    });
+  }
+
   /**
    * Obtém configurações atuais
    */
@@ -410,9 +1229,44 @@ export class ApiServer {
   }
 
   /**
-   * Atualiza configurações
+   * Atualiza configurações e aplica imediatamente: origens (CORS e WebSocket) valem
+   * para as próximas requisições, o prefixo remonta as rotas e mudanças de porta ou
+   * de certificado reiniciam o listener correspondente
    */
-  updateConfig(newConfig: Partial<ApiConfig>): void {
+  async updateConfig(newConfig: Partial<ApiConfig>): Promise<void> {
+    const previous = this.config;
     this.config = { ...this.config, ...newConfig };
+
+    if (this.config.apiPrefix !== previous.apiPrefix) {
+      this.mountRoutes();
+      console.log(`Prefixo da API alterado para ${this.config.apiPrefix}`);
+    }
+
+    // Certificado renovado: o listener HTTPS passa a usá-lo sem reiniciar
+    const tlsToggled = !!this.config.tls !== !!previous.tls;
+    if (!tlsToggled && this.config.tls && this.httpsServer &&
+        (this.config.tls.cert !== previous.tls?.cert || this.config.tls.key !== previous.tls?.key)) {
+      this.httpsServer.setSecureContext({ key: this.config.tls.key, cert: this.config.tls.cert });
+    }
+
+    if (this.config.port !== previous.port && this.started) {
+      await this.closeListener(this.server);
+      await this.listenHttp();
+    }
+
+    if (tlsToggled || (this.config.httpsPort !== previous.httpsPort && this.config.tls)) {
+      if (this.httpsServer) {
+        await this.closeListener(this.httpsServer);
+        console.log('Servidor de API HTTPS finalizado');
+      }
+
+      this.httpsServer = this.config.tls
+        ? (tlsToggled ? this.createHttpsListener(this.config.tls) : this.httpsServer)
+        : null;
+
+      if (this.started) {
+        await this.listenHttps();
+      }
+    }
   }
 }
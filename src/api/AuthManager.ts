@@ -0,0 +1,224 @@
+import * as crypto from 'crypto';
+import { ConfigManager, ApiScope, ApiTokenRecord } from '../utils/ConfigManager';
+
+export const API_SCOPES: ApiScope[] = ['printer', 'camera', 'usb', 'serial', 'scanner', 'audit'];
+
+export const API_SCOPE_LABELS: Record<ApiScope, string> = {
+  printer: 'Impressoras',
+  camera: 'Câmeras',
+  usb: 'Dispositivos USB',
+  serial: 'Portas seriais',
+  scanner: 'Scanners',
+  audit: 'Registro de auditoria'
+};
+
+export interface PairingRequest {
+  origin: string;
+  appName: string;
+  scopes: ApiScope[];
+}
+
+export interface PairingResult {
+  id: string;
+  token: string;
+  scopes: ApiScope[];
+  expiresAt: string;
+}
+
+/**
+ * Função chamada para que o usuário aprove (ou negue) um pareamento
+ */
+export type PairingApprover = (request: PairingRequest) => Promise<boolean>;
+
+export type ApiTokenInfo = Omit<ApiTokenRecord, 'tokenHash'>;
+
+/**
+ * Erro de pareamento com o status HTTP e o código correspondentes
+ */
+export class PairingError extends Error {
+  constructor(message: string, public readonly statusCode: number, public readonly code: string) {
+    super(message);
+    this.name = 'PairingError';
+  }
+}
+
+/**
+ * Gerenciador de pareamento e tokens de acesso da API local
+ */
+export class AuthManager {
+  private static instance: AuthManager;
+  private configManager: ConfigManager;
+  private approver: PairingApprover | null = null;
+  private pendingOrigins: Set<string> = new Set();
+
+  private constructor() {
+    this.configManager = ConfigManager.getInstance();
+    this.purgeExpiredTokens();
+  }
+
+  public static getInstance(): AuthManager {
+    if (!AuthManager.instance) {
+      AuthManager.instance = new AuthManager();
+    }
+    return AuthManager.instance;
+  }
+
+  /**
+   * Indica se a autenticação por token está habilitada
+   */
+  public isEnabled(): boolean {
+    return this.configManager.get('apiAuth').enabled;
+  }
+
+  /**
+   * Define a função responsável por pedir a aprovação do usuário
+   */
+  public setPairingApprover(approver: PairingApprover | null): void {
+    this.approver = approver;
+  }
+
+  /**
+   * Solicita pareamento de uma página web, aguardando aprovação do usuário
+   */
+  public async requestPairing(request: PairingRequest): Promise<PairingResult> {
+    if (!this.approver) {
+      throw new PairingError('Aplicativo desktop não está pronto para aprovar pareamentos', 503, 'PAIRING_UNAVAILABLE');
+    }
+
+    const invalidScopes = request.scopes.filter(scope => !API_SCOPES.includes(scope));
+    if (request.scopes.length === 0 || invalidScopes.length > 0) {
+      throw new PairingError(`Escopos inválidos: ${invalidScopes.join(', ') || 'nenhum escopo informado'}`, 400, 'INVALID_ARGUMENT');
+    }
+
+    // Evita que a mesma origem abra vários diálogos de aprovação ao mesmo tempo
+    if (this.pendingOrigins.has(request.origin)) {
+      throw new PairingError(`Já existe um pareamento pendente para ${request.origin}`, 409, 'PAIRING_PENDING');
+    }
+
+    this.pendingOrigins.add(request.origin);
+    try {
+      const approved = await this.approver(request);
+      if (!approved) {
+        throw new PairingError('Pareamento negado pelo usuário', 403, 'PAIRING_DENIED');
+      }
+    } finally {
+      this.pendingOrigins.delete(request.origin);
+    }
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    const ttlDays = this.configManager.get('apiAuth').tokenTtlDays;
+    const now = new Date();
+    const record: ApiTokenRecord = {
+      id: crypto.randomUUID(),
+      tokenHash: this.hashToken(token),
+      appName: request.appName,
+      origin: request.origin,
+      scopes: [...new Set(request.scopes)],
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + ttlDays * 24 * 60 * 60 * 1000).toISOString()
+    };
+
+    this.configManager.set('apiTokens', [...this.configManager.get('apiTokens'), record]);
+    console.log(`Token de API emitido para ${record.origin} (${record.appName})`);
+
+    return { id: record.id, token, scopes: record.scopes, expiresAt: record.expiresAt };
+  }
+
+  /**
+   * Valida um token, retornando o registro correspondente se for válido
+   */
+  public validateToken(token: string, origin?: string): ApiTokenRecord | null {
+    if (!token) return null;
+
+    const tokenHash = this.hashToken(token);
+    const record = this.configManager.get('apiTokens').find(t => this.safeEqual(t.tokenHash, tokenHash));
+    if (!record || record.revokedAt) return null;
+
+    if (new Date(record.expiresAt).getTime() <= Date.now()) return null;
+
+    // Token emitido para uma origem só pode ser usado por ela
+    if (origin && origin !== record.origin) return null;
+
+    return record;
+  }
+
+  /**
+   * Verifica se o token possui o escopo informado
+   */
+  public hasScope(record: ApiTokenRecord, scope: ApiScope): boolean {
+    return record.scopes.includes(scope);
+  }
+
+  /**
+   * Lista tokens ativos (sem o hash)
+   */
+  public listTokens(): ApiTokenInfo[] {
+    const now = Date.now();
+    return this.configManager.get('apiTokens')
+      .filter(t => !t.revokedAt && new Date(t.expiresAt).getTime() > now)
+      .map(({ tokenHash, ...info }) => info);
+  }
+
+  /**
+   * Revoga um token pelo id
+   */
+  public revokeToken(id: string): boolean {
+    const tokens = this.configManager.get('apiTokens');
+    const record = tokens.find(t => t.id === id);
+    if (!record || record.revokedAt) return false;
+
+    record.revokedAt = new Date().toISOString();
+    this.configManager.set('apiTokens', tokens);
+    console.log(`Token de API revogado: ${record.origin} (${record.appName})`);
+    return true;
+  }
+
+  /**
+   * Revoga todos os tokens ativos
+   */
+  public revokeAllTokens(): number {
+    return this.listTokens().filter(t => this.revokeToken(t.id)).length;
+  }
+
+  /**
+   * Extrai o token do cabeçalho Authorization (Bearer)
+   */
+  public static extractBearerToken(header?: string): string | null {
+    if (!header) return null;
+    const match = header.match(/^Bearer\s+(.+)$/i);
+    return match ? match[1].trim() : null;
+  }
+
+  /**
+   * Remove tokens expirados ou revogados há mais de 30 dias
+   */
+  private purgeExpiredTokens(): void {
+    const limit = Date.now() - 30 * 24 * 60 * 60 * 1000;
+    const tokens = this.configManager.get('apiTokens') || [];
+    const kept = tokens.filter(t => {
+      const endedAt = t.revokedAt || t.expiresAt;
+      return new Date(endedAt).getTime() > limit;
+    });
+
+    if (kept.length !== tokens.length) {
+      this.configManager.set('apiTokens', kept);
+    }
+  }
+
+  /**
+   * Compara um token com um segredo fixo da configuração (ex.: token de métricas) em tempo constante
+   */
+  public matchesSecret(token: string, secret: string): boolean {
+    return this.safeEqual(this.hashToken(token), this.hashToken(secret));
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    const bufA = Buffer.from(a);
+    const bufB = Buffer.from(b);
+    return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+  }
+}
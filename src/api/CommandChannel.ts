@@ -0,0 +1,332 @@
+import * as os from 'os';
+import { app } from 'electron';
+import WebSocket from 'ws';
+import { ServiceRegistry, ServiceName } from '../services/ServiceRegistry';
+import { ApiScope } from '../utils/ConfigManager';
+import { AuditContext } from '../utils/AuditLog';
+import { JsonRpcServer, JsonRpcContext, JsonRpcId } from './JsonRpcServer';
+
+export interface CommandChannelConfig {
+  url: string;
+  token: string;
+  workstationId: string;
+  scopes: ApiScope[];
+}
+
+export type CommandChannelStatus = 'disabled' | 'connecting' | 'connected' | 'disconnected';
+
+/**
+ * Eventos dos serviços que alteram o inventário enviado ao servidor
+ */
+const INVENTORY_EVENTS: { service: ServiceName; event: string }[] = [
+  { service: 'printer', event: 'printers-updated' },
+  { service: 'camera', event: 'cameras-updated' },
+  { service: 'usb', event: 'device-connected' },
+  { service: 'usb', event: 'device-disconnected' },
+  { service: 'serial', event: 'ports-updated' }
+];
+
+// Intervalo do ping; sem pong até o próximo, a conexão é considerada perdida
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+// Espera entre reconexões: 1s, 2s, 4s... até 1 minuto
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 60000;
+
+// Agrupa várias alterações de inventário (ex.: enumeração USB) em um único envio
+const INVENTORY_DEBOUNCE_MS = 2000;
+
+/**
+ * Canal de comandos de saída: o agente mantém uma conexão WebSocket autenticada com o servidor
+ * da intranet, registra a estação (id e inventário de dispositivos) e executa os comandos enviados
+ * pelo servidor, para imprimir ou digitalizar sem nenhuma página aberta na estação.
+ * Os comandos são chamadas JSON-RPC 2.0 com os mesmos métodos da API (printDocument, scanDocument,
+ * openCashDrawer...), limitados aos escopos configurados; o resultado volta como resposta JSON-RPC.
+ * O agente envia as notificações agent.register (ao conectar) e agent.inventory (ao mudar o inventário).
+ */
+export class CommandChannel {
+  private jsonRpcServer: JsonRpcServer;
+  private config: CommandChannelConfig | null = null;
+  private socket: WebSocket | null = null;
+  private status: CommandChannelStatus = 'disabled';
+  private connection: AbortController | null = null;
+  private pending: Map<JsonRpcId, AbortController> = new Map();
+  private reconnectAttempts = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private inventoryTimer: NodeJS.Timeout | null = null;
+  // A leitura do inventário (getPrinters, getPorts) emite os próprios eventos de atualização
+  private readingInventory = false;
+  // Último inventário enviado ao servidor (JSON), para não repetir envios iguais
+  private lastInventory: string | null = null;
+  private listeners: { service: ServiceName; event: string; listener: () => void }[] = [];
+
+  constructor(private services: ServiceRegistry) {
+    this.jsonRpcServer = new JsonRpcServer(services);
+  }
+
+  /**
+   * Conecta com a configuração informada (null desabilita o canal)
+   */
+  start(config: CommandChannelConfig | null): void {
+    this.stop();
+    this.config = config;
+    if (!config) return;
+
+    for (const { service, event } of INVENTORY_EVENTS) {
+      const listener = () => {
+        if (!this.readingInventory) this.scheduleInventory();
+      };
+      this.services.get(service).on(event, listener);
+      this.listeners.push({ service, event, listener });
+    }
+
+    this.connect();
+  }
+
+  /**
+   * Encerra a conexão e cancela os comandos em andamento
+   */
+  stop(): void {
+    for (const { service, event, listener } of this.listeners) {
+      this.services.get(service).off(event, listener);
+    }
+    this.listeners = [];
+
+    for (const timer of [this.reconnectTimer, this.inventoryTimer]) {
+      if (timer) clearTimeout(timer);
+    }
+    this.reconnectTimer = this.inventoryTimer = null;
+
+    this.closeSocket();
+    this.config = null;
+    this.reconnectAttempts = 0;
+    this.status = 'disabled';
+  }
+
+  getStatus(): CommandChannelStatus {
+    return this.status;
+  }
+
+  private connect(): void {
+    const config = this.config;
+    if (!config) return;
+
+    this.status = 'connecting';
+    const socket = new WebSocket(config.url, {
+      headers: {
+        Authorization: `Bearer ${config.token}`,
+        'X-Workstation-Id': this.getWorkstationId()
+      },
+      handshakeTimeout: 10000
+    });
+    this.socket = socket;
+    this.connection = new AbortController();
+
+    socket.on('open', () => {
+      console.log(`Canal de comandos conectado a ${config.url}`);
+      this.status = 'connected';
+      this.reconnectAttempts = 0;
+      this.startHeartbeat(socket);
+      this.sendRegistration().catch(error => console.error('Erro ao registrar estação no canal de comandos:', error));
+    });
+
+    socket.on('message', (data) => {
+      this.handleMessage(data.toString()).catch(error => console.error('Erro ao processar comando:', error));
+    });
+
+    // Ex.: 401 do servidor (token inválido)
+    socket.on('unexpected-response', (request, response) => {
+      console.error(`Canal de comandos recusado pelo servidor: HTTP ${response.statusCode}`);
+      socket.terminate();
+    });
+
+    socket.on('error', (error: Error) => {
+      console.error('Erro no canal de comandos:', error.message);
+    });
+
+    socket.on('close', () => {
+      if (this.socket !== socket) return;
+      this.closeSocket();
+      this.status = 'disconnected';
+      this.scheduleReconnect();
+    });
+  }
+
+  /**
+   * Fecha o socket atual e cancela os comandos em andamento
+   */
+  private closeSocket(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+
+    this.connection?.abort();
+    this.connection = null;
+    this.pending.clear();
+
+    const socket = this.socket;
+    this.socket = null;
+    if (socket) {
+      socket.removeAllListeners();
+      // Evita exceção não tratada de erros após o fechamento
+      socket.on('error', () => undefined);
+      socket.terminate();
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.config || this.reconnectTimer) return;
+
+    const delay = Math.min(RECONNECT_BASE_MS * 2 ** this.reconnectAttempts, RECONNECT_MAX_MS);
+    this.reconnectAttempts++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private startHeartbeat(socket: WebSocket): void {
+    let alive = true;
+    socket.on('pong', () => {
+      alive = true;
+    });
+
+    this.heartbeatTimer = setInterval(() => {
+      if (!alive) {
+        console.warn('Canal de comandos sem resposta, reconectando');
+        socket.terminate();
+        return;
+      }
+      alive = false;
+      socket.ping();
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  /**
+   * Executa as chamadas JSON-RPC recebidas; respostas a mensagens do próprio agente são ignoradas
+   */
+  private async handleMessage(raw: string): Promise<void> {
+    let message: any;
+    try {
+      message = JSON.parse(raw);
+    } catch (error) {
+      this.send(await this.jsonRpcServer.handle(raw, this.getContext()));
+      return;
+    }
+
+    const calls = Array.isArray(message) ? message : [message];
+    if (calls.length > 0 && calls.every(call => call && typeof call === 'object' && !('method' in call))) {
+      return;
+    }
+
+    const response = await this.jsonRpcServer.handle(message, this.getContext());
+    if (response) {
+      this.send(response);
+    }
+  }
+
+  private getContext(): JsonRpcContext {
+    const scopes = this.config?.scopes || [];
+    return {
+      hasScope: (scope) => scopes.includes(scope),
+      audit: this.getAuditContext(),
+      signal: this.connection?.signal,
+      pending: this.pending
+    };
+  }
+
+  private getAuditContext(): AuditContext {
+    try {
+      return { channel: 'command', origin: new URL(this.config!.url).origin, appName: 'Canal de comandos' };
+    } catch (error) {
+      return { channel: 'command', appName: 'Canal de comandos' };
+    }
+  }
+
+  private async sendRegistration(): Promise<void> {
+    const inventory = await this.readInventory();
+    this.lastInventory = JSON.stringify(inventory);
+    this.send({
+      jsonrpc: '2.0',
+      method: 'agent.register',
+      params: {
+        workstationId: this.getWorkstationId(),
+        hostname: os.hostname(),
+        platform: process.platform,
+        appVersion: app.getVersion(),
+        scopes: this.config?.scopes || [],
+        inventory
+      }
+    });
+  }
+
+  private scheduleInventory(): void {
+    if (this.status !== 'connected') return;
+    if (this.inventoryTimer) clearTimeout(this.inventoryTimer);
+
+    this.inventoryTimer = setTimeout(async () => {
+      this.inventoryTimer = null;
+      try {
+        const inventory = await this.readInventory();
+        const serialized = JSON.stringify(inventory);
+        if (serialized === this.lastInventory) return;
+        this.lastInventory = serialized;
+        this.send({
+          jsonrpc: '2.0',
+          method: 'agent.inventory',
+          params: { workstationId: this.getWorkstationId(), inventory }
+        });
+      } catch (error) {
+        console.error('Erro ao enviar inventário ao canal de comandos:', error);
+      }
+    }, INVENTORY_DEBOUNCE_MS);
+  }
+
+  /**
+   * Lê o inventário ignorando os eventos emitidos pela própria leitura
+   */
+  private async readInventory(): Promise<Record<string, any[]>> {
+    this.readingInventory = true;
+    try {
+      return await this.getInventory();
+    } finally {
+      this.readingInventory = false;
+    }
+  }
+
+  /**
+   * Dispositivos da estação, apenas dos escopos liberados ao canal (falhas de um serviço não impedem os demais)
+   */
+  private async getInventory(): Promise<Record<string, any[]>> {
+    const scopes = this.config?.scopes || [];
+    const sources: Record<string, { scope: ApiScope; list: () => Promise<any[]> }> = {
+      printers: { scope: 'printer', list: () => this.services.printer.getPrinters() },
+      cameras: { scope: 'camera', list: () => this.services.camera.getCameras() },
+      usb: { scope: 'usb', list: () => this.services.usb.getDevices() },
+      serialPorts: { scope: 'serial', list: () => this.services.serial.getPorts() },
+      scanners: { scope: 'scanner', list: () => this.services.scanner.getScanners() }
+    };
+
+    const inventory: Record<string, any[]> = {};
+    for (const [key, source] of Object.entries(sources)) {
+      if (!scopes.includes(source.scope)) continue;
+      try {
+        inventory[key] = await source.list();
+      } catch (error) {
+        inventory[key] = [];
+      }
+    }
+    return inventory;
+  }
+
+  private getWorkstationId(): string {
+    return this.config?.workstationId || os.hostname();
+  }
+
+  private send(message: unknown): void {
+    if (!message || !this.socket || this.socket.readyState !== WebSocket.OPEN) return;
+    this.socket.send(JSON.stringify(message));
+  }
+}
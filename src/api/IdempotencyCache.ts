@@ -0,0 +1,87 @@
+export interface CachedResponse {
+  statusCode: number;
+  contentType?: string;
+  body: any;
+}
+
+export type IdempotencyState =
+  | { state: 'new' }
+  | { state: 'pending' }
+  | { state: 'mismatch' }
+  | { state: 'full' }
+  | { state: 'done'; response: CachedResponse };
+
+interface IdempotencyEntry {
+  fingerprint: string;
+  response?: CachedResponse;
+  expiresAt: number;
+}
+
+/**
+ * Cache de curta duração das respostas de requisições com Idempotency-Key.
+ * Uma repetição com a mesma chave (ex.: após falha de rede) recebe a resposta original
+ * em vez de executar a operação de novo; enquanto a primeira está em andamento, a repetição é recusada.
+ * Chaves em andamento nunca expiram nem são descartadas pelo limite (só por complete ou release).
+ */
+export class IdempotencyCache {
+  private entries: Map<string, IdempotencyEntry> = new Map();
+
+  constructor(private ttlMs: number = 10 * 60 * 1000, private maxEntries: number = 200) {}
+
+  /**
+   * Reserva a chave para uma nova requisição ou informa o estado da requisição anterior.
+   * A impressão digital (método, caminho e corpo) impede reutilizar a chave para outra operação.
+   */
+  begin(key: string, fingerprint: string): IdempotencyState {
+    this.purgeExpired();
+
+    const entry = this.entries.get(key);
+    if (entry) {
+      if (entry.fingerprint !== fingerprint) return { state: 'mismatch' };
+      return entry.response ? { state: 'done', response: entry.response } : { state: 'pending' };
+    }
+
+    // Acima do limite, descarta as respostas mais antigas (o Map mantém a ordem de inserção)
+    for (const [oldest, current] of this.entries) {
+      if (this.entries.size < this.maxEntries) break;
+      if (current.response) this.entries.delete(oldest);
+    }
+    // Todas as chaves em andamento: a requisição é recusada em vez de perder uma delas
+    if (this.entries.size >= this.maxEntries) {
+      return { state: 'full' };
+    }
+
+    this.entries.set(key, { fingerprint, expiresAt: Date.now() + this.ttlMs });
+    return { state: 'new' };
+  }
+
+  /**
+   * Guarda a resposta da requisição concluída
+   */
+  complete(key: string, response: CachedResponse): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    entry.response = response;
+    entry.expiresAt = Date.now() + this.ttlMs;
+  }
+
+  /**
+   * Libera a chave (falha ou cancelamento), permitindo que a repetição execute a operação
+   */
+  release(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private purgeExpired(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.response && entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,198 @@
+import * as crypto from 'crypto';
+import { DeviceError } from '../services/DeviceError';
+
+export type JobType = 'scan' | 'print' | 'capture';
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+export type JobEvent = 'job-progress' | 'job-completed';
+
+export interface Job {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  ownerId?: string;
+  progress?: any;
+  result?: any;
+  error?: string;
+  errorCode?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+/**
+ * Função que executa o trabalho de um job, reportando progresso
+ */
+export type JobRunner = (signal: AbortSignal, reportProgress: (progress: any) => void) => Promise<any>;
+
+interface JobEntry {
+  job: Job;
+  runner: JobRunner;
+  controller: AbortController;
+}
+
+/**
+ * Gerenciador de jobs assíncronos para operações demoradas de dispositivos.
+ * Executa um job por vez para cada tipo (um scanner não digitaliza dois documentos ao mesmo tempo)
+ * e mantém um histórico limitado de jobs finalizados.
+ */
+export class JobManager {
+  private entries: Map<string, JobEntry> = new Map();
+  private queues: Map<JobType, string[]> = new Map();
+  private running: Set<JobType> = new Set();
+  private history: string[] = [];
+  private listeners: ((event: JobEvent, job: Job) => void)[] = [];
+
+  constructor(private maxHistory: number = 50) {}
+
+  /**
+   * Registra listener para progresso e finalização dos jobs
+   */
+  onJobEvent(callback: (event: JobEvent, job: Job) => void): void {
+    this.listeners.push(callback);
+  }
+
+  /**
+   * Cria um job e o coloca na fila do seu tipo
+   */
+  create(type: JobType, runner: JobRunner, ownerId?: string): Job {
+    const job: Job = {
+      id: crypto.randomUUID(),
+      type,
+      status: 'queued',
+      ownerId,
+      createdAt: new Date().toISOString()
+    };
+
+    this.entries.set(job.id, { job, runner, controller: new AbortController() });
+
+    if (!this.queues.has(type)) {
+      this.queues.set(type, []);
+    }
+    this.queues.get(type)!.push(job.id);
+
+    this.processQueue(type);
+    return { ...job };
+  }
+
+  /**
+   * Obtém um job pelo id
+   */
+  get(id: string): Job | null {
+    const entry = this.entries.get(id);
+    return entry ? { ...entry.job } : null;
+  }
+
+  /**
+   * Lista jobs ativos e finalizados, opcionalmente filtrando pelo dono
+   */
+  list(ownerId?: string): Job[] {
+    return Array.from(this.entries.values())
+      .map(entry => ({ ...entry.job }))
+      .filter(job => ownerId === undefined || job.ownerId === ownerId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Cancela um job na fila ou em execução
+   */
+  cancel(id: string): boolean {
+    const entry = this.entries.get(id);
+    if (!entry) return false;
+
+    const { job } = entry;
+    if (job.status === 'queued') {
+      const queue = this.queues.get(job.type) || [];
+      this.queues.set(job.type, queue.filter(queuedId => queuedId !== id));
+      this.finish(entry, 'cancelled', { error: 'Job cancelado', errorCode: 'CANCELLED' });
+      return true;
+    }
+
+    if (job.status === 'running') {
+      // O runner recebe o sinal e encerra a operação; o job é finalizado quando ele retornar
+      entry.controller.abort();
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Cancela todos os jobs pendentes
+   */
+  cancelAll(): void {
+    for (const id of this.entries.keys()) {
+      this.cancel(id);
+    }
+  }
+
+  /**
+   * Executa o próximo job da fila do tipo, se nenhum estiver em execução
+   */
+  private async processQueue(type: JobType): Promise<void> {
+    if (this.running.has(type)) return;
+
+    const queue = this.queues.get(type) || [];
+    const nextId = queue.shift();
+    if (!nextId) return;
+
+    const entry = this.entries.get(nextId);
+    if (!entry) {
+      this.processQueue(type);
+      return;
+    }
+
+    this.running.add(type);
+    entry.job.status = 'running';
+    entry.job.startedAt = new Date().toISOString();
+    this.notify('job-progress', entry.job);
+
+    try {
+      const result = await entry.runner(entry.controller.signal, (progress) => {
+        entry.job.progress = progress;
+        this.notify('job-progress', entry.job);
+      });
+
+      if (entry.controller.signal.aborted) {
+        this.finish(entry, 'cancelled', { error: 'Job cancelado', errorCode: 'CANCELLED' });
+      } else {
+        this.finish(entry, 'completed', { result });
+      }
+    } catch (error) {
+      const deviceError = DeviceError.from(error);
+      const status = entry.controller.signal.aborted ? 'cancelled' : 'failed';
+      this.finish(entry, status, { error: deviceError.message, errorCode: deviceError.code });
+    } finally {
+      this.running.delete(type);
+      this.processQueue(type);
+    }
+  }
+
+  /**
+   * Finaliza um job e o move para o histórico
+   */
+  private finish(entry: JobEntry, status: JobStatus, outcome: { result?: any; error?: string; errorCode?: string }): void {
+    entry.job.status = status;
+    entry.job.result = outcome.result;
+    entry.job.error = outcome.error;
+    entry.job.errorCode = outcome.errorCode;
+    entry.job.finishedAt = new Date().toISOString();
+
+    this.history.push(entry.job.id);
+    while (this.history.length > this.maxHistory) {
+      const oldestId = this.history.shift()!;
+      this.entries.delete(oldestId);
+    }
+
+    this.notify('job-completed', entry.job);
+  }
+
+  private notify(event: JobEvent, job: Job): void {
+    this.listeners.forEach(callback => {
+      try {
+        callback(event, { ...job });
+      } catch (error) {
+        console.error(`Erro ao executar listener do evento ${event}:`, error);
+      }
+    });
+  }
+}
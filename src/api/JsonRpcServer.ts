@@ -0,0 +1,374 @@
+import { Socket } from 'socket.io';
+import { ServiceRegistry } from '../services/ServiceRegistry';
+import { DeviceError, InvalidArgumentError } from '../services/DeviceError';
+import { ApiScope } from '../utils/ConfigManager';
+import { AuditLog, AuditContext, AuditChannel } from '../utils/AuditLog';
+import { API_ROUTES, RouteSchema, SchemaObject, pickCaptureOptions } from './ApiSchemas';
+import { RequestValidator } from './RequestValidator';
+import { SubscriptionManager, Subscription, SUBSCRIPTION_CHANNELS } from './SubscriptionManager';
+
+export type JsonRpcId = string | number | null;
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  method: string;
+  params?: any;
+  id?: JsonRpcId;
+}
+
+export interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: any;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  result?: any;
+  error?: JsonRpcError;
+}
+
+/**
+ * Códigos de erro do JSON-RPC 2.0 (os erros de dispositivo usam a faixa do servidor,
+ * com o código da API em data.code)
+ */
+export const JSON_RPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  DEVICE_ERROR: -32000,
+  FORBIDDEN: -32001
+} as const;
+
+/**
+ * Quem chama: escopos do token, dados para a auditoria e, pelo WebSocket, o socket
+ * (necessário para as assinaturas de eventos). O sinal cancela as chamadas quando a conexão
+ * termina, e pending guarda as chamadas em andamento para o cancelRequest.
+ */
+export interface JsonRpcContext {
+  hasScope(scope: ApiScope): boolean;
+  audit: AuditContext;
+  socket?: Socket;
+  signal?: AbortSignal;
+  pending?: Map<JsonRpcId, AbortController>;
+}
+
+type RpcHandler = (params: any, context: JsonRpcContext, signal: AbortSignal) => Promise<any>;
+
+// Limite de chamadas por lote
+const MAX_BATCH_SIZE = 50;
+
+// Canais remotos (sem origem da estação): o PDF chega em base64, nunca como caminho de arquivo local
+const REMOTE_CHANNELS: AuditChannel[] = ['command', 'mqtt'];
+
+class JsonRpcCallError extends Error {
+  constructor(public readonly code: number, message: string, public readonly data?: any) {
+    super(message);
+  }
+}
+
+/**
+ * Servidor JSON-RPC 2.0 com as mesmas operações das rotas REST de dispositivos.
+ * O método é o operationId da rota e os parâmetros são os campos do caminho, da query e do corpo
+ * em um único objeto (ex.: writeSerialPort { port, data }), validados pelos mesmos schemas.
+ * Pelo WebSocket também oferece subscribe/unsubscribe/subscriptions, com os eventos entregues
+ * como notificações device.event, e cancelRequest para cancelar uma chamada em andamento.
+ */
+export class JsonRpcServer {
+  private methods: Map<string, { route?: RouteSchema; paramsSchema?: SchemaObject; handler: RpcHandler }> = new Map();
+  private auditLog: AuditLog;
+
+  /**
+   * Sem o gerenciador de assinaturas (ex.: canal de comandos), os métodos subscribe/unsubscribe
+   * não são registrados
+   */
+  constructor(private services: ServiceRegistry, subscriptionManager?: SubscriptionManager) {
+    this.auditLog = AuditLog.getInstance();
+    this.registerDeviceMethods();
+    if (subscriptionManager) {
+      this.registerSubscriptionMethods(subscriptionManager);
+    }
+    this.registerCancelMethod();
+  }
+
+  /**
+   * Nomes dos métodos disponíveis
+   */
+  getMethods(): string[] {
+    return Array.from(this.methods.keys());
+  }
+
+  /**
+   * Processa uma mensagem (chamada única ou lote). Retorna null quando não há resposta
+   * (apenas notificações).
+   */
+  async handle(message: unknown, context: JsonRpcContext): Promise<JsonRpcResponse | JsonRpcResponse[] | null> {
+    if (typeof message === 'string') {
+      try {
+        message = JSON.parse(message);
+      } catch (error) {
+        return JsonRpcServer.errorResponse(null, JSON_RPC_ERRORS.PARSE_ERROR, 'JSON inválido');
+      }
+    }
+
+    if (Array.isArray(message)) {
+      if (message.length === 0) {
+        return JsonRpcServer.errorResponse(null, JSON_RPC_ERRORS.INVALID_REQUEST, 'Lote vazio');
+      }
+      if (message.length > MAX_BATCH_SIZE) {
+        return JsonRpcServer.errorResponse(null, JSON_RPC_ERRORS.INVALID_REQUEST, `Lote com mais de ${MAX_BATCH_SIZE} chamadas`);
+      }
+
+      // As chamadas do lote são executadas em paralelo; a ordem das respostas segue a das chamadas
+      const responses = await Promise.all(message.map(call => this.handleCall(call, context)));
+      const filtered = responses.filter((response): response is JsonRpcResponse => response !== null);
+      return filtered.length > 0 ? filtered : null;
+    }
+
+    return this.handleCall(message, context);
+  }
+
+  /**
+   * Resposta de erro no formato JSON-RPC
+   */
+  static errorResponse(id: JsonRpcId, code: number, message: string, data?: any): JsonRpcResponse {
+    return { jsonrpc: '2.0', id, error: { code, message, ...(data !== undefined ? { data } : {}) } };
+  }
+
+  private async handleCall(call: any, context: JsonRpcContext): Promise<JsonRpcResponse | null> {
+    if (!call || typeof call !== 'object' || Array.isArray(call) || call.jsonrpc !== '2.0' ||
+        typeof call.method !== 'string' || !JsonRpcServer.isValidId(call.id)) {
+      const id = call && JsonRpcServer.isValidId(call.id) ? call.id ?? null : null;
+      return JsonRpcServer.errorResponse(id, JSON_RPC_ERRORS.INVALID_REQUEST, 'Requisição JSON-RPC inválida');
+    }
+
+    // Sem id, a chamada é uma notificação e não tem resposta
+    const isNotification = !('id' in call);
+    const id: JsonRpcId = call.id ?? null;
+
+    // Cada chamada tem seu próprio sinal, cancelado pelo cancelRequest ou pelo fim da conexão
+    const controller = new AbortController();
+    const onConnectionAbort = () => controller.abort();
+    if (context.signal?.aborted) {
+      controller.abort();
+    } else {
+      context.signal?.addEventListener('abort', onConnectionAbort, { once: true });
+    }
+
+    const tracked = !isNotification && id !== null && !!context.pending && call.method !== 'cancelRequest';
+    if (tracked) {
+      context.pending!.set(id, controller);
+    }
+
+    try {
+      const result = await this.invoke(call as JsonRpcRequest, context, controller.signal);
+      return isNotification ? null : { jsonrpc: '2.0', id, result: result === undefined ? null : result };
+    } catch (error) {
+      if (isNotification) return null;
+      const { code, message, data } = JsonRpcServer.toJsonRpcError(error);
+      return JsonRpcServer.errorResponse(id, code, message, data);
+    } finally {
+      context.signal?.removeEventListener('abort', onConnectionAbort);
+      if (tracked && context.pending!.get(id) === controller) {
+        context.pending!.delete(id);
+      }
+    }
+  }
+
+  private async invoke(call: JsonRpcRequest, context: JsonRpcContext, signal: AbortSignal): Promise<any> {
+    const method = this.methods.get(call.method);
+    if (!method) {
+      throw new JsonRpcCallError(JSON_RPC_ERRORS.METHOD_NOT_FOUND, `Método ${call.method} não encontrado`);
+    }
+
+    if (call.params !== undefined && (typeof call.params !== 'object' || call.params === null || Array.isArray(call.params))) {
+      throw new JsonRpcCallError(JSON_RPC_ERRORS.INVALID_PARAMS, 'Parâmetros devem ser um objeto nomeado');
+    }
+
+    const scope = method.route?.scope;
+    if (scope && !context.hasScope(scope)) {
+      throw new JsonRpcCallError(JSON_RPC_ERRORS.FORBIDDEN, `Token sem permissão para o escopo ${scope}`, { code: 'FORBIDDEN' });
+    }
+
+    const params = method.paramsSchema
+      ? RequestValidator.assert(call.params ?? {}, method.paramsSchema, 'params')
+      : call.params ?? {};
+
+    const audit = method.route?.audit;
+    if (!audit) {
+      return method.handler(params, context, signal);
+    }
+
+    return this.auditLog.track(
+      context.audit,
+      {
+        device: method.route!.scope || 'unknown',
+        operation: audit.operation,
+        // O target da rota (ex.: params.port, body.options.printer) sem a origem, já que os campos estão juntos
+        target: JsonRpcServer.resolveTarget(params, audit.target)
+      },
+      () => method.handler(params, context, signal)
+    );
+  }
+
+  private register(route: RouteSchema, handler: RpcHandler): void {
+    this.methods.set(route.operationId, { route, paramsSchema: JsonRpcServer.buildParamsSchema(route), handler });
+  }
+
+  /**
+   * Métodos de dispositivos, com o mesmo resultado do campo data das rotas REST
+   */
+  private registerDeviceMethods(): void {
+    const { printer, camera, usb, serial, scanner } = this.services;
+
+    // Impressoras
+    this.register(API_ROUTES.listPrinters, () => printer.getPrinters());
+    this.register(API_ROUTES.printDocument, ({ content, type, options }, context, signal) =>
+      type === 'pdf' && REMOTE_CHANNELS.includes(context.audit.channel)
+        ? printer.printPdfData(content, options, signal)
+        : printer.print({ content, type, options }, signal));
+    this.register(API_ROUTES.testPrinter, async ({ name }) => ({ available: await printer.testDevice(name) }));
+
+    // Câmeras
+    this.register(API_ROUTES.listCameras, () => camera.getCameras());
+    this.register(API_ROUTES.capturePhoto, ({ id, ...options }) => camera.capturePhoto(id, pickCaptureOptions(options)));
+    this.register(API_ROUTES.startStream, async ({ id, ...options }) => ({ streamUrl: await camera.startVideoStream(id, pickCaptureOptions(options)) }));
+    this.register(API_ROUTES.stopStream, async ({ id }) => {
+      await camera.stopVideoStream(id);
+      return true;
+    });
+
+    // USB
+    this.register(API_ROUTES.listUsbDevices, () => usb.getDevices());
+    this.register(API_ROUTES.getUsbDevice, ({ id }) => usb.getDeviceDetails(id));
+    this.register(API_ROUTES.listUsbDevicesByClass, ({ class: deviceClass }) => usb.getDevicesByClass(deviceClass));
+
+    // Serial
+    this.register(API_ROUTES.listSerialPorts, () => serial.getPorts());
+    this.register(API_ROUTES.openSerialPort, ({ port, ...options }) => serial.openPort(port, options));
+    this.register(API_ROUTES.closeSerialPort, ({ port }) => serial.closePort(port));
+    this.register(API_ROUTES.writeSerialPort, ({ port, data }) => serial.write(port, data));
+    this.register(API_ROUTES.openCashDrawer, ({ port, drawer }) => serial.openCashDrawer(port, drawer));
+    this.register(API_ROUTES.readSerialPort, ({ port, timeout }, context, signal) => serial.read(port, timeout, signal));
+
+    // Scanners
+    this.register(API_ROUTES.listScanners, () => scanner.getScanners());
+    this.register(API_ROUTES.getScannerStatus, () => scanner.checkScannerConnection());
+    this.register(API_ROUTES.getDefaultScanner, async () => ({ scannerId: scanner.getDefaultScannerId() }));
+    this.register(API_ROUTES.setDefaultScanner, ({ scannerId }) => scanner.setDefaultScanner(scannerId));
+    this.register(API_ROUTES.testScanner, async ({ id }) => ({ available: await scanner.testScanner(id) }));
+    this.register(API_ROUTES.scanDocument, async ({ duplex }, context, signal) => {
+      const result = await scanner.startScanning(duplex === true, signal);
+      if (!result.success || !result.base64) {
+        throw new DeviceError(result.code || 'OPERATION_FAILED', result.error || 'Erro ao escanear documento');
+      }
+      return { base64: result.base64, mimeType: 'application/pdf' };
+    });
+  }
+
+  /**
+   * Assinaturas de eventos (apenas pelo WebSocket), entregues como notificações device.event
+   */
+  private registerSubscriptionMethods(subscriptionManager: SubscriptionManager): void {
+    const requireSocket = (context: JsonRpcContext): Socket => {
+      if (!context.socket) {
+        throw new JsonRpcCallError(JSON_RPC_ERRORS.METHOD_NOT_FOUND, 'Assinaturas disponíveis apenas pelo WebSocket');
+      }
+      return context.socket;
+    };
+
+    const toResult = (ack: { success: boolean; subscriptions?: Subscription[]; error?: string; code?: string }) => {
+      if (!ack.success) {
+        throw new InvalidArgumentError(ack.error || 'Assinatura inválida');
+      }
+      return ack.subscriptions || [];
+    };
+
+    this.methods.set('subscribe', {
+      handler: async (params: Subscription, context) => {
+        const socket = requireSocket(context);
+        if (SUBSCRIPTION_CHANNELS.includes(params.channel) && !context.hasScope(params.channel)) {
+          throw new JsonRpcCallError(JSON_RPC_ERRORS.FORBIDDEN, `Token sem permissão para o escopo ${params.channel}`, { code: 'FORBIDDEN' });
+        }
+        return toResult(subscriptionManager.subscribe(socket, params, 'jsonrpc'));
+      }
+    });
+
+    this.methods.set('unsubscribe', {
+      handler: async (params: Partial<Subscription>, context) =>
+        toResult(subscriptionManager.unsubscribe(requireSocket(context), params, 'jsonrpc'))
+    });
+
+    this.methods.set('subscriptions', {
+      handler: async (params, context) => subscriptionManager.list(requireSocket(context), 'jsonrpc')
+    });
+  }
+
+  /**
+   * Cancelamento de uma chamada em andamento da mesma conexão (impressão, digitalização, leitura serial)
+   */
+  private registerCancelMethod(): void {
+    this.methods.set('cancelRequest', {
+      handler: async ({ id }, context) => {
+        // O id pode ser texto ou número, como nas chamadas
+        if (typeof id !== 'string' && typeof id !== 'number') {
+          throw new InvalidArgumentError('Campo params.id é obrigatório', { field: 'params.id' });
+        }
+        const controller = context.pending?.get(id);
+        if (!controller) return false;
+        controller.abort();
+        return true;
+      }
+    });
+  }
+
+  /**
+   * Converte o erro da operação para o objeto de erro do JSON-RPC
+   */
+  private static toJsonRpcError(error: unknown): JsonRpcError {
+    if (error instanceof JsonRpcCallError) {
+      return { code: error.code, message: error.message, ...(error.data !== undefined ? { data: error.data } : {}) };
+    }
+
+    const deviceError = DeviceError.from(error);
+    const data = { code: deviceError.code, ...(deviceError.details !== undefined ? { details: deviceError.details } : {}) };
+    switch (deviceError.code) {
+      case 'INVALID_ARGUMENT':
+        return { code: JSON_RPC_ERRORS.INVALID_PARAMS, message: deviceError.message, data };
+      case 'INTERNAL_ERROR':
+        return { code: JSON_RPC_ERRORS.INTERNAL_ERROR, message: deviceError.message, data };
+      default:
+        return { code: JSON_RPC_ERRORS.DEVICE_ERROR, message: deviceError.message, data };
+    }
+  }
+
+  /**
+   * Schema dos parâmetros: campos do caminho (obrigatórios), da query e do corpo da rota
+   */
+  private static buildParamsSchema(route: RouteSchema): SchemaObject | undefined {
+    if (!route.params && !route.query && !route.body) return undefined;
+
+    return {
+      type: 'object',
+      required: [...Object.keys(route.params || {}), ...(route.body?.required || [])],
+      properties: {
+        ...route.params,
+        ...route.query,
+        ...route.body?.properties
+      }
+    };
+  }
+
+  private static resolveTarget(params: any, targetPath?: string): string | undefined {
+    if (!targetPath) return undefined;
+    const value = targetPath.split('.').slice(1).reduce((current: any, key) => current?.[key], params);
+    return typeof value === 'string' && value ? value : undefined;
+  }
+
+  private static isValidId(id: unknown): boolean {
+    return id === undefined || id === null || typeof id === 'string' || (typeof id === 'number' && Number.isFinite(id));
+  }
+}
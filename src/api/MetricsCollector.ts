@@ -0,0 +1,152 @@
+import { ServiceRegistry, ServiceName } from '../services/ServiceRegistry';
+import { MetricsRegistry, Counter, Gauge, Histogram } from '../utils/Metrics';
+
+const PREFIX = 'intranet_desktop_';
+
+/**
+ * Evento de serviço convertido em métricas
+ */
+interface MetricEventMapping {
+  service: ServiceName;
+  event: string;
+  handler: (data: any) => void;
+}
+
+/**
+ * Métricas do agente no formato do Prometheus, alimentadas pelos eventos dos serviços
+ * de dispositivos, pela latência das rotas da API e pelas conexões WebSocket.
+ * Criado junto com o registro de serviços e independente do servidor de API, para contar também
+ * as operações feitas pelo IPC enquanto a API está pausada ou sendo reconfigurada.
+ */
+export class MetricsCollector {
+  private registry = new MetricsRegistry();
+  private listeners: { mapping: MetricEventMapping; listener: (data: any) => void }[] = [];
+
+  private printJobs: Counter;
+  private printFailures: Counter;
+  private printDuration: Histogram;
+  private scans: Counter;
+  private scanPages: Counter;
+  private scanFailures: Counter;
+  private scanDuration: Histogram;
+  private serialReceivedBytes: Counter;
+  private serialSentBytes: Counter;
+  private usbHotplug: Counter;
+  private httpDuration: Histogram;
+  private websocketConnections: Counter;
+  private websocketClients: Gauge;
+
+  constructor(private services: ServiceRegistry) {
+    this.printJobs = this.registry.counter(`${PREFIX}print_jobs_total`, 'Impressões por tipo de conteúdo e resultado');
+    this.printFailures = this.registry.counter(`${PREFIX}print_failures_total`, 'Falhas de impressão por código de erro');
+    this.printDuration = this.registry.histogram(`${PREFIX}print_duration_seconds`, 'Duração das impressões',
+      [1, 2, 5, 10, 30, 60, 120]);
+
+    this.scans = this.registry.counter(`${PREFIX}scans_total`, 'Digitalizações por modo (duplex) e resultado');
+    this.scanPages = this.registry.counter(`${PREFIX}scan_pages_total`, 'Páginas digitalizadas');
+    this.scanFailures = this.registry.counter(`${PREFIX}scan_failures_total`, 'Falhas de digitalização por código de erro');
+    this.scanDuration = this.registry.histogram(`${PREFIX}scan_duration_seconds`, 'Duração das digitalizações',
+      [5, 10, 20, 30, 60, 90, 120, 180]);
+
+    this.serialReceivedBytes = this.registry.counter(`${PREFIX}serial_received_bytes_total`, 'Bytes recebidos por porta serial');
+    this.serialSentBytes = this.registry.counter(`${PREFIX}serial_sent_bytes_total`, 'Bytes enviados por porta serial');
+
+    this.usbHotplug = this.registry.counter(`${PREFIX}usb_hotplug_events_total`, 'Conexões e desconexões de dispositivos USB');
+
+    this.httpDuration = this.registry.histogram(`${PREFIX}http_request_duration_seconds`, 'Latência das rotas da API',
+      [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 120]);
+
+    this.websocketConnections = this.registry.counter(`${PREFIX}websocket_connections_total`, 'Conexões WebSocket recebidas');
+    this.websocketClients = this.registry.gauge(`${PREFIX}websocket_clients`, 'Clientes WebSocket conectados');
+  }
+
+  /**
+   * Registra um listener em cada evento dos serviços usado pelas métricas
+   */
+  attach(): void {
+    if (this.listeners.length > 0) return;
+
+    for (const mapping of this.getEventMappings()) {
+      const listener = (data: any) => mapping.handler(data);
+      this.services.get(mapping.service).on(mapping.event, listener);
+      this.listeners.push({ mapping, listener });
+    }
+  }
+
+  /**
+   * Remove os listeners registrados nos serviços
+   */
+  detach(): void {
+    for (const { mapping, listener } of this.listeners) {
+      this.services.get(mapping.service).off(mapping.event, listener);
+    }
+    this.listeners = [];
+  }
+
+  /**
+   * Registra a duração de uma requisição (route é o operationId, para limitar as séries)
+   */
+  observeRequest(method: string, route: string, status: number, seconds: number): void {
+    this.httpDuration.observe({ method: method.toUpperCase(), route, status: String(status) }, seconds);
+  }
+
+  /**
+   * Registra uma nova conexão WebSocket
+   */
+  observeConnection(): void {
+    this.websocketConnections.inc();
+  }
+
+  /**
+   * Métricas no formato texto do Prometheus, com a quantidade atual de clientes WebSocket
+   */
+  render(websocketClients: number): string {
+    this.websocketClients.set({}, websocketClients);
+    return this.registry.render();
+  }
+
+  private getEventMappings(): MetricEventMapping[] {
+    return [
+      // Impressoras
+      { service: 'printer', event: 'print-success', handler: data => {
+        this.printJobs.inc({ content: data?.content || 'unknown', result: 'success' });
+        if (typeof data?.durationMs === 'number') {
+          this.printDuration.observe({ content: data.content || 'unknown' }, data.durationMs / 1000);
+        }
+      } },
+      { service: 'printer', event: 'print-error', handler: data => {
+        this.printJobs.inc({ content: data?.content || 'unknown', result: 'failure' });
+        this.printFailures.inc({ reason: data?.code || 'OPERATION_FAILED' });
+      } },
+
+      // Scanner (apenas os estágios finais)
+      { service: 'scanner', event: 'scan-progress', handler: progress => {
+        if (progress?.stage !== 'completed' && progress?.stage !== 'failed') return;
+
+        const duplex = String(progress.duplex === true);
+        this.scans.inc({ duplex, result: progress.stage === 'completed' ? 'success' : 'failure' });
+        if (typeof progress.durationMs === 'number') {
+          this.scanDuration.observe({ duplex }, progress.durationMs / 1000);
+        }
+        if (progress.stage === 'completed') {
+          this.scanPages.inc({}, progress.pages || 0);
+        } else {
+          this.scanFailures.inc({ reason: progress.code || 'OPERATION_FAILED' });
+        }
+      } },
+
+      // Serial
+      { service: 'serial', event: 'port-data', handler: data => {
+        this.serialReceivedBytes.inc({ port: data?.portPath || 'unknown' }, data?.bytes ?? Buffer.byteLength(String(data?.data ?? '')));
+      } },
+      { service: 'serial', event: 'data-sent', handler: data => {
+        const bytes = Buffer.isBuffer(data?.data) ? data.data.length : Buffer.byteLength(String(data?.data ?? ''));
+        this.serialSentBytes.inc({ port: data?.portPath || 'unknown' }, bytes);
+      } },
+
+      // USB
+      { service: 'usb', event: 'device-connected', handler: () => this.usbHotplug.inc({ event: 'connected' }) },
+      { service: 'usb', event: 'device-disconnected', handler: () => this.usbHotplug.inc({ event: 'disconnected' }) }
+    ];
+  }
+}
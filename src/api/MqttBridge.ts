@@ -0,0 +1,262 @@
+import * as os from 'os';
+import * as crypto from 'crypto';
+import { ServiceRegistry, ServiceName } from '../services/ServiceRegistry';
+import { ApiScope } from '../utils/ConfigManager';
+import { AuditContext } from '../utils/AuditLog';
+import { DEVICE_EVENT_MAPPINGS, DeviceEventMapping } from '../utils/DeviceEvents';
+import { JsonRpcServer, JsonRpcContext, JsonRpcResponse, JSON_RPC_ERRORS } from './JsonRpcServer';
+
+export interface MqttBridgeConfig {
+  brokerUrl: string;
+  username?: string;
+  password?: string;
+  clientId?: string;
+  topicPrefix: string;
+  workstationId: string;
+  qos: 0 | 1 | 2;
+  scopes: ApiScope[];
+}
+
+export type MqttBridgeStatus = 'disabled' | 'connecting' | 'connected' | 'disconnected';
+
+/**
+ * Serviços cujos eventos são publicados (câmeras ficam de fora: as capturas são locais)
+ */
+const PUBLISHED_SERVICES: ServiceName[] = ['usb', 'serial', 'printer', 'scanner'];
+
+/**
+ * Comandos aceitos em {base}/commands/<dispositivo>/<ação>, com o método JSON-RPC correspondente
+ */
+const COMMAND_METHODS: Record<string, string> = {
+  'serial/write': 'writeSerialPort',
+  'serial/drawer': 'openCashDrawer',
+  'printer/print': 'printDocument',
+  'scanner/scan': 'scanDocument'
+};
+
+// Espera entre reconexões (o cliente MQTT reconecta sozinho)
+const RECONNECT_PERIOD_MS = 5000;
+
+// Ids de comandos já executados, para ignorar reentregas do QoS 1
+const MAX_RECENT_REQUESTS = 100;
+
+/**
+ * Ponte MQTT: publica os eventos de dispositivos da estação no broker e executa os comandos
+ * recebidos por ele, para integrar sistemas de automação sem a API local.
+ * Os tópicos ficam sob {topicPrefix}/{workstationId}:
+ *  - status: online/offline (retido; offline também é o testamento da conexão);
+ *  - events/<canal>/<evento>[/<dispositivo>]: eventos em JSON (ex.: events/serial/data/COM3);
+ *  - commands/<dispositivo>/<ação>: comandos, com os parâmetros do método da API em JSON;
+ *  - results: resultado de cada comando ({ requestId, command, success, result | error }).
+ * Os comandos passam pelo mesmo servidor JSON-RPC da API, limitados aos escopos configurados.
+ */
+export class MqttBridge {
+  private jsonRpcServer: JsonRpcServer;
+  private config: MqttBridgeConfig | null = null;
+  private client: any = null;
+  private status: MqttBridgeStatus = 'disabled';
+  private connection: AbortController | null = null;
+  private recentRequests: string[] = [];
+  private listeners: { mapping: DeviceEventMapping; listener: (data: any) => void }[] = [];
+
+  constructor(private services: ServiceRegistry) {
+    this.jsonRpcServer = new JsonRpcServer(services);
+  }
+
+  /**
+   * Conecta com a configuração informada (null desabilita a ponte)
+   */
+  start(config: MqttBridgeConfig | null): void {
+    this.stop();
+    this.config = config;
+    if (!config) return;
+
+    let mqtt: any;
+    try {
+      mqtt = require('mqtt');
+    } catch (error) {
+      console.error('Ponte MQTT indisponível: biblioteca mqtt não encontrada');
+      this.status = 'disconnected';
+      return;
+    }
+
+    const statusTopic = this.topic('status');
+    this.status = 'connecting';
+    this.connection = new AbortController();
+    const client = mqtt.connect(config.brokerUrl, {
+      clientId: config.clientId || `intranet-desktop-${this.getWorkstationId()}`,
+      username: config.username || undefined,
+      password: config.password || undefined,
+      reconnectPeriod: RECONNECT_PERIOD_MS,
+      connectTimeout: 10000,
+      will: { topic: statusTopic, payload: 'offline', qos: config.qos, retain: true }
+    });
+    this.client = client;
+
+    client.on('connect', () => {
+      console.log(`Ponte MQTT conectada a ${config.brokerUrl}`);
+      this.status = 'connected';
+      client.publish(statusTopic, 'online', { qos: config.qos, retain: true });
+      client.subscribe(this.topic('commands/#'), { qos: config.qos }, (error: Error | null) => {
+        if (error) console.error('Erro ao assinar comandos MQTT:', error.message);
+      });
+    });
+
+    client.on('message', (topic: string, payload: Buffer, packet: any) => {
+      // Comandos retidos seriam executados a cada conexão
+      if (packet?.retain) return;
+      this.handleCommand(topic, payload.toString()).catch(error => console.error('Erro ao processar comando MQTT:', error));
+    });
+
+    client.on('error', (error: Error) => {
+      console.error('Erro na ponte MQTT:', error.message);
+    });
+
+    client.on('offline', () => {
+      if (this.client === client) this.status = 'disconnected';
+    });
+
+    client.on('reconnect', () => {
+      if (this.client === client) this.status = 'connecting';
+    });
+
+    for (const mapping of DEVICE_EVENT_MAPPINGS.filter(current => PUBLISHED_SERVICES.includes(current.service))) {
+      const listener = (data: any) => {
+        const payload = mapping.payload(data);
+        if (payload !== null) {
+          this.publishEvent(mapping, data, payload);
+        }
+      };
+      this.services.get(mapping.service).on(mapping.serviceEvent, listener);
+      this.listeners.push({ mapping, listener });
+    }
+  }
+
+  /**
+   * Publica o status offline, desconecta e cancela os comandos em andamento
+   */
+  stop(): void {
+    for (const { mapping, listener } of this.listeners) {
+      this.services.get(mapping.service).off(mapping.serviceEvent, listener);
+    }
+    this.listeners = [];
+
+    this.connection?.abort();
+    this.connection = null;
+
+    const client = this.client;
+    this.client = null;
+    if (client) {
+      if (client.connected) {
+        client.publish(this.topic('status'), 'offline', { qos: this.config?.qos ?? 0, retain: true });
+      }
+      client.removeAllListeners('message');
+      client.end();
+    }
+
+    this.config = null;
+    this.recentRequests = [];
+    this.status = 'disabled';
+  }
+
+  getStatus(): MqttBridgeStatus {
+    return this.status;
+  }
+
+  private publishEvent(mapping: DeviceEventMapping, data: any, payload: any): void {
+    const target = mapping.target?.(data);
+    const [channel, name] = mapping.event.split('.');
+    // O dispositivo vai no último nível, para que events/serial/data/# receba todas as portas
+    const topic = this.topic(`events/${channel}/${name}${target ? `/${encodeURIComponent(target)}` : ''}`);
+
+    this.publish(topic, {
+      event: mapping.event,
+      workstationId: this.getWorkstationId(),
+      timestamp: new Date().toISOString(),
+      ...(target ? { target } : {}),
+      data: payload
+    });
+  }
+
+  /**
+   * Converte o comando em uma chamada JSON-RPC e publica o resultado em {base}/results
+   */
+  private async handleCommand(topic: string, raw: string): Promise<void> {
+    const command = topic.slice(this.topic('commands/').length);
+    let params: any;
+    try {
+      params = raw ? JSON.parse(raw) : {};
+    } catch (error) {
+      params = undefined;
+    }
+
+    const requestId = typeof params?.requestId === 'string' && params.requestId ? params.requestId : crypto.randomUUID();
+    if (this.recentRequests.includes(requestId)) return;
+    this.recentRequests.push(requestId);
+    if (this.recentRequests.length > MAX_RECENT_REQUESTS) this.recentRequests.shift();
+
+    const method = COMMAND_METHODS[command];
+    if (!method) {
+      this.publishResult(requestId, command, { code: 'INVALID_COMMAND', message: `Comando ${command} não suportado` });
+      return;
+    }
+    if (!params || typeof params !== 'object' || Array.isArray(params)) {
+      this.publishResult(requestId, command, { code: 'INVALID_ARGUMENT', message: 'O comando deve ser um objeto JSON' });
+      return;
+    }
+
+    const { requestId: _requestId, ...callParams } = params;
+    const response = await this.jsonRpcServer.handle(
+      { jsonrpc: '2.0', method, params: callParams, id: requestId },
+      this.getContext()
+    ) as JsonRpcResponse;
+
+    if (response.error) {
+      // Erros de dispositivo trazem o código da API em data.code
+      const code = response.error.data?.code ||
+        (response.error.code === JSON_RPC_ERRORS.INVALID_PARAMS ? 'INVALID_ARGUMENT' : 'INTERNAL_ERROR');
+      this.publishResult(requestId, command, { code, message: response.error.message, details: response.error.data?.details });
+    } else {
+      this.publishResult(requestId, command, undefined, response.result);
+    }
+  }
+
+  private publishResult(requestId: string, command: string, error?: { code: string; message: string; details?: any }, result?: any): void {
+    this.publish(this.topic('results'), error
+      ? { requestId, command, success: false, error }
+      : { requestId, command, success: true, result });
+  }
+
+  private getContext(): JsonRpcContext {
+    const scopes = this.config?.scopes || [];
+    return {
+      hasScope: (scope) => scopes.includes(scope),
+      audit: this.getAuditContext(),
+      signal: this.connection?.signal
+    };
+  }
+
+  private getAuditContext(): AuditContext {
+    try {
+      const url = new URL(this.config!.brokerUrl);
+      return { channel: 'mqtt', origin: `${url.protocol}//${url.host}`, appName: 'Ponte MQTT' };
+    } catch (error) {
+      return { channel: 'mqtt', appName: 'Ponte MQTT' };
+    }
+  }
+
+  private topic(suffix: string): string {
+    return `${this.config!.topicPrefix}/${this.getWorkstationId()}/${suffix}`;
+  }
+
+  private getWorkstationId(): string {
+    return this.config?.workstationId || os.hostname();
+  }
+
+  private publish(topic: string, message: unknown): void {
+    if (!this.client || !this.config) return;
+    this.client.publish(topic, JSON.stringify(message), { qos: this.config.qos }, (error?: Error) => {
+      if (error) console.error(`Erro ao publicar em ${topic}:`, error.message);
+    });
+  }
+}
@@ -0,0 +1,121 @@
+import { API_ROUTES, RouteSchema, SchemaObject } from './ApiSchemas';
+
+/**
+ * Gera o documento OpenAPI 3 a partir das definições de rotas em ApiSchemas
+ */
+export class OpenApiGenerator {
+  static build(options: { apiPrefix: string; port: number; httpsPort?: number; version?: string }): any {
+    const paths: Record<string, any> = {};
+    const routes: RouteSchema[] = Object.values(API_ROUTES);
+
+    for (const route of routes) {
+      const openApiPath = route.path.replace(/:([A-Za-z0-9_]+)/g, '{$1}');
+      paths[openApiPath] = paths[openApiPath] || {};
+      paths[openApiPath][route.method] = OpenApiGenerator.buildOperation(route);
+    }
+
+    return {
+      openapi: '3.0.3',
+      info: {
+        title: 'Intranet Desktop - API Local',
+        description: 'API REST para acesso aos dispositivos da estação de trabalho',
+        version: options.version || '1.0.0'
+      },
+      servers: [
+        ...(options.httpsPort ? [{ url: `https://localhost:${options.httpsPort}${options.apiPrefix}` }] : []),
+        { url: `http://localhost:${options.port}${options.apiPrefix}` }
+      ],
+      security: [{ bearerAuth: [] }],
+      paths,
+      components: {
+        securitySchemes: {
+          bearerAuth: { type: 'http', scheme: 'bearer', description: 'Token obtido em /auth/pair' }
+        },
+        schemas: {
+          Error: {
+            type: 'object',
+            required: ['success', 'error', 'code'],
+            properties: {
+              success: { type: 'boolean', enum: [false] },
+              error: { type: 'string' },
+              code: { type: 'string' },
+              details: { type: 'object' }
+            }
+          }
+        }
+      }
+    };
+  }
+
+  private static buildOperation(route: RouteSchema): any {
+    // Rotas que alteram estado aceitam Idempotency-Key (ver ApiServer.idempotent)
+    const idempotent = route.method !== 'get' && !route.public;
+
+    const parameters = [
+      ...OpenApiGenerator.buildParameters(route.params, 'path'),
+      ...OpenApiGenerator.buildParameters(route.query, 'query'),
+      ...(idempotent ? [{
+        name: 'Idempotency-Key',
+        in: 'header',
+        required: false,
+        description: 'Repetições com a mesma chave recebem a resposta original (cabeçalho Idempotent-Replayed)',
+        schema: { type: 'string', minLength: 1, maxLength: 255 }
+      }] : [])
+    ];
+
+    const errorResponse = (description: string) => ({
+      description,
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } }
+    });
+
+    const responses: Record<string, any> = {
+      '200': { description: 'Sucesso' }
+    };
+
+    if (route.body || route.params || route.query) {
+      responses['400'] = errorResponse('Requisição inválida');
+    }
+
+    if (!route.public) {
+      responses['401'] = errorResponse('Token ausente, inválido ou expirado');
+      responses['403'] = errorResponse(route.scope ? `Token sem o escopo ${route.scope}` : 'Acesso negado');
+    }
+
+    if (idempotent) {
+      responses['409'] = errorResponse('Requisição com a mesma Idempotency-Key em andamento');
+      responses['422'] = errorResponse('Idempotency-Key já usada em outra requisição');
+    }
+
+    for (const [status, description] of Object.entries(route.responses || {})) {
+      responses[status] = status.startsWith('2') ? { description } : errorResponse(description);
+    }
+
+    responses['default'] = errorResponse('Erro do dispositivo (veja o código)');
+
+    return {
+      operationId: route.operationId,
+      summary: route.summary,
+      tags: [route.tag],
+      ...(route.public ? { security: [] } : {}),
+      ...(route.scope ? { 'x-scope': route.scope } : {}),
+      ...(parameters.length > 0 ? { parameters } : {}),
+      ...(route.body ? {
+        requestBody: {
+          required: !!route.body.required?.length,
+          content: { 'application/json': { schema: route.body } }
+        }
+      } : {}),
+      responses
+    };
+  }
+
+  private static buildParameters(fields: Record<string, SchemaObject> | undefined, location: 'path' | 'query'): any[] {
+    return Object.entries(fields || {}).map(([name, schema]) => ({
+      name,
+      in: location,
+      required: location === 'path',
+      ...(schema.description ? { description: schema.description } : {}),
+      schema
+    }));
+  }
+}
@@ -0,0 +1,183 @@
+import { Request, Response, NextFunction } from 'express';
+import { SchemaObject, RouteSchema } from './ApiSchemas';
+import { InvalidArgumentError } from '../services/DeviceError';
+
+export interface ValidationIssue {
+  field: string;
+  message: string;
+}
+
+/**
+ * Validação de requisições a partir dos schemas em ApiSchemas
+ */
+export class RequestValidator {
+  /**
+   * Middleware que valida params, query e body da rota, aplicando valores padrão.
+   * Params e query chegam como texto e são convertidos para o tipo do schema.
+   */
+  static middleware(route: RouteSchema) {
+    return (req: Request, res: Response, next: NextFunction) => {
+      const issues: ValidationIssue[] = [];
+
+      if (route.params) {
+        // Parâmetros de caminho são sempre obrigatórios
+        req.params = RequestValidator.validateFields(req.params, route.params, 'params', issues, true, Object.keys(route.params));
+      }
+
+      if (route.query) {
+        req.query = RequestValidator.validateFields(req.query, route.query, 'query', issues, true);
+      }
+
+      if (route.body) {
+        req.body = RequestValidator.validate(req.body ?? {}, route.body, 'body', issues);
+      }
+
+      if (issues.length > 0) {
+        next(RequestValidator.toError(issues));
+        return;
+      }
+
+      next();
+    };
+  }
+
+  /**
+   * Valida um valor contra o schema, lançando erro INVALID_ARGUMENT se for inválido
+   */
+  static assert(value: any, schema: SchemaObject, field: string): any {
+    const issues: ValidationIssue[] = [];
+    const result = RequestValidator.validate(value ?? {}, schema, field, issues);
+    if (issues.length > 0) {
+      throw RequestValidator.toError(issues);
+    }
+    return result;
+  }
+
+  /**
+   * Valida um valor, acumulando problemas encontrados, e retorna o valor com padrões aplicados
+   */
+  static validate(value: any, schema: SchemaObject, field: string, issues: ValidationIssue[], coerce: boolean = false): any {
+    if (coerce && typeof value === 'string') {
+      value = RequestValidator.coerce(value, schema);
+    }
+
+    switch (schema.type) {
+      case 'string':
+        if (typeof value !== 'string') {
+          issues.push({ field, message: 'deve ser texto' });
+          return value;
+        }
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+          issues.push({ field, message: schema.minLength === 1 ? 'não pode ser vazio' : `deve ter ao menos ${schema.minLength} caracteres` });
+        }
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+          issues.push({ field, message: `deve ter no máximo ${schema.maxLength} caracteres` });
+        }
+        break;
+
+      case 'number':
+      case 'integer':
+        if (typeof value !== 'number' || Number.isNaN(value)) {
+          issues.push({ field, message: schema.type === 'integer' ? 'deve ser um número inteiro' : 'deve ser um número' });
+          return value;
+        }
+        if (schema.type === 'integer' && !Number.isInteger(value)) {
+          issues.push({ field, message: 'deve ser um número inteiro' });
+        }
+        if (schema.minimum !== undefined && value < schema.minimum) {
+          issues.push({ field, message: `deve ser maior ou igual a ${schema.minimum}` });
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+          issues.push({ field, message: `deve ser menor ou igual a ${schema.maximum}` });
+        }
+        break;
+
+      case 'boolean':
+        if (typeof value !== 'boolean') {
+          issues.push({ field, message: 'deve ser verdadeiro ou falso' });
+          return value;
+        }
+        break;
+
+      case 'array':
+        if (!Array.isArray(value)) {
+          issues.push({ field, message: 'deve ser uma lista' });
+          return value;
+        }
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+          issues.push({ field, message: `deve ter ao menos ${schema.minItems} item(ns)` });
+        }
+        if (schema.items) {
+          value = value.map((item, index) => RequestValidator.validate(item, schema.items!, `${field}[${index}]`, issues));
+        }
+        break;
+
+      case 'object':
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+          issues.push({ field, message: 'deve ser um objeto' });
+          return value;
+        }
+        if (schema.properties) {
+          value = RequestValidator.validateFields(value, schema.properties, field, issues, coerce, schema.required);
+        }
+        break;
+    }
+
+    if (schema.enum && !schema.enum.includes(value)) {
+      issues.push({ field, message: `deve ser um de: ${schema.enum.join(', ')}` });
+    }
+
+    return value;
+  }
+
+  /**
+   * Valida as propriedades de um objeto
+   */
+  private static validateFields(
+    source: any,
+    properties: Record<string, SchemaObject>,
+    prefix: string,
+    issues: ValidationIssue[],
+    coerce: boolean,
+    required: string[] = []
+  ): any {
+    const result: any = { ...source };
+
+    for (const [key, propertySchema] of Object.entries(properties)) {
+      const field = `${prefix}.${key}`;
+      const value = result[key];
+
+      if (value === undefined || value === null || value === '') {
+        if (propertySchema.default !== undefined) {
+          result[key] = propertySchema.default;
+        } else if (required.includes(key)) {
+          issues.push({ field, message: 'é obrigatório' });
+        }
+        continue;
+      }
+
+      result[key] = RequestValidator.validate(value, propertySchema, field, issues, coerce);
+    }
+
+    return result;
+  }
+
+  /**
+   * Converte texto (params/query) para o tipo esperado pelo schema
+   */
+  private static coerce(value: string, schema: SchemaObject): any {
+    if (schema.type === 'integer' || schema.type === 'number') {
+      return value.trim() === '' ? NaN : Number(value);
+    }
+    if (schema.type === 'boolean') {
+      if (value === 'true') return true;
+      if (value === 'false') return false;
+    }
+    return value;
+  }
+
+  private static toError(issues: ValidationIssue[]): InvalidArgumentError {
+    const [first] = issues;
+    return new InvalidArgumentError(`Campo ${first.field} ${first.message}`, { field: first.field, issues });
+  }
+}
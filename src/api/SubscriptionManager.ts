@@ -0,0 +1,216 @@
+import { Server as SocketIOServer, Socket } from 'socket.io';
+import { ServiceRegistry } from '../services/ServiceRegistry';
+import { ApiScope } from '../utils/ConfigManager';
+
+/**
+ * Canais de eventos de dispositivos (cada canal exige o escopo de mesmo nome)
+ */
+export type SubscriptionChannel = Exclude<ApiScope, 'audit'>;
+
+export const SUBSCRIPTION_CHANNELS: SubscriptionChannel[] = ['printer', 'camera', 'usb', 'serial', 'scanner'];
+
+/**
+ * Forma de entrega dos eventos: eventos Socket.IO próprios de cada canal ou notificações JSON-RPC
+ */
+export type SubscriptionMode = 'events' | 'jsonrpc';
+
+/**
+ * Método das notificações JSON-RPC de eventos de dispositivos
+ */
+export const DEVICE_EVENT_NOTIFICATION = 'device.event';
+
+export interface Subscription {
+  channel: SubscriptionChannel;
+  target?: string;
+}
+
+export interface SubscriptionAck {
+  success: boolean;
+  subscriptions?: Subscription[];
+  error?: string;
+  code?: string;
+}
+
+/**
+ * Evento de serviço repassado aos assinantes de um canal
+ */
+export interface ChannelEventMapping {
+  channel: SubscriptionChannel;
+  serviceEvent: string;
+  socketEvent: string;
+  target?: (data: any) => string | undefined;
+  payload: (data: any) => any;
+}
+
+const ROOM_PREFIXES: Record<SubscriptionMode, string> = {
+  events: 'device:',
+  jsonrpc: 'rpc:device:'
+};
+
+/**
+ * Eventos dos serviços repassados a cada canal. Os nomes dos eventos WebSocket
+ * usados antes das assinaturas (usb-device-event, serial-data, scanner-progress) foram mantidos.
+ * Também usados pelo processo principal para repassar os eventos à janela (device-event).
+ */
+export const CHANNEL_EVENTS: ChannelEventMapping[] = [
+  // USB
+  { channel: 'usb', serviceEvent: 'device-connected', socketEvent: 'usb-device-event',
+    target: device => device?.deviceId, payload: device => ({ event: 'connected', device }) },
+  { channel: 'usb', serviceEvent: 'device-disconnected', socketEvent: 'usb-device-event',
+    target: device => device?.deviceId, payload: device => ({ event: 'disconnected', device }) },
+
+  // Serial
+  { channel: 'serial', serviceEvent: 'port-data', socketEvent: 'serial-data',
+    target: data => data?.portPath, payload: data => ({ port: data.portPath, data: data.data }) },
+  { channel: 'serial', serviceEvent: 'port-opened', socketEvent: 'serial-event',
+    target: data => data?.portPath, payload: data => ({ event: 'opened', port: data.portPath }) },
+  { channel: 'serial', serviceEvent: 'port-closed', socketEvent: 'serial-event',
+    target: data => data?.portPath, payload: data => ({ event: 'closed', port: data.portPath }) },
+  { channel: 'serial', serviceEvent: 'port-error', socketEvent: 'serial-event',
+    target: data => data?.portPath, payload: data => ({ event: 'error', port: data.portPath, error: data.error }) },
+
+  // Impressoras
+  { channel: 'printer', serviceEvent: 'printers-updated', socketEvent: 'printer-event',
+    payload: printers => ({ event: 'updated', printers }) },
+  { channel: 'printer', serviceEvent: 'print-success', socketEvent: 'printer-event',
+    target: data => data?.printer, payload: data => ({ event: 'printed', printer: data.printer, content: data.content }) },
+  { channel: 'printer', serviceEvent: 'print-error', socketEvent: 'printer-event',
+    payload: data => ({ event: 'error', error: data.error }) },
+
+  // Câmeras (a imagem capturada não é repassada, apenas o aviso)
+  { channel: 'camera', serviceEvent: 'cameras-updated', socketEvent: 'camera-event',
+    payload: cameras => ({ event: 'updated', cameras }) },
+  { channel: 'camera', serviceEvent: 'photo-captured', socketEvent: 'camera-event',
+    target: data => data?.cameraId, payload: data => ({ event: 'captured', cameraId: data.cameraId, filePath: data.filePath }) },
+  { channel: 'camera', serviceEvent: 'capture-error', socketEvent: 'camera-event',
+    target: data => data?.cameraId, payload: data => ({ event: 'error', cameraId: data.cameraId, error: data.error }) },
+  { channel: 'camera', serviceEvent: 'stream-started', socketEvent: 'camera-event',
+    target: data => data?.cameraId, payload: data => ({ event: 'stream-started', cameraId: data.cameraId, streamUrl: data.streamUrl }) },
+  { channel: 'camera', serviceEvent: 'stream-stopped', socketEvent: 'camera-event',
+    target: data => data?.cameraId, payload: data => ({ event: 'stream-stopped', cameraId: data.cameraId }) },
+  { channel: 'camera', serviceEvent: 'stream-error', socketEvent: 'camera-event',
+    target: data => data?.cameraId, payload: data => ({ event: 'error', cameraId: data.cameraId, error: data.error }) },
+
+  // Scanner
+  { channel: 'scanner', serviceEvent: 'scan-progress', socketEvent: 'scanner-progress',
+    payload: progress => progress }
+];
+
+/**
+ * Gerencia as assinaturas de eventos de dispositivos pelo WebSocket.
+ * Cada canal (e cada dispositivo, quando informado o target) é uma sala do Socket.IO:
+ * os serviços recebem um único listener por evento, independente do número de clientes,
+ * e o Socket.IO remove o cliente das salas ao desconectar. Clientes JSON-RPC usam salas
+ * próprias e recebem o evento como notificação.
+ */
+export class SubscriptionManager {
+  private listeners: { mapping: ChannelEventMapping; listener: (data: any) => void }[] = [];
+
+  constructor(private io: SocketIOServer, private services: ServiceRegistry) {}
+
+  /**
+   * Registra um listener em cada evento dos serviços, repassando-o às salas do canal
+   */
+  attach(): void {
+    if (this.listeners.length > 0) return;
+
+    for (const mapping of CHANNEL_EVENTS) {
+      const listener = (data: any) => {
+        const target = mapping.target?.(data);
+        const subscriptions: Subscription[] = [{ channel: mapping.channel }];
+        if (target) {
+          subscriptions.push({ channel: mapping.channel, target });
+        }
+        const payload = mapping.payload(data);
+
+        // Emitir para várias salas de uma vez entrega uma única vez a quem está em ambas
+        this.io.to(subscriptions.map(subscription => this.getRoom(subscription, 'events')))
+          .emit(mapping.socketEvent, payload);
+        this.io.to(subscriptions.map(subscription => this.getRoom(subscription, 'jsonrpc')))
+          .emit('jsonrpc', {
+            jsonrpc: '2.0',
+            method: DEVICE_EVENT_NOTIFICATION,
+            params: { channel: mapping.channel, event: mapping.socketEvent, ...(target ? { target } : {}), data: payload }
+          });
+      };
+
+      this.services.get(mapping.channel).on(mapping.serviceEvent, listener);
+      this.listeners.push({ mapping, listener });
+    }
+  }
+
+  /**
+   * Remove os listeners registrados nos serviços
+   */
+  detach(): void {
+    for (const { mapping, listener } of this.listeners) {
+      this.services.get(mapping.channel).off(mapping.serviceEvent, listener);
+    }
+    this.listeners = [];
+  }
+
+  /**
+   * Inscreve o cliente em um canal (ou em um dispositivo do canal)
+   */
+  subscribe(socket: Socket, subscription: Subscription, mode: SubscriptionMode = 'events'): SubscriptionAck {
+    const error = this.validate(subscription);
+    if (error) return error;
+
+    socket.join(this.getRoom(subscription, mode));
+    return { success: true, subscriptions: this.list(socket, mode) };
+  }
+
+  /**
+   * Cancela a inscrição do cliente. Sem canal, cancela todas.
+   */
+  unsubscribe(socket: Socket, subscription?: Partial<Subscription>, mode: SubscriptionMode = 'events'): SubscriptionAck {
+    if (!subscription?.channel) {
+      this.list(socket, mode).forEach(current => socket.leave(this.getRoom(current, mode)));
+      return { success: true, subscriptions: [] };
+    }
+
+    const error = this.validate(subscription as Subscription);
+    if (error) return error;
+
+    socket.leave(this.getRoom(subscription as Subscription, mode));
+    return { success: true, subscriptions: this.list(socket, mode) };
+  }
+
+  /**
+   * Lista as inscrições do cliente a partir das salas em que está
+   */
+  list(socket: Socket, mode: SubscriptionMode = 'events'): Subscription[] {
+    const prefix = ROOM_PREFIXES[mode];
+    return Array.from(socket.rooms)
+      .filter(room => room.startsWith(prefix))
+      .map(room => {
+        const [channel, ...target] = room.slice(prefix.length).split(':');
+        return target.length > 0
+          ? { channel: channel as SubscriptionChannel, target: target.join(':') }
+          : { channel: channel as SubscriptionChannel };
+      });
+  }
+
+  private validate(subscription: Subscription): SubscriptionAck | null {
+    if (!subscription || !SUBSCRIPTION_CHANNELS.includes(subscription.channel)) {
+      return {
+        success: false,
+        error: `Canal inválido. Use um de: ${SUBSCRIPTION_CHANNELS.join(', ')}`,
+        code: 'INVALID_ARGUMENT'
+      };
+    }
+
+    if (subscription.target !== undefined && (typeof subscription.target !== 'string' || !subscription.target)) {
+      return { success: false, error: 'Campo target deve ser texto', code: 'INVALID_ARGUMENT' };
+    }
+
+    return null;
+  }
+
+  private getRoom(subscription: Subscription, mode: SubscriptionMode): string {
+    const prefix = ROOM_PREFIXES[mode];
+    return subscription.target
+      ? `${prefix}${subscription.channel}:${subscription.target}`
+      : `${prefix}${subscription.channel}`;
+  }
+}
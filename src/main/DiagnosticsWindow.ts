@@ -0,0 +1,467 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { app, BrowserWindow, dialog, ipcMain } from 'electron';
+import { ServiceRegistry, ServiceName, HealthReport } from '../services/ServiceRegistry';
+import { ConfigManager } from '../utils/ConfigManager';
+import { Logger } from '../utils/Logger';
+import { DEVICE_EVENT_MAPPINGS } from '../utils/DeviceEvents';
+import { DEVICE_LIST_EVENTS } from './TrayManager';
+
+/**
+ * Dispositivo de qualquer serviço, no formato exibido pela janela de diagnóstico
+ */
+export interface DiagnosticsDevice {
+  service: ServiceName;
+  id: string;
+  name: string;
+  status: string;
+  details?: string;
+}
+
+/**
+ * Estado atual dos serviços e dispositivos (listErrors traz as falhas ao listar cada serviço)
+ */
+export interface DiagnosticsSnapshot {
+  timestamp: string;
+  health: HealthReport;
+  devices: DiagnosticsDevice[];
+  listErrors: Partial<Record<ServiceName, string>>;
+}
+
+export type DiagnosticsTest = 'device' | 'print' | 'capture' | 'loopback';
+
+/**
+ * Resultado de um teste (preview traz a imagem da captura e não entra no histórico)
+ */
+export interface DiagnosticsTestResult {
+  timestamp: string;
+  service: ServiceName;
+  test: DiagnosticsTest;
+  target: string;
+  success: boolean;
+  durationMs: number;
+  error?: string;
+  preview?: string;
+}
+
+/**
+ * Erro recente: do log da aplicação ou o último erro registrado por um serviço
+ */
+export interface DiagnosticsError {
+  timestamp: string;
+  source: string;
+  level: 'error' | 'warn';
+  message: string;
+}
+
+/**
+ * Evento de dispositivo exibido na atividade recente (sem os dados, ex.: leituras seriais)
+ */
+export interface DiagnosticsEvent {
+  timestamp: string;
+  event: string;
+  target?: string;
+}
+
+/**
+ * Relatório exportado para o suporte
+ */
+export interface DiagnosticsReport {
+  generatedAt: string;
+  system: { appVersion: string; electronVersion: string; platform: string; hostname: string };
+  environment: string;
+  status: Record<string, string | number | boolean>;
+  snapshot: DiagnosticsSnapshot;
+  tests: DiagnosticsTestResult[];
+  errors: DiagnosticsError[];
+}
+
+// Testes mantidos para o relatório
+const MAX_TEST_RESULTS = 100;
+
+// Linhas do log lidas para a lista de erros e quantidade exibida
+const LOG_LINES = 1000;
+const MAX_ERRORS = 50;
+
+// Agrupa alterações seguidas das listas (ex.: enumeração USB) em uma única atualização
+const CHANGE_DEBOUNCE_MS = 500;
+
+const LOG_SOURCE = 'Diagnóstico';
+
+/**
+ * Janela de diagnóstico para o suporte: lista os dispositivos de todos os serviços com o estado atual,
+ * executa os testes de cada serviço (teste do dispositivo, impressão de teste, captura e loopback serial),
+ * mostra os erros recentes e exporta tudo em um relatório. Os handlers IPC só atendem a própria janela.
+ */
+export class DiagnosticsWindow {
+  private window: BrowserWindow | null = null;
+  private testResults: DiagnosticsTestResult[] = [];
+  private listeners: { service: ServiceName; event: string; listener: (data: any) => void }[] = [];
+  private changeTimer: NodeJS.Timeout | null = null;
+
+  constructor(private services: ServiceRegistry, private getAppStatus: () => Record<string, string | number | boolean>) {
+    this.setupIpcHandlers();
+  }
+
+  /**
+   * Abre a janela (ou a traz para frente, se já estiver aberta)
+   */
+  open(): void {
+    if (this.window && !this.window.isDestroyed()) {
+      this.window.show();
+      this.window.focus();
+      return;
+    }
+
+    const window = new BrowserWindow({
+      width: 1000,
+      height: 760,
+      title: 'Diagnóstico de Dispositivos',
+      autoHideMenuBar: true,
+      webPreferences: {
+        nodeIntegration: false,
+        contextIsolation: true,
+        preload: path.join(__dirname, '../renderer/diagnostics-preload.js')
+      }
+    });
+    this.window = window;
+    this.attach();
+    window.on('closed', () => {
+      if (this.window !== window) return;
+      this.window = null;
+      this.detach();
+    });
+
+    window.loadFile(path.join(__dirname, '../renderer/diagnostics.html'));
+  }
+
+  /**
+   * Fecha a janela (ao sair do aplicativo)
+   */
+  close(): void {
+    if (this.window && !this.window.isDestroyed()) {
+      this.window.destroy();
+    }
+    this.window = null;
+    this.detach();
+  }
+
+  /**
+   * Repassa à janela os eventos dos dispositivos e avisa quando as listas mudam
+   */
+  private attach(): void {
+    for (const mapping of DEVICE_EVENT_MAPPINGS) {
+      const listener = (data: any) => {
+        if (mapping.payload(data) === null) return;
+        const target = mapping.target?.(data);
+        this.send('diagnostics-event', {
+          timestamp: new Date().toISOString(),
+          event: mapping.event,
+          ...(target ? { target } : {})
+        } as DiagnosticsEvent);
+      };
+      this.services.get(mapping.service).on(mapping.serviceEvent, listener);
+      this.listeners.push({ service: mapping.service, event: mapping.serviceEvent, listener });
+    }
+
+    for (const { service, event } of DEVICE_LIST_EVENTS) {
+      const listener = () => this.notifyChange();
+      this.services.get(service).on(event, listener);
+      this.listeners.push({ service, event, listener });
+    }
+  }
+
+  private detach(): void {
+    for (const { service, event, listener } of this.listeners) {
+      this.services.get(service).off(event, listener);
+    }
+    this.listeners = [];
+
+    if (this.changeTimer) {
+      clearTimeout(this.changeTimer);
+      this.changeTimer = null;
+    }
+  }
+
+  private notifyChange(): void {
+    if (this.changeTimer) clearTimeout(this.changeTimer);
+    this.changeTimer = setTimeout(() => {
+      this.changeTimer = null;
+      this.send('diagnostics-changed');
+    }, CHANGE_DEBOUNCE_MS);
+  }
+
+  private send(channel: string, payload?: unknown): void {
+    if (this.window && !this.window.isDestroyed()) {
+      this.window.webContents.send(channel, payload);
+    }
+  }
+
+  /**
+   * Registra handler IPC aceito apenas da janela de diagnóstico (os testes imprimem e acessam dispositivos)
+   */
+  private handleIpc(channel: string, handler: (event: Electron.IpcMainInvokeEvent, ...args: any[]) => Promise<any>): void {
+    ipcMain.handle(channel, async (event, ...args) => {
+      if (!this.window || this.window.isDestroyed() || event.sender !== this.window.webContents) {
+        throw new Error('Acesso negado');
+      }
+      return handler(event, ...args);
+    });
+  }
+
+  private setupIpcHandlers(): void {
+    this.handleIpc('diagnostics-get-snapshot', async () => this.getSnapshot());
+
+    this.handleIpc('diagnostics-get-errors', async () => this.getErrors());
+
+    this.handleIpc('diagnostics-get-tests', async () => this.testResults);
+
+    this.handleIpc('diagnostics-test-device', async (event, service: ServiceName, id: string) => {
+      if (!this.services.getNames().includes(service)) {
+        throw new Error(`Serviço ${service} inválido`);
+      }
+      return this.runTest(service, 'device', id, () => this.services.get(service).testDevice(id));
+    });
+
+    this.handleIpc('diagnostics-test-print', async (event, printer: string) => {
+      return this.runTest('printer', 'print', printer, () => this.services.printer.print({
+        content: `Teste de impressão - Intranet Desktop ${app.getVersion()} - ${os.hostname()} - ${new Date().toLocaleString()}`,
+        type: 'text',
+        options: { printer }
+      }));
+    });
+
+    this.handleIpc('diagnostics-test-capture', async (event, cameraId: string) => {
+      return this.runTest('camera', 'capture', cameraId, () => this.services.camera.capturePhoto(cameraId, { width: 320, height: 240 }));
+    });
+
+    this.handleIpc('diagnostics-test-loopback', async (event, portPath: string) => {
+      return this.runTest('serial', 'loopback', portPath, () => this.services.serial.testLoopback(portPath));
+    });
+
+    this.handleIpc('diagnostics-export-report', async (event) => {
+      const window = BrowserWindow.fromWebContents(event.sender)!;
+      const date = new Date().toISOString().split('T')[0];
+      const result = await dialog.showSaveDialog(window, {
+        title: 'Exportar Relatório de Diagnóstico',
+        defaultPath: `diagnostico-${os.hostname()}-${date}.txt`,
+        filters: [
+          { name: 'Texto', extensions: ['txt'] },
+          { name: 'JSON', extensions: ['json'] }
+        ]
+      });
+      if (result.canceled || !result.filePath) return { success: false, canceled: true };
+
+      const report = await this.buildReport();
+      const content = result.filePath.toLowerCase().endsWith('.json')
+        ? JSON.stringify(report, null, 2)
+        : DiagnosticsWindow.formatReport(report);
+      await fs.promises.writeFile(result.filePath, content, 'utf8');
+      return { success: true, filePath: result.filePath };
+    });
+  }
+
+  /**
+   * Dispositivos de todos os serviços (a falha de um serviço não impede a listagem dos demais)
+   */
+  private async getSnapshot(): Promise<DiagnosticsSnapshot> {
+    const sources: Record<ServiceName, () => Promise<DiagnosticsDevice[]>> = {
+      printer: async () => (await this.services.printer.getPrinters()).map(printer => ({
+        service: 'printer' as const,
+        id: printer.name,
+        name: printer.isDefault ? `${printer.name} (padrão)` : printer.name,
+        status: printer.status,
+        details: printer.description
+      })),
+      camera: async () => (await this.services.camera.getCameras()).map(camera => ({
+        service: 'camera' as const,
+        id: camera.id,
+        name: camera.name,
+        status: camera.status,
+        details: camera.type
+      })),
+      usb: async () => (await this.services.usb.getDevices()).map(device => ({
+        service: 'usb' as const,
+        id: device.deviceId,
+        name: device.product || `${device.vendorId}:${device.productId}`,
+        status: device.status,
+        details: [device.manufacturer, `${device.vendorId}:${device.productId}`].filter(Boolean).join(' - ')
+      })),
+      serial: async () => (await this.services.serial.getPorts()).map(port => ({
+        service: 'serial' as const,
+        id: port.path,
+        name: port.friendlyName || port.path,
+        status: port.status,
+        details: port.manufacturer
+      })),
+      scanner: async () => (await this.services.scanner.getScanners()).map(scanner => ({
+        service: 'scanner' as const,
+        id: scanner.id,
+        name: scanner.isDefault ? `${scanner.name} (padrão)` : scanner.name,
+        status: scanner.status,
+        details: scanner.type
+      }))
+    };
+
+    const devices: DiagnosticsDevice[] = [];
+    const listErrors: Partial<Record<ServiceName, string>> = {};
+    for (const name of this.services.getNames()) {
+      try {
+        devices.push(...await sources[name]());
+      } catch (error) {
+        listErrors[name] = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    return { timestamp: new Date().toISOString(), health: this.services.getHealth(), devices, listErrors };
+  }
+
+  /**
+   * Erros e avisos recentes do log (inclusive os registrados pelos serviços) e o último erro de cada
+   * serviço que não esteja no log (ex.: falha de inicialização), do mais recente ao mais antigo
+   */
+  private getErrors(): DiagnosticsError[] {
+    const errors: DiagnosticsError[] = Logger.getInstance().getRecentLogs(LOG_LINES)
+      .filter(entry => entry.level === 'error' || entry.level === 'warn')
+      .map(entry => {
+        // O erro gravado no log pode ser texto ou um objeto serializado
+        const detail = typeof entry.data?.error === 'string' ? entry.data.error : entry.data?.error?.message;
+        return {
+          timestamp: entry.timestamp,
+          source: entry.source || 'Aplicação',
+          level: entry.level as 'error' | 'warn',
+          message: detail ? `${entry.message}: ${detail}` : entry.message
+        };
+      });
+
+    for (const service of this.services.getHealth().services) {
+      if (service.lastError && !errors.some(error => error.message === service.lastError)) {
+        errors.push({
+          timestamp: service.lastErrorAt || '',
+          source: `Serviço ${service.name}`,
+          level: 'error',
+          message: service.lastError
+        });
+      }
+    }
+
+    return errors
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+      .slice(0, MAX_ERRORS);
+  }
+
+  /**
+   * Executa o teste, registra o resultado no histórico e as falhas no log
+   */
+  private async runTest(
+    service: ServiceName,
+    test: DiagnosticsTest,
+    target: string,
+    run: () => Promise<boolean | string>
+  ): Promise<DiagnosticsTestResult> {
+    const startedAt = Date.now();
+    let success = false;
+    let error: string | undefined;
+    let preview: string | undefined;
+
+    try {
+      const outcome = await run();
+      if (typeof outcome === 'string') {
+        preview = outcome;
+        success = true;
+      } else {
+        success = outcome;
+        if (!success) error = 'O dispositivo não respondeu ao teste';
+      }
+    } catch (testError) {
+      error = testError instanceof Error ? testError.message : String(testError);
+    }
+
+    const result: DiagnosticsTestResult = {
+      timestamp: new Date(startedAt).toISOString(),
+      service,
+      test,
+      target,
+      success,
+      durationMs: Date.now() - startedAt,
+      ...(error ? { error } : {})
+    };
+
+    this.testResults.push(result);
+    if (this.testResults.length > MAX_TEST_RESULTS) this.testResults.shift();
+
+    if (success) {
+      Logger.getInstance().info(`Teste ${test} de ${service} ${target} concluído`, { durationMs: result.durationMs }, LOG_SOURCE);
+    } else {
+      Logger.getInstance().error(`Teste ${test} de ${service} ${target} falhou`, { error }, LOG_SOURCE);
+    }
+
+    return preview ? { ...result, preview } : result;
+  }
+
+  private async buildReport(): Promise<DiagnosticsReport> {
+    return {
+      generatedAt: new Date().toISOString(),
+      system: {
+        appVersion: app.getVersion(),
+        electronVersion: process.versions.electron,
+        platform: `${os.platform()} ${os.release()} (${os.arch()})`,
+        hostname: os.hostname()
+      },
+      environment: ConfigManager.getInstance().getCurrentEnvironment().name,
+      status: this.getAppStatus(),
+      snapshot: await this.getSnapshot(),
+      tests: this.testResults,
+      errors: this.getErrors()
+    };
+  }
+
+  /**
+   * Relatório em texto, para anexar a chamados
+   */
+  private static formatReport(report: DiagnosticsReport): string {
+    const lines = [
+      'RELATÓRIO DE DIAGNÓSTICO - INTRANET DESKTOP',
+      `Gerado em: ${report.generatedAt}`,
+      '',
+      '== Sistema ==',
+      `Aplicativo: ${report.system.appVersion} (Electron ${report.system.electronVersion})`,
+      `Sistema: ${report.system.platform}`,
+      `Estação: ${report.system.hostname}`,
+      `Ambiente: ${report.environment}`,
+      ...Object.entries(report.status).map(([key, value]) => `${key}: ${value}`),
+      '',
+      `== Serviços (${report.snapshot.health.status}) ==`,
+      ...report.snapshot.health.services.map(service =>
+        `${service.name}: ${service.ready ? 'pronto' : !service.enabled ? 'desabilitado' : service.initialized ? 'sem backend' : 'não inicializado'}` +
+        ` | backends: ${service.backends.join(', ') || '-'} | dispositivos: ${service.deviceCount}` +
+        (service.lastError ? ` | último erro: ${service.lastError}` : '')
+      ),
+      '',
+      '== Dispositivos =='
+    ];
+
+    for (const name of Object.keys(report.snapshot.listErrors) as ServiceName[]) {
+      lines.push(`[${name}] erro ao listar: ${report.snapshot.listErrors[name]}`);
+    }
+    for (const device of report.snapshot.devices) {
+      lines.push(`[${device.service}] ${device.name} (${device.id}) - ${device.status}${device.details ? ` - ${device.details}` : ''}`);
+    }
+    if (report.snapshot.devices.length === 0) lines.push('Nenhum dispositivo encontrado');
+
+    lines.push('', '== Testes ==');
+    for (const test of report.tests) {
+      lines.push(`${test.timestamp} [${test.service}] ${test.test} ${test.target}: ${test.success ? 'OK' : `FALHOU - ${test.error}`} (${test.durationMs} ms)`);
+    }
+    if (report.tests.length === 0) lines.push('Nenhum teste executado');
+
+    lines.push('', '== Erros recentes ==');
+    for (const error of report.errors) {
+      lines.push(`${error.timestamp} ${error.level.toUpperCase()} [${error.source}] ${error.message}`);
+    }
+    if (report.errors.length === 0) lines.push('Nenhum erro registrado');
+
+    return lines.join('\n') + '\n';
+  }
+}
@@ -0,0 +1,287 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { app, shell, DownloadItem, Session, WebContents } from 'electron';
+import { ConfigManager, DownloadAction, DownloadRule } from '../utils/ConfigManager';
+import { PrinterService } from '../services/PrinterService';
+import { NavigationPolicy } from './NavigationPolicy';
+
+export type DownloadState = 'progressing' | 'completed' | 'cancelled' | 'interrupted';
+
+/**
+ * Download feito pelas páginas da intranet (error traz a falha do download ou da ação)
+ */
+export interface DownloadInfo {
+  id: string;
+  url: string;
+  filename: string;
+  mimeType: string;
+  savePath: string;
+  state: DownloadState;
+  receivedBytes: number;
+  totalBytes: number;
+  action: DownloadAction;
+  startedAt: string;
+  completedAt?: string;
+  error?: string;
+}
+
+export type DownloadEventType = 'started' | 'progress' | 'completed';
+
+/**
+ * Evento enviado às páginas pelo preload (onDownloadEvent)
+ */
+export interface DownloadEvent {
+  type: DownloadEventType;
+  download: DownloadInfo;
+}
+
+// Downloads mantidos na lista (os em andamento nunca são removidos)
+const MAX_DOWNLOADS = 20;
+
+// Intervalo mínimo entre eventos de progresso de um mesmo download
+const PROGRESS_INTERVAL_MS = 250;
+
+// Tipo pela extensão quando o servidor não informa um tipo específico
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.csv': 'text/csv',
+  '.txt': 'text/plain',
+  '.xml': 'application/xml',
+  '.zip': 'application/zip',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg'
+};
+
+/**
+ * Downloads das sessões dos ambientes: define onde salvar cada arquivo conforme as regras por tipo MIME
+ * de downloads.rules, abre ou imprime o arquivo concluído (impressão de PDF pelo PrinterService) e
+ * informa início, progresso e conclusão de cada download.
+ * O tipo e o nome do arquivo vêm do servidor, então abrir e imprimir valem apenas para downloads de
+ * origens confiáveis cuja extensão corresponda à regra; os demais são apenas salvos.
+ */
+export class DownloadManager {
+  private sessions = new WeakSet<Session>();
+  private downloads: DownloadInfo[] = [];
+  private items: Map<string, DownloadItem> = new Map();
+
+  constructor(
+    private printer: PrinterService,
+    private navigationPolicy: NavigationPolicy,
+    private onEvent: (event: DownloadEvent, sender: WebContents) => void
+  ) {}
+
+  /**
+   * Acompanha os downloads da sessão (sem efeito se já acompanhada)
+   */
+  attach(session: Session): void {
+    if (this.sessions.has(session)) return;
+    this.sessions.add(session);
+    session.on('will-download', (event, item, contents) => this.handleDownload(item, contents));
+  }
+
+  /**
+   * Downloads recentes, do mais novo ao mais antigo
+   */
+  getDownloads(): DownloadInfo[] {
+    return this.downloads.map(download => ({ ...download }));
+  }
+
+  /**
+   * Cancela um download em andamento
+   */
+  cancel(id: string): boolean {
+    const item = this.items.get(id);
+    if (!item) return false;
+    item.cancel();
+    return true;
+  }
+
+  /**
+   * Abre o arquivo baixado com o aplicativo padrão
+   */
+  async open(id: string): Promise<void> {
+    const download = this.getCompleted(id);
+    const error = await shell.openPath(download.savePath);
+    if (error) {
+      throw new Error(`Não foi possível abrir ${download.filename}: ${error}`);
+    }
+  }
+
+  /**
+   * Mostra o arquivo baixado na pasta
+   */
+  showInFolder(id: string): void {
+    shell.showItemInFolder(this.getCompleted(id).savePath);
+  }
+
+  /**
+   * Remove da lista os downloads finalizados
+   */
+  clear(): void {
+    this.downloads = this.downloads.filter(download => download.state === 'progressing');
+  }
+
+  private getCompleted(id: string): DownloadInfo {
+    const download = this.downloads.find(current => current.id === id);
+    if (!download || download.state !== 'completed' || !fs.existsSync(download.savePath)) {
+      throw new Error('Arquivo baixado não encontrado');
+    }
+    return download;
+  }
+
+  private handleDownload(item: DownloadItem, contents: WebContents): void {
+    const config = ConfigManager.getInstance().get('downloads');
+    const mimeType = DownloadManager.getMimeType(item);
+    const rule = config.rules.find(current => DownloadManager.matches(mimeType, current.mimeType));
+    const action = rule && this.canRunAction(item, contents, rule) ? rule.action : 'save';
+    const directory = rule?.directory || config.directory || app.getPath('downloads');
+
+    // Arquivos que serão abertos ou impressos não precisam da escolha do local
+    if (config.askWhereToSave && action === 'save') {
+      item.setSaveDialogOptions({ defaultPath: path.join(directory, item.getFilename()) });
+    } else {
+      try {
+        item.setSavePath(DownloadManager.getAvailablePath(directory, item.getFilename()));
+      } catch (error) {
+        // Pasta da regra inacessível: usa a pasta de downloads do sistema
+        console.error(`Erro ao usar a pasta de downloads ${directory}:`, error);
+        item.setSavePath(DownloadManager.getAvailablePath(app.getPath('downloads'), item.getFilename()));
+      }
+    }
+
+    const download: DownloadInfo = {
+      id: crypto.randomUUID(),
+      url: item.getURL(),
+      filename: item.getFilename(),
+      mimeType,
+      savePath: item.getSavePath(),
+      state: 'progressing',
+      receivedBytes: 0,
+      totalBytes: item.getTotalBytes(),
+      action,
+      startedAt: new Date().toISOString()
+    };
+    this.downloads.unshift(download);
+    this.downloads = this.downloads.filter((current, index) => index < MAX_DOWNLOADS || current.state === 'progressing');
+    this.items.set(download.id, item);
+    this.notify('started', download, contents);
+
+    let lastProgress = 0;
+    item.on('updated', (event, state) => {
+      this.update(download, item);
+      download.state = state === 'interrupted' ? 'interrupted' : 'progressing';
+      if (Date.now() - lastProgress >= PROGRESS_INTERVAL_MS) {
+        lastProgress = Date.now();
+        this.notify('progress', download, contents);
+      }
+    });
+
+    item.once('done', (event, state) => {
+      this.items.delete(download.id);
+      this.update(download, item);
+      download.state = state;
+      download.completedAt = new Date().toISOString();
+
+      if (state !== 'completed') {
+        if (state === 'interrupted') download.error = 'Download interrompido';
+        this.notify('completed', download, contents);
+        return;
+      }
+
+      this.runAction(download, rule).finally(() => this.notify('completed', download, contents));
+    });
+  }
+
+  /**
+   * Abrir ou imprimir exige página e download de origens confiáveis e extensão compatível com a regra
+   * (PDF para impressão), para que um executável enviado com outro tipo MIME nunca seja executado
+   */
+  private canRunAction(item: DownloadItem, contents: WebContents, rule: DownloadRule): boolean {
+    if (rule.action === 'save') return true;
+
+    // blob: traz a origem da página que o gerou (blob:https://intranet/uuid)
+    const url = item.getURL().replace(/^blob:/, '');
+    const extension = path.extname(item.getFilename()).toLowerCase();
+    const allowed = this.navigationPolicy.isTrusted(contents.getURL()) && this.navigationPolicy.isTrusted(url) &&
+      (rule.action === 'print'
+        ? extension === '.pdf'
+        : !!EXTENSION_MIME_TYPES[extension] && DownloadManager.matches(EXTENSION_MIME_TYPES[extension], rule.mimeType));
+
+    if (!allowed) {
+      console.warn(`Download ${item.getFilename()} de ${item.getURL()} apenas salvo (origem ou extensão não permitida para ${rule.action})`);
+    }
+    return allowed;
+  }
+
+  /**
+   * Abre ou imprime o arquivo concluído, conforme a regra
+   */
+  private async runAction(download: DownloadInfo, rule: DownloadRule | undefined): Promise<void> {
+    try {
+      if (download.action === 'open') {
+        const error = await shell.openPath(download.savePath);
+        if (error) throw new Error(error);
+      } else if (download.action === 'print') {
+        await this.printer.print({
+          content: download.savePath,
+          type: 'pdf',
+          options: rule?.printer ? { printer: rule.printer } : {}
+        });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Erro ao ${download.action === 'print' ? 'imprimir' : 'abrir'} ${download.filename}:`, message);
+      download.error = message;
+    }
+  }
+
+  private update(download: DownloadInfo, item: DownloadItem): void {
+    download.savePath = item.getSavePath();
+    download.filename = download.savePath ? path.basename(download.savePath) : item.getFilename();
+    download.receivedBytes = item.getReceivedBytes();
+    download.totalBytes = item.getTotalBytes();
+  }
+
+  private notify(type: DownloadEventType, download: DownloadInfo, sender: WebContents): void {
+    try {
+      this.onEvent({ type, download: { ...download } }, sender);
+    } catch (error) {
+      console.error('Erro ao notificar download:', error);
+    }
+  }
+
+  /**
+   * Tipo informado pelo servidor ou, se genérico, o da extensão do arquivo
+   */
+  private static getMimeType(item: DownloadItem): string {
+    const mimeType = item.getMimeType().split(';')[0].trim().toLowerCase();
+    if (mimeType && mimeType !== 'application/octet-stream') {
+      return mimeType;
+    }
+    return EXTENSION_MIME_TYPES[path.extname(item.getFilename()).toLowerCase()] || mimeType || 'application/octet-stream';
+  }
+
+  private static matches(mimeType: string, pattern: string): boolean {
+    if (pattern === '*' || pattern === mimeType) return true;
+    return pattern.endsWith('/*') && mimeType.startsWith(pattern.slice(0, -1));
+  }
+
+  /**
+   * Caminho livre na pasta (relatorio.pdf, relatorio (1).pdf, ...), criando a pasta se preciso
+   */
+  private static getAvailablePath(directory: string, filename: string): string {
+    fs.mkdirSync(directory, { recursive: true });
+
+    const extension = path.extname(filename);
+    const name = path.basename(filename, extension);
+    let candidate = path.join(directory, filename);
+    for (let index = 1; fs.existsSync(candidate); index++) {
+      candidate = path.join(directory, `${name} (${index})${extension}`);
+    }
+    return candidate;
+  }
+}
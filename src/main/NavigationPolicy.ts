@@ -0,0 +1,143 @@
+import { BrowserWindow, shell } from 'electron';
+import { ConfigManager } from '../utils/ConfigManager';
+
+// Esquemas enviados ao sistema quando a URL não pode abrir no aplicativo
+const EXTERNAL_PROTOCOLS = ['http:', 'https:', 'mailto:', 'tel:'];
+
+/**
+ * Política de navegação das janelas da intranet:
+ *  - confiáveis: as origens com acesso à API local (ambientes, suas origens permitidas e allowedOrigins).
+ *    Apenas elas recebem o preload dos dispositivos nas janelas filhas e atendem às chamadas IPC;
+ *  - permitidas: as confiáveis e navigation.allowedOrigins (ex.: login único, servidor de relatórios),
+ *    que podem navegar e abrir janelas dentro do aplicativo, sem acesso aos dispositivos;
+ *  - as demais URLs abrem no navegador padrão.
+ * A configuração é lida a cada verificação, então as alterações valem sem reiniciar.
+ */
+export class NavigationPolicy {
+  constructor(private preloadPath: string) {}
+
+  /**
+   * Origem com acesso aos dispositivos
+   */
+  isTrusted(url: string | undefined): boolean {
+    const origin = NavigationPolicy.getOrigin(url);
+    return !!origin && ConfigManager.getInstance().getApiAllowedOrigins().includes(origin);
+  }
+
+  /**
+   * Origem que pode ser carregada dentro do aplicativo
+   */
+  isAllowed(url: string | undefined): boolean {
+    if (this.isTrusted(url)) return true;
+
+    const origin = NavigationPolicy.getOrigin(url);
+    return !!origin && ConfigManager.getInstance().get('navigation').allowedOrigins
+      .some(pattern => NavigationPolicy.matches(origin, pattern));
+  }
+
+  /**
+   * Aplica a política à janela: navegações e janelas filhas fora da lista vão para o navegador padrão
+   */
+  attach(window: BrowserWindow): void {
+    const contents = window.webContents;
+
+    contents.on('will-navigate', (event) => {
+      if (!this.isAllowed(event.url)) {
+        event.preventDefault();
+        this.openExternal(event.url);
+      }
+    });
+
+    // Redirecionamentos da página (ex.: login único) passam pela mesma verificação
+    contents.on('will-redirect', (event) => {
+      if (event.isMainFrame && !this.isAllowed(event.url)) {
+        event.preventDefault();
+        this.openExternal(event.url);
+      }
+    });
+
+    contents.setWindowOpenHandler(({ url }) => {
+      // about:blank é preenchida pela própria página (ex.: pré-visualização de impressão) e herda sua origem
+      if (url === 'about:blank' || this.isTrusted(url)) {
+        return {
+          action: 'allow',
+          overrideBrowserWindowOptions: {
+            autoHideMenuBar: true,
+            webPreferences: {
+              nodeIntegration: false,
+              contextIsolation: true,
+              preload: this.preloadPath
+            }
+          }
+        };
+      }
+
+      // Origens apenas permitidas abrem em uma janela própria, sem o preload
+      if (this.isAllowed(url)) {
+        this.openUntrustedWindow(url, window);
+        return { action: 'deny' };
+      }
+
+      this.openExternal(url);
+      return { action: 'deny' };
+    });
+
+    // As janelas filhas seguem a mesma política
+    contents.on('did-create-window', (child) => this.attach(child));
+  }
+
+  /**
+   * Janela na mesma sessão da janela de origem (mantém o login), sem acesso aos dispositivos
+   */
+  private openUntrustedWindow(url: string, opener: BrowserWindow): void {
+    const window = new BrowserWindow({
+      width: 1000,
+      height: 700,
+      autoHideMenuBar: true,
+      webPreferences: {
+        nodeIntegration: false,
+        contextIsolation: true,
+        session: opener.webContents.session
+      }
+    });
+    this.attach(window);
+    window.loadURL(url);
+  }
+
+  private openExternal(url: string): void {
+    try {
+      if (EXTERNAL_PROTOCOLS.includes(new URL(url).protocol)) {
+        shell.openExternal(url);
+        return;
+      }
+    } catch (error) {
+      // URL inválida: apenas bloqueada
+    }
+    console.warn('Navegação bloqueada:', url);
+  }
+
+  /**
+   * Origem da URL (apenas http e https)
+   */
+  private static getOrigin(url: string | undefined): string | null {
+    try {
+      const parsed = new URL(url || '');
+      return ['http:', 'https:'].includes(parsed.protocol) ? parsed.origin : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Compara a origem com uma entrada da lista, que aceita curinga de subdomínio (https://*.exemplo.com.br)
+   */
+  private static matches(origin: string, pattern: string): boolean {
+    if (!pattern.includes('://*.')) {
+      return origin === pattern;
+    }
+
+    const [protocol, host] = pattern.split('://*.');
+    const url = new URL(origin);
+    return url.protocol === `${protocol}:` && url.host.endsWith(`.${host}`);
+  }
+}
@@ -0,0 +1,193 @@
+import * as fs from 'fs';
+import { Tray, Menu, nativeImage } from 'electron';
+import { ServiceRegistry, ServiceName } from '../services/ServiceRegistry';
+import { EnvironmentConfig } from '../utils/ConfigManager';
+import { createColorIcon } from './icons';
+
+/**
+ * Estado exibido na bandeja, fornecido pelo processo principal
+ */
+export interface TrayStatus {
+  apiRunning: boolean;
+  apiPaused: boolean;
+  apiPort: number;
+  environment: EnvironmentConfig;
+}
+
+/**
+ * Ações do menu da bandeja
+ */
+export interface TrayActions {
+  getStatus(): TrayStatus;
+  openWindow(): void;
+  openSettings(): void;
+  openDiagnostics(): void;
+  toggleApi(): Promise<void>;
+  quit(): void;
+}
+
+/**
+ * Eventos dos serviços que alteram a lista de dispositivos
+ */
+export const DEVICE_LIST_EVENTS: { service: ServiceName; event: string }[] = [
+  { service: 'printer', event: 'printers-updated' },
+  { service: 'camera', event: 'cameras-updated' },
+  { service: 'usb', event: 'device-connected' },
+  { service: 'usb', event: 'device-disconnected' },
+  { service: 'serial', event: 'ports-updated' }
+];
+
+// Agrupa várias alterações (ex.: enumeração USB) em uma única atualização do menu
+const REFRESH_DEBOUNCE_MS = 1000;
+
+// Cores do ícone quando não há ícone do aplicativo
+const STATUS_COLORS = { running: '#28a745', paused: '#6c757d', stopped: '#dc3545' };
+
+/**
+ * Ícone da bandeja: mostra o estado da API, os dispositivos detectados e o ambiente atual,
+ * e permite reabrir a janela, pausar a API ou sair, mantendo o agente ativo com a janela fechada
+ */
+export class TrayManager {
+  private tray: Tray | null = null;
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private deviceCounts: Record<string, number> = {};
+  private listeners: { service: ServiceName; event: string; listener: () => void }[] = [];
+
+  constructor(private services: ServiceRegistry, private actions: TrayActions, private iconPath: string) {}
+
+  /**
+   * Cria o ícone (sem efeito se já existir)
+   */
+  create(): void {
+    if (this.tray) return;
+
+    this.tray = new Tray(this.getIcon());
+    this.tray.on('click', () => this.actions.openWindow());
+
+    for (const { service, event } of DEVICE_LIST_EVENTS) {
+      const listener = () => this.refresh();
+      this.services.get(service).on(event, listener);
+      this.listeners.push({ service, event, listener });
+    }
+
+    this.refresh();
+  }
+
+  /**
+   * Remove o ícone
+   */
+  destroy(): void {
+    for (const { service, event, listener } of this.listeners) {
+      this.services.get(service).off(event, listener);
+    }
+    this.listeners = [];
+
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+
+    this.tray?.destroy();
+    this.tray = null;
+  }
+
+  isCreated(): boolean {
+    return this.tray !== null;
+  }
+
+  /**
+   * Atualiza a contagem de dispositivos e o menu
+   */
+  refresh(): void {
+    if (!this.tray) return;
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+
+    this.refreshTimer = setTimeout(async () => {
+      this.refreshTimer = null;
+      this.deviceCounts = await this.countDevices();
+      this.updateMenu();
+    }, REFRESH_DEBOUNCE_MS);
+
+    // O estado da API e o ambiente são atualizados imediatamente
+    this.updateMenu();
+  }
+
+  private updateMenu(): void {
+    if (!this.tray) return;
+
+    const status = this.actions.getStatus();
+    const apiLabel = status.apiPaused
+      ? 'API local: pausada'
+      : status.apiRunning ? `API local: ativa (porta ${status.apiPort})` : 'API local: parada';
+
+    const counts = this.deviceCounts;
+    const devices = [
+      `${counts.printers ?? 0} impressora(s)`,
+      `${counts.cameras ?? 0} câmera(s)`,
+      `${counts.usb ?? 0} USB`,
+      `${counts.serialPorts ?? 0} porta(s) serial(is)`,
+      `${counts.scanners ?? 0} scanner(s)`
+    ];
+
+    this.tray.setToolTip(`Intranet Desktop - ${status.environment.name}\n${apiLabel}`);
+    if (!fs.existsSync(this.iconPath)) {
+      this.tray.setImage(this.getIcon());
+    }
+
+    this.tray.setContextMenu(Menu.buildFromTemplate([
+      { label: apiLabel, enabled: false },
+      { label: `Dispositivos: ${devices.join(', ')}`, enabled: false },
+      { label: `Ambiente: ${status.environment.name}`, icon: createColorIcon(status.environment.color), enabled: false },
+      { type: 'separator' },
+      { label: 'Abrir Intranet', click: () => this.actions.openWindow() },
+      { label: 'Configurações', click: () => this.actions.openSettings() },
+      { label: 'Diagnóstico', click: () => this.actions.openDiagnostics() },
+      {
+        label: status.apiPaused ? 'Retomar API Local' : 'Pausar API Local',
+        click: () => {
+          this.actions.toggleApi()
+            .catch(error => console.error('Erro ao alterar estado da API:', error))
+            .finally(() => this.updateMenu());
+        }
+      },
+      { type: 'separator' },
+      { label: 'Sair', click: () => this.actions.quit() }
+    ]));
+  }
+
+  /**
+   * Ícone do aplicativo ou, se ausente, um círculo na cor do estado da API
+   */
+  private getIcon(): Electron.NativeImage {
+    if (fs.existsSync(this.iconPath)) {
+      return nativeImage.createFromPath(this.iconPath).resize({ width: 16, height: 16 });
+    }
+
+    const status = this.actions.getStatus();
+    const color = status.apiPaused ? STATUS_COLORS.paused : status.apiRunning ? STATUS_COLORS.running : STATUS_COLORS.stopped;
+    return createColorIcon(color, 16);
+  }
+
+  /**
+   * Dispositivos detectados por tipo (falhas de um serviço contam como nenhum dispositivo)
+   */
+  private async countDevices(): Promise<Record<string, number>> {
+    const sources: Record<string, () => Promise<any[]>> = {
+      printers: () => this.services.printer.getPrinters(),
+      cameras: () => this.services.camera.getCameras(),
+      usb: () => this.services.usb.getDevices(),
+      serialPorts: () => this.services.serial.getPorts(),
+      scanners: () => this.services.scanner.getScanners()
+    };
+
+    const counts: Record<string, number> = {};
+    for (const [key, list] of Object.entries(sources)) {
+      try {
+        counts[key] = (await list()).length;
+      } catch (error) {
+        counts[key] = 0;
+      }
+    }
+    return counts;
+  }
+}
@@ -0,0 +1,24 @@
+import { nativeImage } from 'electron';
+
+/**
+ * Círculo na cor informada (#rrggbb), usado nos ícones dos ambientes e da bandeja
+ */
+export function createColorIcon(color: string, size = 12): Electron.NativeImage {
+  const [red, green, blue] = [1, 3, 5].map(index => parseInt(color.slice(index, index + 2), 16) || 0);
+  const bitmap = Buffer.alloc(size * size * 4);
+  const radius = size / 2;
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const inside = (x + 0.5 - radius) ** 2 + (y + 0.5 - radius) ** 2 <= radius ** 2;
+      const offset = (y * size + x) * 4;
+      // Formato BGRA
+      bitmap[offset] = blue;
+      bitmap[offset + 1] = green;
+      bitmap[offset + 2] = red;
+      bitmap[offset + 3] = inside ? 255 : 0;
+    }
+  }
+
+  return nativeImage.createFromBitmap(bitmap, { width: size, height: size });
+}
@@ -1,5 +1,6 @@
-import { app, BrowserWindow, ipcMain, dialog, Menu, shell } from 'electron';
+import { app, BrowserWindow, ipcMain, dialog, Menu, shell, net, session, WebContents } from 'electron';
 import * as path from 'path';
+import * as fs from 'fs';
 import * as dotenv from 'dotenv';
 
 // Suprimir warnings de N-API das bibliotecas opcionais (USB, Serial, etc.)
@@ -13,107 +14,572 @@ process.emitWarning = (warning: any, ...args: any[]) => {
 // Carrega variáveis de ambiente do arquivo .env automaticamente
 dotenv.config({ path: path.join(__dirname, '../../.env') });
 
-import { DeviceService } from '../services/DeviceService';
-import { PrinterService } from '../services/PrinterService';
-import { CameraService } from '../services/CameraService';
-import { USBService } from '../services/USBService';
-import { SerialService } from '../services/SerialService';
-import { ScannerService } from '../services/ScannerService';
-import { ApiServer } from '../api/ApiServer';
+import { ServiceRegistry } from '../services/ServiceRegistry';
+import { DeviceError } from '../services/DeviceError';
+import { ApiServer, ApiConfig } from '../api/ApiServer';
+import { MetricsCollector } from '../api/MetricsCollector';
+import { AuthManager, PairingRequest, API_SCOPE_LABELS } from '../api/AuthManager';
+import { ConfigManager, AppConfig, EnvironmentConfig } from '../utils/ConfigManager';
+import { CertificateManager, TlsCredentials } from '../utils/CertificateManager';
+import { AuditLog, AuditContext } from '../utils/AuditLog';
+import { Logger } from '../utils/Logger';
+import { CHANNEL_EVENTS } from '../api/SubscriptionManager';
+import { WebhookDispatcher } from '../utils/WebhookDispatcher';
+import { CommandChannel, CommandChannelConfig } from '../api/CommandChannel';
+import { MqttBridge, MqttBridgeConfig } from '../api/MqttBridge';
+import { createColorIcon } from './icons';
+import { TrayManager } from './TrayManager';
+import { DiagnosticsWindow } from './DiagnosticsWindow';
+import { NavigationPolicy } from './NavigationPolicy';
+import { DownloadManager, DownloadEvent, DownloadInfo } from './DownloadManager';
+
+/**
+ * Operação de dispositivo registrada na auditoria ao chamar um handler IPC
+ */
+interface IpcAudit {
+  device: string;
+  operation: string;
+  target?: (...args: any[]) => string | undefined;
+  payloadBytes?: (...args: any[]) => number;
+}
+
+// Tempo máximo da verificação de acesso antes de trocar de ambiente
+const REACHABILITY_TIMEOUT_MS = 5000;
+
+// Campos da configuração exibidos e alterados pela janela de configurações (tokens e segredos ficam de fora)
+const SETTINGS_KEYS: (keyof AppConfig)[] = [
+  'webUrl', 'environments', 'currentEnvironment', 'developmentEnvironment', 'navigation',
+  'apiPort', 'apiTls', 'allowedOrigins', 'logLevel', 'autoStart', 'tray',
+  'defaultScannerId', 'defaultPrinter', 'deviceSettings', 'downloads'
+];
+
+// Argumento da inicialização com o sistema (permite abrir apenas na bandeja)
+const LOGIN_ARG = '--start-at-login';
 
 class MainProcess {
   private mainWindow: BrowserWindow | null = null;
-  private printerService: PrinterService;
-  private cameraService: CameraService;
-  private usbService: USBService;
-  private serialService: SerialService;
-  private scannerService: ScannerService;
+  private services: ServiceRegistry;
   private apiServer: ApiServer;
-  private currentEnvironment: 'production' | 'homologation' = 'production';
-
-  // URLs dos ambientes
-  private readonly ENVIRONMENTS = {
-    production: 'https://intranet.grupobig.com.br',
-    homologation: 'https://intraneth.grupobig.com.br'
-  };
+  private metricsCollector: MetricsCollector;
+  private webhookDispatcher: WebhookDispatcher;
+  private commandChannel: CommandChannel;
+  private mqttBridge: MqttBridge;
+  private windowEnvironmentId: string | null = null;
+  private settingsWindow: BrowserWindow | null = null;
+  private trayManager: TrayManager;
+  private diagnosticsWindow: DiagnosticsWindow;
+  private navigationPolicy: NavigationPolicy;
+  private downloadManager: DownloadManager;
+  private apiPaused = false;
+  private quitting = false;
 
   constructor() {
-    // Inicialização dos serviços
-    this.printerService = new PrinterService();
-    this.cameraService = new CameraService();
-    this.usbService = new USBService();
-    this.serialService = new SerialService();
-    this.scannerService = new ScannerService();
-    this.apiServer = new ApiServer();
+    // Nível de log da configuração, atualizado quando ela muda
+    const configManager = ConfigManager.getInstance();
+    Logger.getInstance().setLogLevel(configManager.get('logLevel'));
+    configManager.onChange((config) => Logger.getInstance().setLogLevel(config.logLevel));
+
+    this.navigationPolicy = new NavigationPolicy(path.join(__dirname, '../renderer/preload.js'));
+
+    // Serviços compartilhados entre IPC e API
+    this.services = new ServiceRegistry();
+    // Métricas contam as operações de todos os canais, com a API ativa ou não
+    this.metricsCollector = new MetricsCollector(this.services);
+    this.metricsCollector.attach();
+    this.apiServer = this.createApiServer();
+    this.webhookDispatcher = new WebhookDispatcher(this.services);
+    this.commandChannel = this.createCommandChannel();
+    this.mqttBridge = this.createMqttBridge();
+    this.watchEnvironments();
+    this.trayManager = this.createTrayManager();
+    this.downloadManager = new DownloadManager(this.services.printer, this.navigationPolicy, (event, sender) => this.sendDownloadEvent(event, sender));
+    this.diagnosticsWindow = new DiagnosticsWindow(this.services, () => ({
+      'API local': this.apiPaused ? 'pausada' : this.apiServer.isRunning() ? 'ativa' : 'parada',
+      'Porta da API': this.apiServer.getConfig().port,
+      'Ponte MQTT': this.mqttBridge.getStatus()
+    }));
 
     this.initializeApp();
     this.setupIpcHandlers();
+    this.setupSettingsIpcHandlers();
+  }
+
+  /**
+   * Cria o servidor de API a partir do ConfigManager e aplica as alterações de configuração em execução
+   */
+  private createApiServer(): ApiServer {
+    const configManager = ConfigManager.getInstance();
+    const apiServer = new ApiServer(this.services, this.metricsCollector, this.buildApiConfig(configManager.getConfig()));
+
+    configManager.onChange((config, previous) => {
+      if (!this.hasApiConfigChanged(config, previous)) return;
+
+      apiServer.updateConfig(this.buildApiConfig(config)).catch((error) => {
+        console.error('Erro ao aplicar configuração da API:', error);
+        dialog.showErrorBox('API Local', `Não foi possível aplicar a nova configuração da API: ${error.message || error}`);
+      });
+    });
+
+    return apiServer;
+  }
+
+  /**
+   * Configuração do servidor de API: portas, prefixo, origens e, se habilitado, o certificado HTTPS
+   */
+  private buildApiConfig(config: AppConfig): ApiConfig {
+    let tls: TlsCredentials | undefined;
+    if (config.apiTls.enabled) {
+      try {
+        tls = CertificateManager.getInstance().getCredentials();
+      } catch (error) {
+        console.error('Erro ao gerar certificados HTTPS, a API ficará disponível apenas por HTTP:', error);
+      }
+    }
+
+    return {
+      port: config.apiPort,
+      httpsPort: config.apiTls.port,
+      tls,
+      allowedOrigins: ConfigManager.getInstance().getApiAllowedOrigins(config),
+      apiPrefix: config.apiPrefix,
+      metrics: { enabled: config.metrics.enabled, token: config.metrics.token || undefined }
+    };
+  }
+
+  /**
+   * Cria o canal de comandos e o reconecta quando sua configuração muda
+   */
+  private createCommandChannel(): CommandChannel {
+    const commandChannel = new CommandChannel(this.services);
+
+    ConfigManager.getInstance().onChange((config, previous) => {
+      if (JSON.stringify(config.commandChannel) === JSON.stringify(previous.commandChannel)) return;
+      // Antes do whenReady, a conexão é aberta lá com a configuração atual
+      if (!app.isReady()) return;
+      commandChannel.start(this.buildCommandChannelConfig(config));
+    });
+
+    return commandChannel;
+  }
+
+  /**
+   * Configuração do canal de comandos (null quando desabilitado ou sem URL e token)
+   */
+  private buildCommandChannelConfig(config: AppConfig): CommandChannelConfig | null {
+    const { enabled, url, token, workstationId, scopes } = config.commandChannel;
+    if (!enabled || !url || !token) return null;
+    return { url, token, workstationId, scopes };
+  }
+
+  /**
+   * Cria a ponte MQTT e a reconecta quando sua configuração muda
+   */
+  private createMqttBridge(): MqttBridge {
+    const mqttBridge = new MqttBridge(this.services);
+
+    ConfigManager.getInstance().onChange((config, previous) => {
+      if (JSON.stringify(config.mqtt) === JSON.stringify(previous.mqtt)) return;
+      if (!app.isReady()) return;
+      mqttBridge.start(this.buildMqttBridgeConfig(config));
+    });
+
+    return mqttBridge;
+  }
+
+  /**
+   * Configuração da ponte MQTT (null quando desabilitada ou sem broker)
+   */
+  private buildMqttBridgeConfig(config: AppConfig): MqttBridgeConfig | null {
+    const { enabled, brokerUrl, username, password, clientId, topicPrefix, qos, scopes } = config.mqtt;
+    if (!enabled || !brokerUrl) return null;
+    // Sem id próprio, usa o mesmo da estação no canal de comandos
+    const workstationId = config.mqtt.workstationId || config.commandChannel.workstationId;
+    return { brokerUrl, username, password, clientId, topicPrefix, workstationId, qos, scopes };
+  }
+
+  private hasApiConfigChanged(config: AppConfig, previous: AppConfig): boolean {
+    return config.apiPort !== previous.apiPort ||
+      config.apiPrefix !== previous.apiPrefix ||
+      JSON.stringify(config.apiTls) !== JSON.stringify(previous.apiTls) ||
+      JSON.stringify(config.allowedOrigins) !== JSON.stringify(previous.allowedOrigins) ||
+      this.hasEnvironmentConfigChanged(config, previous) ||
+      JSON.stringify(config.metrics) !== JSON.stringify(previous.metrics);
+  }
+
+  private hasEnvironmentConfigChanged(config: AppConfig, previous: AppConfig): boolean {
+    return config.webUrl !== previous.webUrl ||
+      config.developmentEnvironment !== previous.developmentEnvironment ||
+      JSON.stringify(config.environments) !== JSON.stringify(previous.environments);
+  }
+
+  /**
+   * Atualiza o menu de ambientes quando a lista muda e recarrega a janela se o ambiente atual mudou de URL
+   */
+  private watchEnvironments(): void {
+    const configManager = ConfigManager.getInstance();
+    configManager.onChange((config, previous) => {
+      if (!app.isReady()) return;
+      if (!this.hasEnvironmentConfigChanged(config, previous) && config.currentEnvironment === previous.currentEnvironment) return;
+
+      this.setupMenu();
+      const current = configManager.getCurrentEnvironment(config);
+      const before = configManager.getCurrentEnvironment(previous);
+      if (!this.mainWindow || this.mainWindow.isDestroyed()) return;
+
+      // Outro ambiente usa outra partição, o que exige uma nova janela
+      if (current.id !== this.windowEnvironmentId) {
+        this.recreateWindow();
+      } else if (current.url !== before.url) {
+        this.mainWindow.loadURL(current.url);
+      }
+    });
+  }
+
+  /**
+   * Cria o ícone da bandeja e aplica as alterações de tray e autoStart
+   */
+  private createTrayManager(): TrayManager {
+    const trayManager = new TrayManager(this.services, {
+      getStatus: () => ({
+        apiRunning: this.apiServer.isRunning(),
+        apiPaused: this.apiPaused,
+        apiPort: this.apiServer.getConfig().port,
+        environment: ConfigManager.getInstance().getCurrentEnvironment()
+      }),
+      openWindow: () => this.showWindow(),
+      openSettings: () => this.openConfigDialog(),
+      openDiagnostics: () => this.diagnosticsWindow.open(),
+      toggleApi: () => this.toggleApi(),
+      quit: () => app.quit()
+    }, path.join(__dirname, '../../assets/icon.png'));
+
+    ConfigManager.getInstance().onChange((config, previous) => {
+      if (!app.isReady()) return;
+
+      if (config.tray.enabled) {
+        trayManager.create();
+      } else if (trayManager.isCreated()) {
+        trayManager.destroy();
+        // Sem a bandeja, a janela oculta não poderia mais ser reaberta
+        this.showWindow();
+      }
+
+      if (config.autoStart !== previous.autoStart) {
+        this.applyLoginItemSettings(config.autoStart);
+      }
+      trayManager.refresh();
+    });
+
+    return trayManager;
+  }
+
+  /**
+   * Com a bandeja e runInBackground, fechar a janela apenas a oculta e o agente continua ativo
+   */
+  private shouldRunInBackground(): boolean {
+    const { enabled, runInBackground } = ConfigManager.getInstance().get('tray');
+    return enabled && runInBackground;
+  }
+
+  /**
+   * Pausa ou retoma a API local (os handlers IPC da janela continuam funcionando)
+   */
+  private async toggleApi(): Promise<void> {
+    if (this.apiPaused) {
+      this.apiPaused = false;
+      await this.apiServer.start();
+    } else {
+      this.apiPaused = true;
+      await this.apiServer.stop();
+    }
+  }
+
+  /**
+   * Inicia o aplicativo com o sistema (apenas no aplicativo instalado; em desenvolvimento
+   * seria registrado o executável do Electron)
+   */
+  private applyLoginItemSettings(enabled: boolean): void {
+    if (!app.isPackaged) return;
+    app.setLoginItemSettings({ openAtLogin: enabled, args: [LOGIN_ARG] });
+  }
+
+  private wasOpenedAtLogin(): boolean {
+    return process.argv.includes(LOGIN_ARG) || app.getLoginItemSettings().wasOpenedAtLogin;
   }
 
   private initializeApp(): void {
-    app.whenReady().then(() => {
-      this.createWindow();
+    // Uma única instância: abrir o aplicativo de novo (ex.: com ele na bandeja) apenas mostra a janela
+    if (!app.requestSingleInstanceLock()) {
+      app.quit();
+      return;
+    }
+    app.on('second-instance', () => this.showWindow());
+
+    app.whenReady().then(async () => {
+      const config = ConfigManager.getInstance().getConfig();
+      // Iniciado com o sistema e com startMinimized, o aplicativo abre apenas na bandeja
+      const startHidden = config.tray.enabled && config.tray.startMinimized && this.wasOpenedAtLogin();
+      this.createWindow(!startHidden);
       this.setupMenu();
-      this.apiServer.start();
+      this.applyLoginItemSettings(config.autoStart);
+      if (config.tray.enabled) {
+        this.trayManager.create();
+      }
+      this.forwardDeviceEvents();
+      await this.services.initializeAll();
+      // Depois da inicialização, para não enviar os dispositivos já conectados como eventos
+      this.webhookDispatcher.attach();
+      this.commandChannel.start(this.buildCommandChannelConfig(ConfigManager.getInstance().getConfig()));
+      this.mqttBridge.start(this.buildMqttBridgeConfig(ConfigManager.getInstance().getConfig()));
+      this.apiServer.setPairingApprover((request) => this.confirmPairing(request));
+      // Falhas (ex.: porta em uso) são registradas pelo servidor; o aplicativo continua sem a API
+      this.apiServer.start()
+        .catch(() => undefined)
+        .finally(() => this.trayManager.refresh());
+    });
+
+    app.on('before-quit', () => {
+      this.quitting = true;
+    });
+
+    // Finaliza API e serviços antes de sair (portas seriais, monitoramento USB, streams)
+    let cleanedUp = false;
+    app.on('will-quit', (event) => {
+      if (cleanedUp) return;
+      event.preventDefault();
+      cleanedUp = true;
+
+      // As entregas pendentes continuam na fila em disco e são retomadas na próxima execução
+      this.webhookDispatcher.detach();
+      this.commandChannel.stop();
+      this.mqttBridge.stop();
+      this.trayManager.destroy();
+      this.diagnosticsWindow.close();
+      this.apiServer.stop()
+        .then(() => this.services.cleanupAll())
+        .finally(() => app.quit());
     });
 
     app.on('window-all-closed', () => {
+      if (this.shouldRunInBackground()) return;
       if (process.platform !== 'darwin') {
         app.quit();
       }
     });
 
     app.on('activate', () => {
-      if (BrowserWindow.getAllWindows().length === 0) {
-        this.createWindow();
-      }
+      this.showWindow();
     });
   }
 
-  private createWindow(): void {
-    this.mainWindow = new BrowserWindow({
+  /**
+   * Cria a janela principal na partição de sessão do ambiente atual (cookies e armazenamento separados por ambiente)
+   */
+  private createWindow(show = true): BrowserWindow {
+    const env = ConfigManager.getInstance().getCurrentEnvironment();
+    const window = new BrowserWindow({
       width: 1200,
       height: 800,
       webPreferences: {
         nodeIntegration: false,
         contextIsolation: true,
         preload: path.join(__dirname, '../renderer/preload.js'),
-        webSecurity: true
+        webSecurity: true,
+        partition: MainProcess.getPartition(env)
       },
       icon: path.join(__dirname, '../../assets/icon.png'),
       show: false
     });
+    this.mainWindow = window;
+    this.windowEnvironmentId = env.id;
 
-    // Maximiza a janela ao iniciar
-    this.mainWindow.maximize();
+    // Maximiza a janela ao iniciar (maximize também a exibiria, por isso a oculta aguarda o show)
+    if (show) {
+      window.maximize();
+    } else {
+      window.once('show', () => window.maximize());
+    }
 
-    // Carrega a URL da aplicação web ou arquivo local
-    const webUrl = this.ENVIRONMENTS[this.currentEnvironment];
-    this.mainWindow.loadURL(webUrl);
+    // Carrega o último ambiente selecionado
+    window.loadURL(env.url);
+
+    // Identifica o ambiente no título e na faixa sobre a página
+    window.on('page-title-updated', (event, title) => {
+      event.preventDefault();
+      window.setTitle(`${title} - ${ConfigManager.getInstance().getCurrentEnvironment().name}`);
+    });
+    window.webContents.on('did-finish-load', () => {
+      this.showEnvironmentBanner();
+    });
 
     // Mostra a janela quando estiver pronta
-    this.mainWindow.once('ready-to-show', () => {
-      this.mainWindow?.show();
+    window.once('ready-to-show', () => {
+      if (show) window.show();
     });
 
-    // Abre links externos no navegador padrão
-    this.mainWindow.webContents.setWindowOpenHandler(({ url }) => {
-      shell.openExternal(url);
-      return { action: 'deny' };
+    // Em segundo plano, fechar apenas oculta a janela (a API e os dispositivos continuam disponíveis)
+    window.on('close', (event) => {
+      if (!this.quitting && this.shouldRunInBackground()) {
+        event.preventDefault();
+        window.hide();
+      }
     });
 
+    // Origens fora da lista de navegação abrem no navegador padrão
+    this.navigationPolicy.attach(window);
+
+    // Downloads da sessão do ambiente seguem as regras de downloads
+    this.downloadManager.attach(window.webContents.session);
+
     // Development tools
     if (process.env.NODE_ENV === 'development') {
-      this.mainWindow.webContents.openDevTools();
+      window.webContents.openDevTools();
     }
 
     // Atalhos de teclado globais
-    this.mainWindow.webContents.on('before-input-event', (event, input) => {
+    window.webContents.on('before-input-event', (event, input) => {
       // Ctrl+Shift+S para abrir diálogo de scanner
       if (input.control && input.shift && input.key.toLowerCase() === 's') {
-        this.scannerService.openScannerDialog(this.mainWindow!);
+        this.services.scanner.openScannerDialog(window);
       }
     });
+
+    return window;
+  }
+
+  /**
+   * Troca a janela por uma nova na partição do ambiente atual; a anterior é fechada quando a nova
+   * estiver pronta, para que o aplicativo não fique sem janelas (o que o encerraria)
+   */
+  private recreateWindow(): void {
+    const previous = this.mainWindow;
+    const window = this.createWindow(!previous || previous.isDestroyed() || previous.isVisible());
+    if (!previous || previous.isDestroyed()) return;
+
+    window.once('ready-to-show', () => {
+      if (!previous.isDestroyed()) previous.destroy();
+    });
+  }
+
+  /**
+   * Mostra a janela principal (oculta na bandeja ou minimizada), criando-a se tiver sido fechada
+   */
+  private showWindow(): void {
+    if (!app.isReady()) return;
+    if (!this.mainWindow || this.mainWindow.isDestroyed()) {
+      this.createWindow();
+      return;
+    }
+
+    if (this.mainWindow.isMinimized()) this.mainWindow.restore();
+    this.mainWindow.show();
+    this.mainWindow.focus();
+  }
+
+  /**
+   * Downloads recentes (abrir, mostrar na pasta ou cancelar), a pasta de downloads e a limpeza da lista.
+   * O menu é refeito no início e na conclusão de cada download (o progresso vai apenas para as páginas).
+   */
+  private buildDownloadsMenu(): Electron.MenuItemConstructorOptions[] {
+    const downloads = this.downloadManager.getDownloads();
+    const items: Electron.MenuItemConstructorOptions[] = downloads.map(download => ({
+      label: `${download.filename} - ${MainProcess.getDownloadStateLabel(download)}`,
+      submenu: download.state === 'progressing'
+        ? [{ label: 'Cancelar', click: () => this.downloadManager.cancel(download.id) }]
+        : [
+            {
+              label: 'Abrir',
+              enabled: download.state === 'completed',
+              click: () => {
+                this.downloadManager.open(download.id).catch(error => this.showDownloadError(error));
+              }
+            },
+            {
+              label: 'Mostrar na Pasta',
+              enabled: download.state === 'completed',
+              click: () => {
+                try {
+                  this.downloadManager.showInFolder(download.id);
+                } catch (error) {
+                  this.showDownloadError(error);
+                }
+              }
+            }
+          ]
+    }));
+
+    if (items.length === 0) {
+      items.push({ label: 'Nenhum download', enabled: false });
+    }
+
+    const directory = ConfigManager.getInstance().get('downloads').directory || app.getPath('downloads');
+    return [
+      ...items,
+      { type: 'separator' },
+      {
+        label: 'Abrir Pasta de Downloads',
+        click: () => {
+          shell.openPath(directory);
+        }
+      },
+      {
+        label: 'Limpar Lista',
+        enabled: downloads.some(download => download.state !== 'progressing'),
+        click: () => {
+          this.downloadManager.clear();
+          this.setupMenu();
+        }
+      }
+    ];
+  }
+
+  private static getDownloadStateLabel(download: DownloadInfo): string {
+    switch (download.state) {
+      case 'progressing':
+        return 'baixando';
+      case 'completed':
+        return download.error ? 'concluído com erro' : 'concluído';
+      case 'cancelled':
+        return 'cancelado';
+      default:
+        return 'interrompido';
+    }
+  }
+
+  /**
+   * Envia o evento à página que iniciou o download e à janela principal (apenas origens confiáveis);
+   * o menu é atualizado no início e na conclusão
+   */
+  private sendDownloadEvent(event: DownloadEvent, sender: WebContents): void {
+    const targets = new Set<WebContents>([sender]);
+    if (this.mainWindow && !this.mainWindow.isDestroyed()) {
+      targets.add(this.mainWindow.webContents);
+    }
+
+    for (const contents of targets) {
+      if (!contents.isDestroyed() && this.navigationPolicy.isTrusted(contents.getURL())) {
+        contents.send('download-event', event);
+      }
+    }
+
+    if (event.type !== 'progress') {
+      this.setupMenu();
+    }
+  }
+
+  private showDownloadError(error: unknown): void {
+    dialog.showMessageBox(this.mainWindow!, {
+      type: 'error',
+      title: 'Downloads',
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
+
+  /**
+   * Partição persistente do ambiente (cada ambiente mantém seus próprios logins)
+   */
+  private static getPartition(env: EnvironmentConfig): string {
+    return `persist:environment-${env.id}`;
   }
 
   private setupMenu(): void {
@@ -121,13 +587,33 @@ class MainProcess {
       {
         label: 'Arquivo',
         submenu: [
-          // {
-          //   label: 'Configurações',
-          //   click: () => {
-          //     this.openConfigDialog();
-          //   }
-          // },
-          // { type: 'separator' },
+          {
+            label: 'Configurações',
+            accelerator: 'CmdOrCtrl+,',
+            click: () => {
+              this.openConfigDialog();
+            }
+          },
+          { type: 'separator' },
+          {
+            label: 'Acessos à API Local',
+            click: () => {
+              this.manageApiTokens();
+            }
+          },
+          {
+            label: 'Instalar Certificado da API Local',
+            click: () => {
+              this.installCaCertificate();
+            }
+          },
+          {
+            label: 'Exportar Auditoria',
+            click: () => {
+              this.exportAuditLog();
+            }
+          },
+          { type: 'separator' },
           {
             label: 'Sair',
             accelerator: 'CmdOrCtrl+Q',
@@ -143,50 +629,26 @@ class MainProcess {
           {
             label: 'Configurar Scanner',
             click: () => {
-              this.scannerService.openScannerDialog(this.mainWindow!);
-            }
-          }
-          // {
-          //   label: 'Listar Impressoras',
-          //   click: () => {
-          //     this.listPrinters();
-          //   }
-          // },
-          // {
-          //   label: 'Testar Câmera',
-          //   click: () => {
-          //     this.testCamera();
-          //   }
-          // },
-          // {
-          //   label: 'Verificar USB',
-          //   click: () => {
-          //     this.checkUSBDevices();
-          //   }
-          // }
-        ]
-      },
-      {
-        label: 'Ambiente',
-        submenu: [
-          {
-            label: '🟢 Produção (intranet.grupobig.com.br)',
-            type: 'radio',
-            checked: this.currentEnvironment === 'production',
-            click: () => {
-              this.switchEnvironment('production');
+              this.services.scanner.openScannerDialog(this.mainWindow!);
             }
           },
           {
-            label: '🟡 Homologação (intraneth.grupobig.com.br)',
-            type: 'radio',
-            checked: this.currentEnvironment === 'homologation',
+            label: 'Diagnóstico',
+            accelerator: 'CmdOrCtrl+Shift+D',
             click: () => {
-              this.switchEnvironment('homologation');
+              this.diagnosticsWindow.open();
             }
           }
         ]
       },
+      {
+        label: 'Downloads',
+        submenu: this.buildDownloadsMenu()
+      },
+      {
+        label: 'Ambiente',
+        submenu: this.buildEnvironmentMenu()
+      },
       {
         label: 'Ajuda',
         submenu: [
@@ -211,154 +673,623 @@ class MainProcess {
     Menu.setApplicationMenu(menu);
   }
 
+  /**
+   * Um item por ambiente, com a cor do ambiente como ícone, e a limpeza dos dados de cada um
+   */
+  private buildEnvironmentMenu(): Electron.MenuItemConstructorOptions[] {
+    const configManager = ConfigManager.getInstance();
+    const current = configManager.getCurrentEnvironment();
+
+    const environments = configManager.getEnvironments();
+
+    return [
+      ...environments.map(env => ({
+        label: `${env.name} (${MainProcess.getHost(env.url)})`,
+        type: 'radio' as const,
+        checked: env.id === current.id,
+        icon: createColorIcon(env.color),
+        click: () => {
+          this.switchEnvironment(env.id);
+        }
+      })),
+      { type: 'separator' },
+      {
+        label: 'Limpar Dados do Ambiente',
+        submenu: environments.map(env => ({
+          label: env.name,
+          icon: createColorIcon(env.color),
+          click: () => {
+            this.clearEnvironmentData(env);
+          }
+        }))
+      }
+    ];
+  }
+
+  private static getHost(url: string): string {
+    try {
+      return new URL(url).host;
+    } catch (error) {
+      return url;
+    }
+  }
+
+  /**
+   * Exibe o nome do ambiente em uma faixa no topo da página (ambientes com showBanner)
+   */
+  private showEnvironmentBanner(): void {
+    const env = ConfigManager.getInstance().getCurrentEnvironment();
+    if (!this.mainWindow || !env.showBanner) return;
+
+    // Texto escuro em cores claras (ex.: amarelo da homologação)
+    const [red, green, blue] = [1, 3, 5].map(index => parseInt(env.color.slice(index, index + 2), 16) || 0);
+    const textColor = red * 0.299 + green * 0.587 + blue * 0.114 > 150 ? '#212529' : '#ffffff';
+
+    const script = `(() => {
+      const id = 'intranet-desktop-environment-banner';
+      if (!document.body || document.getElementById(id)) return;
+      const banner = document.createElement('div');
+      banner.id = id;
+      banner.textContent = ${JSON.stringify(env.name.toUpperCase())};
+      banner.style.cssText = ${JSON.stringify(
+        'position:fixed;top:0;left:50%;transform:translateX(-50%);z-index:2147483647;' +
+        'padding:2px 16px;border-radius:0 0 6px 6px;font:bold 12px sans-serif;letter-spacing:1px;' +
+        `pointer-events:none;box-shadow:0 1px 4px rgba(0,0,0,.3);background:${env.color};color:${textColor}`
+      )};
+      document.body.appendChild(banner);
+    })();`;
+
+    this.mainWindow.webContents.executeJavaScript(script).catch(error => {
+      console.error('Erro ao exibir faixa do ambiente:', error);
+    });
+  }
+
+  /**
+   * Registra handler IPC convertendo falhas em erros estruturados (com código). Só atende páginas
+   * de origens confiáveis (ver NavigationPolicy). Com audit, a chamada é registrada na trilha de auditoria.
+   */
+  private handleIpc(
+    channel: string,
+    handler: (event: Electron.IpcMainInvokeEvent, ...args: any[]) => Promise<any>,
+    audit?: IpcAudit
+  ): void {
+    ipcMain.handle(channel, async (event, ...args) => {
+      try {
+        // A janela pode navegar para origens apenas permitidas, que não acessam os dispositivos
+        if (!this.navigationPolicy.isTrusted(event.senderFrame?.url)) {
+          throw new Error('A página não tem acesso aos dispositivos');
+        }
+        if (!audit) {
+          return await handler(event, ...args);
+        }
+        return await AuditLog.getInstance().track(
+          this.getIpcAuditContext(event),
+          {
+            device: audit.device,
+            operation: audit.operation,
+            target: audit.target?.(...args),
+            payloadBytes: audit.payloadBytes?.(...args)
+          },
+          () => handler(event, ...args)
+        );
+      } catch (error) {
+        throw DeviceError.toIpcError(error);
+      }
+    });
+  }
+
+  /**
+   * Contexto da auditoria para chamadas IPC: a origem é a página que chamou
+   */
+  private getIpcAuditContext(event: Electron.IpcMainInvokeEvent): AuditContext {
+    try {
+      const url = event.senderFrame?.url;
+      return url ? { channel: 'ipc', origin: new URL(url).origin } : { channel: 'ipc' };
+    } catch (error) {
+      return { channel: 'ipc' };
+    }
+  }
+
+  /**
+   * Repassa os eventos dos dispositivos à janela (apenas com uma origem confiável carregada), no mesmo formato das notificações
+   * device.event da API ({ channel, event, target, data })
+   */
+  private forwardDeviceEvents(): void {
+    const send = (channel: string, payload: any) => {
+      if (this.mainWindow && !this.mainWindow.isDestroyed() && this.navigationPolicy.isTrusted(this.mainWindow.webContents.getURL())) {
+        this.mainWindow.webContents.send(channel, payload);
+      }
+    };
+
+    for (const mapping of CHANNEL_EVENTS) {
+      this.services.get(mapping.channel).on(mapping.serviceEvent, (data: any) => {
+        const target = mapping.target?.(data);
+        send('device-event', {
+          channel: mapping.channel,
+          event: mapping.socketEvent,
+          ...(target ? { target } : {}),
+          data: mapping.payload(data)
+        });
+      });
+    }
+
+    // Eventos usados por onDeviceConnected/onDeviceDisconnected do preload
+    this.services.usb.on('device-connected', (device: any) => send('device-connected', device));
+    this.services.usb.on('device-disconnected', (device: any) => send('device-disconnected', device));
+  }
+
   private setupIpcHandlers(): void {
     // Handlers para dispositivos
-    ipcMain.handle('get-printers', async () => {
-      return await this.printerService.getPrinters();
+    this.handleIpc('get-printers', async () => {
+      return await this.services.printer.getPrinters();
     });
 
-    ipcMain.handle('print-document', async (event, printData) => {
-      return await this.printerService.print(printData);
+    this.handleIpc('print-document', async (event, printData) => {
+      return await this.services.printer.print(printData);
+    }, {
+      device: 'printer',
+      operation: 'print',
+      target: printData => printData?.options?.printer,
+      payloadBytes: printData => Buffer.byteLength(String(printData?.content ?? ''))
     });
 
-    ipcMain.handle('capture-photo', async () => {
-      return await this.cameraService.capturePhoto();
-    });
+    this.handleIpc('test-printer', async (event, printerName) => {
+      return await this.services.printer.testDevice(printerName);
+    }, { device: 'printer', operation: 'test', target: printerName => printerName });
 
-    ipcMain.handle('get-cameras', async () => {
-      return await this.cameraService.getCameras();
+    this.handleIpc('capture-photo', async (event, cameraId, options) => {
+      return await this.services.camera.capturePhoto(cameraId, options);
+    }, { device: 'camera', operation: 'capture', target: cameraId => cameraId });
+
+    this.handleIpc('get-cameras', async () => {
+      return await this.services.camera.getCameras();
     });
 
-    ipcMain.handle('get-usb-devices', async () => {
-      return await this.usbService.getDevices();
+    this.handleIpc('start-camera-stream', async (event, cameraId, options) => {
+      return await this.services.camera.startVideoStream(cameraId, options);
+    }, { device: 'camera', operation: 'stream-start', target: cameraId => cameraId });
+
+    this.handleIpc('stop-camera-stream', async (event, cameraId) => {
+      await this.services.camera.stopVideoStream(cameraId);
+      return true;
+    }, { device: 'camera', operation: 'stream-stop', target: cameraId => cameraId });
+
+    this.handleIpc('get-usb-devices', async () => {
+      return await this.services.usb.getDevices();
     });
 
-    ipcMain.handle('get-serial-ports', async () => {
-      return await this.serialService.getPorts();
+    this.handleIpc('get-usb-device', async (event, deviceId) => {
+      return await this.services.usb.getDeviceDetails(deviceId);
     });
 
-    ipcMain.handle('serial-write', async (event, port, data) => {
-      return await this.serialService.write(port, data);
+    this.handleIpc('get-usb-devices-by-class', async (event, deviceClass) => {
+      return await this.services.usb.getDevicesByClass(deviceClass);
     });
 
-    ipcMain.handle('get-scanners', async () => {
-      return await this.scannerService.getScanners();
+    this.handleIpc('get-serial-ports', async () => {
+      return await this.services.serial.getPorts();
     });
 
-    ipcMain.handle('check-scanner-connection', async () => {
-      return await this.scannerService.checkScannerConnection();
+    this.handleIpc('serial-write', async (event, port, data) => {
+      return await this.services.serial.write(port, data);
+    }, {
+      device: 'serial',
+      operation: 'write',
+      target: port => port,
+      payloadBytes: (port, data) => Buffer.isBuffer(data) ? data.length : Buffer.byteLength(String(data ?? ''))
     });
 
-    ipcMain.handle('set-default-scanner', async (event, scannerId) => {
-      return await this.scannerService.setDefaultScanner(scannerId);
+    this.handleIpc('serial-open', async (event, port, options) => {
+      return await this.services.serial.openPort(port, options);
+    }, { device: 'serial', operation: 'open', target: port => port });
+
+    this.handleIpc('serial-close', async (event, port) => {
+      return await this.services.serial.closePort(port);
+    }, { device: 'serial', operation: 'close', target: port => port });
+
+    this.handleIpc('serial-read', async (event, port, timeout) => {
+      return await this.services.serial.read(port, timeout);
+    }, { device: 'serial', operation: 'read', target: port => port });
+
+    this.handleIpc('get-scanners', async () => {
+      return await this.services.scanner.getScanners();
     });
 
-    ipcMain.handle('test-scanner', async (event, scannerId) => {
-      return await this.scannerService.testScanner(scannerId);
+    this.handleIpc('check-scanner-connection', async () => {
+      return await this.services.scanner.checkScannerConnection();
     });
 
-    ipcMain.handle('scan-document', async (event, scannerId, options) => {
-      return await this.scannerService.scan(scannerId, options);
+    this.handleIpc('get-default-scanner', async () => {
+      return this.services.scanner.getDefaultScannerId();
     });
 
-    ipcMain.handle('open-scanner-dialog', async () => {
-      await this.scannerService.openScannerDialog(this.mainWindow!);
+    this.handleIpc('set-default-scanner', async (event, scannerId) => {
+      return await this.services.scanner.setDefaultScanner(scannerId);
+    }, { device: 'scanner', operation: 'set-default', target: scannerId => scannerId });
+
+    this.handleIpc('test-scanner', async (event, scannerId) => {
+      return await this.services.scanner.testScanner(scannerId);
+    }, { device: 'scanner', operation: 'test', target: scannerId => scannerId });
+
+    this.handleIpc('scan-document', async (event, scannerId, options) => {
+      return await this.services.scanner.scan(scannerId, options);
+    }, { device: 'scanner', operation: 'scan', target: scannerId => scannerId });
+
+    this.handleIpc('open-scanner-dialog', async () => {
+      await this.services.scanner.openScannerDialog(this.mainWindow!);
     });
 
-    ipcMain.handle('start-scanner', async (event, duplex) => {
-      const result = await this.scannerService.startScanning(duplex);
-      // Envia resposta de volta para o renderer
+    this.handleIpc('start-scanner', async (event, duplex) => {
+      // O resultado vai pelo evento scanner-response, por isso a auditoria fica aqui
+      const result = await AuditLog.getInstance().track(
+        this.getIpcAuditContext(event),
+        { device: 'scanner', operation: 'scan' },
+        () => this.services.scanner.startScanning(duplex)
+      );
+      // Envia resposta de volta para o renderer (e também a retorna, para quem aguarda a chamada)
       this.mainWindow?.webContents.send('scanner-response', result);
+      return result;
+    });
+
+    // Handlers de downloads
+    this.handleIpc('get-downloads', async () => {
+      return this.downloadManager.getDownloads();
+    });
+
+    this.handleIpc('open-download', async (event, id: string) => {
+      await this.downloadManager.open(id);
+    });
+
+    this.handleIpc('show-download-in-folder', async (event, id: string) => {
+      this.downloadManager.showInFolder(id);
+    });
+
+    this.handleIpc('cancel-download', async (event, id: string) => {
+      return this.downloadManager.cancel(id);
     });
 
     // Handlers gerais
-    ipcMain.handle('show-message-box', async (event, options) => {
+    this.handleIpc('show-message-box', async (event, options) => {
       const result = await dialog.showMessageBox(this.mainWindow!, options);
       return result;
     });
 
-    ipcMain.handle('show-save-dialog', async (event, options) => {
+    this.handleIpc('show-save-dialog', async (event, options) => {
       const result = await dialog.showSaveDialog(this.mainWindow!, options);
       return result;
     });
 
-    ipcMain.handle('show-open-dialog', async (event, options) => {
+    this.handleIpc('show-open-dialog', async (event, options) => {
       const result = await dialog.showOpenDialog(this.mainWindow!, options);
       return result;
     });
   }
 
-  private async openConfigDialog(): Promise<void> {
+  /**
+   * Abre a janela de configurações (ou a traz para frente, se já estiver aberta)
+   */
+  private openConfigDialog(): void {
+    if (this.settingsWindow && !this.settingsWindow.isDestroyed()) {
+      this.settingsWindow.show();
+      this.settingsWindow.focus();
+      return;
+    }
+
+    // Com a janela principal oculta na bandeja, a de configurações abre sozinha
+    const parent = this.mainWindow && !this.mainWindow.isDestroyed() && this.mainWindow.isVisible() ? this.mainWindow : undefined;
     const configWindow = new BrowserWindow({
-      width: 600,
-      height: 400,
-      parent: this.mainWindow!,
-      modal: true,
+      width: 760,
+      height: 720,
+      parent,
+      modal: !!parent,
+      title: 'Configurações',
+      autoHideMenuBar: true,
       webPreferences: {
         nodeIntegration: false,
         contextIsolation: true,
-        preload: path.join(__dirname, '../renderer/preload.js')
+        preload: path.join(__dirname, '../renderer/settings-preload.js')
       }
     });
+    this.settingsWindow = configWindow;
+    configWindow.on('closed', () => {
+      if (this.settingsWindow === configWindow) this.settingsWindow = null;
+    });
 
     configWindow.loadFile(path.join(__dirname, '../renderer/config.html'));
   }
 
-  private async listPrinters(): Promise<void> {
-    const printers = await this.printerService.getPrinters();
-    dialog.showMessageBox(this.mainWindow!, {
+  /**
+   * Registra handler IPC aceito apenas da janela de configurações (a página da intranet
+   * não pode ler nem alterar a configuração)
+   */
+  private handleSettingsIpc(channel: string, handler: (event: Electron.IpcMainInvokeEvent, ...args: any[]) => Promise<any>): void {
+    ipcMain.handle(channel, async (event, ...args) => {
+      if (!this.settingsWindow || this.settingsWindow.isDestroyed() || event.sender !== this.settingsWindow.webContents) {
+        throw new Error('Acesso negado');
+      }
+      return handler(event, ...args);
+    });
+  }
+
+  private setupSettingsIpcHandlers(): void {
+    const configManager = ConfigManager.getInstance();
+
+    this.handleSettingsIpc('settings-get-config', async () => {
+      const config = configManager.getConfig();
+      return Object.fromEntries(SETTINGS_KEYS.map(key => [key, config[key]]));
+    });
+
+    this.handleSettingsIpc('settings-save-config', async (event, changes: Partial<AppConfig>) => {
+      const update: Partial<AppConfig> = {};
+      const copy = <K extends keyof AppConfig>(key: K) => {
+        update[key] = changes[key];
+      };
+      for (const key of SETTINGS_KEYS) {
+        if (changes && key in changes) copy(key);
+      }
+
+      // O scanner padrão passa pelo serviço, que confere se ele está conectado
+      const { defaultScannerId, ...rest } = update;
+      const errors = configManager.applyConfig(rest);
+      if (errors.length > 0) {
+        return { success: false, errors };
+      }
+      if (defaultScannerId && defaultScannerId !== configManager.get('defaultScannerId') &&
+          !(await this.services.scanner.setDefaultScanner(defaultScannerId))) {
+        return { success: false, errors: [`Scanner ${defaultScannerId} não está conectado`] };
+      }
+      return { success: true };
+    });
+
+    this.handleSettingsIpc('settings-export-config', async (event) => {
+      const window = BrowserWindow.fromWebContents(event.sender)!;
+      const result = await dialog.showSaveDialog(window, {
+        title: 'Exportar Configurações',
+        defaultPath: `intranet-desktop-config-${new Date().toISOString().split('T')[0]}.json`,
+        filters: [{ name: 'JSON', extensions: ['json'] }]
+      });
+      if (result.canceled || !result.filePath) return { success: false, canceled: true };
+
+      await fs.promises.writeFile(result.filePath, configManager.exportConfig(), 'utf8');
+      return { success: true, filePath: result.filePath };
+    });
+
+    this.handleSettingsIpc('settings-import-config', async (event) => {
+      const window = BrowserWindow.fromWebContents(event.sender)!;
+      const result = await dialog.showOpenDialog(window, {
+        title: 'Importar Configurações',
+        filters: [{ name: 'JSON', extensions: ['json'] }],
+        properties: ['openFile']
+      });
+      if (result.canceled || result.filePaths.length === 0) return { success: false, canceled: true };
+
+      const content = await fs.promises.readFile(result.filePaths[0], 'utf8');
+      const errors = configManager.getImportErrors(content);
+      if (errors.length > 0 || !configManager.importConfig(content)) {
+        return { success: false, errors: errors.length > 0 ? errors : ['Não foi possível importar a configuração'] };
+      }
+      return { success: true, filePath: result.filePaths[0] };
+    });
+
+    this.handleSettingsIpc('settings-get-devices', async () => {
+      const [printers, scanners] = await Promise.all([
+        this.services.printer.getPrinters().catch(() => []),
+        this.services.scanner.getScanners().catch(() => [])
+      ]);
+      return { printers, scanners };
+    });
+  }
+
+  /**
+   * Pede ao usuário a aprovação de um pareamento solicitado por uma página web
+   */
+  private async confirmPairing(request: PairingRequest): Promise<boolean> {
+    const scopes = request.scopes.map(scope => `• ${API_SCOPE_LABELS[scope]}`).join('\n');
+    const options: Electron.MessageBoxOptions = {
+      type: 'question',
+      title: 'Solicitação de Acesso',
+      message: `${request.appName} deseja acessar os dispositivos deste computador`,
+      detail: `Origem: ${request.origin}\n\nPermissões solicitadas:\n${scopes}`,
+      buttons: ['Permitir', 'Negar'],
+      defaultId: 1,
+      cancelId: 1
+    };
+
+    const result = this.mainWindow
+      ? await dialog.showMessageBox(this.mainWindow, options)
+      : await dialog.showMessageBox(options);
+    return result.response === 0;
+  }
+
+  /**
+   * Lista os tokens de acesso emitidos e permite revogá-los
+   */
+  private async manageApiTokens(): Promise<void> {
+    const authManager = AuthManager.getInstance();
+    const tokens = authManager.listTokens();
+
+    if (tokens.length === 0) {
+      dialog.showMessageBox(this.mainWindow!, {
+        type: 'info',
+        title: 'Acessos à API Local',
+        message: 'Nenhuma página possui acesso aos dispositivos'
+      });
+      return;
+    }
+
+    const detail = tokens.map(t =>
+      `${t.appName} (${t.origin})\n  ${t.scopes.map(s => API_SCOPE_LABELS[s]).join(', ')} - expira em ${new Date(t.expiresAt).toLocaleDateString()}`
+    ).join('\n\n');
+
+    const result = await dialog.showMessageBox(this.mainWindow!, {
       type: 'info',
-      title: 'Impressoras Disponíveis',
-      message: `Encontradas ${printers.length} impressoras:\n${printers.map(p => p.name).join('\n')}`
+      title: 'Acessos à API Local',
+      message: `${tokens.length} página(s) com acesso aos dispositivos:`,
+      detail,
+      buttons: ['Fechar', 'Revogar Todos'],
+      defaultId: 0,
+      cancelId: 0
     });
+
+    if (result.response === 1) {
+      const revoked = authManager.revokeAllTokens();
+      dialog.showMessageBox(this.mainWindow!, {
+        type: 'info',
+        title: 'Acessos à API Local',
+        message: `${revoked} acesso(s) revogado(s)`
+      });
+    }
   }
 
-  private async testCamera(): Promise<void> {
+  /**
+   * Abre a CA local do HTTPS para instalação como autoridade confiável
+   */
+  private async installCaCertificate(): Promise<void> {
     try {
-      const cameras = await this.cameraService.getCameras();
-      dialog.showMessageBox(this.mainWindow!, {
+      const caPath = CertificateManager.getInstance().getCaCertificatePath();
+      const result = await dialog.showMessageBox(this.mainWindow!, {
         type: 'info',
-        title: 'Câmeras Disponíveis',
-        message: `Encontradas ${cameras.length} câmeras disponíveis`
+        title: 'Certificado da API Local',
+        message: 'Instale o certificado em "Autoridades de Certificação Raiz Confiáveis"',
+        detail: `Isso permite que páginas HTTPS acessem a API local em https://localhost sem aviso de segurança.\n\nArquivo: ${caPath}`,
+        buttons: ['Abrir Certificado', 'Mostrar na Pasta', 'Cancelar'],
+        defaultId: 0,
+        cancelId: 2
       });
+
+      if (result.response === 0) {
+        await shell.openPath(caPath);
+      } else if (result.response === 1) {
+        shell.showItemInFolder(caPath);
+      }
     } catch (error) {
       dialog.showMessageBox(this.mainWindow!, {
         type: 'error',
-        title: 'Erro na Câmera',
-        message: `Erro ao acessar câmera: ${error}`
+        title: 'Certificado da API Local',
+        message: `Erro ao gerar certificado: ${error}`
       });
     }
   }
 
-  private async checkUSBDevices(): Promise<void> {
-    const devices = await this.usbService.getDevices();
-    dialog.showMessageBox(this.mainWindow!, {
-      type: 'info',
-      title: 'Dispositivos USB',
-      message: `Encontrados ${devices.length} dispositivos USB conectados`
-    });
+  /**
+   * Exporta a trilha de auditoria (CSV ou JSON, conforme a extensão escolhida)
+   */
+  private async exportAuditLog(): Promise<void> {
+    try {
+      const date = new Date().toISOString().split('T')[0];
+      const result = await dialog.showSaveDialog(this.mainWindow!, {
+        title: 'Exportar Auditoria',
+        defaultPath: `auditoria-${date}.csv`,
+        filters: [
+          { name: 'CSV', extensions: ['csv'] },
+          { name: 'JSON', extensions: ['json'] }
+        ]
+      });
+      if (result.canceled || !result.filePath) return;
+
+      const format = result.filePath.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+      const content = AuditLog.getInstance().export({ limit: Number.MAX_SAFE_INTEGER }, format);
+      await fs.promises.writeFile(result.filePath, content, 'utf8');
+
+      dialog.showMessageBox(this.mainWindow!, {
+        type: 'info',
+        title: 'Exportar Auditoria',
+        message: 'Registros de auditoria exportados',
+        detail: result.filePath
+      });
+    } catch (error) {
+      dialog.showMessageBox(this.mainWindow!, {
+        type: 'error',
+        title: 'Exportar Auditoria',
+        message: `Erro ao exportar auditoria: ${error}`
+      });
+    }
   }
 
-  private switchEnvironment(env: 'production' | 'homologation'): void {
-    if (this.currentEnvironment === env) return;
+  /**
+   * Troca o ambiente da janela, após verificar se ele responde, e lembra a escolha
+   */
+  private async switchEnvironment(id: string): Promise<void> {
+    const configManager = ConfigManager.getInstance();
+    const env = configManager.getEnvironments().find(current => current.id === id);
+    if (!env || configManager.getCurrentEnvironment().id === id) return;
 
-    this.currentEnvironment = env;
-    const url = this.ENVIRONMENTS[env];
-    const envName = env === 'production' ? 'Produção' : 'Homologação';
+    if (!(await this.isReachable(env.url))) {
+      const result = await dialog.showMessageBox(this.mainWindow!, {
+        type: 'warning',
+        title: 'Ambiente Inacessível',
+        message: `Não foi possível acessar ${env.name}`,
+        detail: `URL: ${env.url}\n\nVerifique a conexão com a rede ou a VPN.`,
+        buttons: ['Alternar Mesmo Assim', 'Cancelar'],
+        defaultId: 1,
+        cancelId: 1
+      });
+      if (result.response !== 0) {
+        // Volta a marcação do menu para o ambiente atual
+        this.setupMenu();
+        return;
+      }
+    }
 
-    // Atualiza o menu para refletir a seleção
-    this.setupMenu();
+    // O listener de configuração atualiza o menu e abre o ambiente em uma nova janela, na partição dele
+    configManager.set('currentEnvironment', env.id);
 
-    // Carrega a nova URL
-    this.mainWindow?.loadURL(url);
+    // Mostra notificação quando a nova janela aparecer
+    const window = this.mainWindow;
+    window?.once('ready-to-show', () => {
+      dialog.showMessageBox(window, {
+        type: 'info',
+        title: 'Ambiente Alterado',
+        message: `Ambiente alterado para: ${env.name}`,
+        detail: `URL: ${env.url}`
+      });
+    });
+  }
 
-    // Mostra notificação
-    dialog.showMessageBox(this.mainWindow!, {
-      type: 'info',
-      title: 'Ambiente Alterado',
-      message: `Ambiente alterado para: ${envName}`,
-      detail: `URL: ${url}`
+  /**
+   * Apaga cookies, armazenamento local e cache da partição do ambiente (encerra os logins dele)
+   */
+  private async clearEnvironmentData(env: EnvironmentConfig): Promise<void> {
+    const result = await dialog.showMessageBox(this.mainWindow!, {
+      type: 'warning',
+      title: 'Limpar Dados do Ambiente',
+      message: `Apagar os dados de navegação de ${env.name}?`,
+      detail: 'Cookies, armazenamento local e cache deste ambiente serão removidos e será necessário entrar novamente. Os demais ambientes não são afetados.',
+      buttons: ['Limpar', 'Cancelar'],
+      defaultId: 1,
+      cancelId: 1
     });
+    if (result.response !== 0) return;
+
+    try {
+      const environmentSession = session.fromPartition(MainProcess.getPartition(env));
+      await environmentSession.clearStorageData();
+      await environmentSession.clearCache();
+      await environmentSession.clearAuthCache();
+
+      if (env.id === this.windowEnvironmentId && this.mainWindow && !this.mainWindow.isDestroyed()) {
+        this.mainWindow.loadURL(env.url);
+      }
+    } catch (error) {
+      dialog.showMessageBox(this.mainWindow!, {
+        type: 'error',
+        title: 'Limpar Dados do Ambiente',
+        message: `Erro ao limpar dados de ${env.name}: ${error}`
+      });
+    }
+  }
+
+  /**
+   * Verifica se o endereço responde (qualquer resposta HTTP, inclusive erro, indica que está acessível)
+   */
+  private async isReachable(url: string): Promise<boolean> {
+    try {
+      const response = await net.fetch(url, { method: 'HEAD', signal: AbortSignal.timeout(REACHABILITY_TIMEOUT_MS) });
+      await response.arrayBuffer().catch(() => undefined);
+      return true;
+    } catch (error) {
+      return false;
+    }
   }
 
   private showShortcuts(): void {
@@ -366,7 +1297,7 @@ class MainProcess {
       type: 'info',
       title: 'Atalhos de Teclado',
       message: 'Atalhos Disponíveis:',
-      detail: 'Ctrl+Shift+S - Abrir configurações de scanner\nCtrl+Q - Sair da aplicação'
+      detail: 'Ctrl+, - Abrir configurações\nCtrl+Shift+D - Abrir diagnóstico de dispositivos\nCtrl+Shift+S - Abrir configurações de scanner\nCtrl+Q - Sair da aplicação'
     });
   }
 
@@ -0,0 +1,26 @@
+import { contextBridge, ipcRenderer } from 'electron';
+import type { ServiceName } from '../services/ServiceRegistry';
+import type {
+  DiagnosticsSnapshot,
+  DiagnosticsTestResult,
+  DiagnosticsError,
+  DiagnosticsEvent
+} from '../main/DiagnosticsWindow';
+
+// Exposto apenas na janela de diagnóstico (a página da intranet usa o preload principal)
+contextBridge.exposeInMainWorld('diagnosticsAPI', {
+  getSnapshot: (): Promise<DiagnosticsSnapshot> => ipcRenderer.invoke('diagnostics-get-snapshot'),
+  getErrors: (): Promise<DiagnosticsError[]> => ipcRenderer.invoke('diagnostics-get-errors'),
+  getTests: (): Promise<DiagnosticsTestResult[]> => ipcRenderer.invoke('diagnostics-get-tests'),
+  testDevice: (service: ServiceName, id: string): Promise<DiagnosticsTestResult> => ipcRenderer.invoke('diagnostics-test-device', service, id),
+  testPrint: (printer: string): Promise<DiagnosticsTestResult> => ipcRenderer.invoke('diagnostics-test-print', printer),
+  testCapture: (cameraId: string): Promise<DiagnosticsTestResult> => ipcRenderer.invoke('diagnostics-test-capture', cameraId),
+  testLoopback: (portPath: string): Promise<DiagnosticsTestResult> => ipcRenderer.invoke('diagnostics-test-loopback', portPath),
+  exportReport: (): Promise<{ success: boolean; canceled?: boolean; filePath?: string }> => ipcRenderer.invoke('diagnostics-export-report'),
+  onEvent: (callback: (event: DiagnosticsEvent) => void) => {
+    ipcRenderer.on('diagnostics-event', (_event, data) => callback(data));
+  },
+  onChanged: (callback: () => void) => {
+    ipcRenderer.on('diagnostics-changed', () => callback());
+  }
+});
@@ -1,25 +1,83 @@
 import { contextBridge, ipcRenderer } from 'electron';
+import type { DeviceErrorPayload } from '../services/DeviceError';
+import type { PrinterInfo, PrintOptions } from '../services/PrinterService';
+import type { CameraInfo, CaptureOptions } from '../services/CameraService';
+import type { USBDeviceInfo } from '../services/USBService';
+import type { SerialPortInfo, SerialPortOptions } from '../services/SerialService';
+import type { ScannerInfo, ScanOptions, ScanResult, ScannerConnectionStatus } from '../services/ScannerService';
+import type { SubscriptionChannel } from '../api/SubscriptionManager';
+import type { DownloadInfo, DownloadEvent } from '../main/DownloadManager';
+
+// Mesmo prefixo de DeviceError.toIpcError (o preload roda em sandbox e não importa módulos locais)
+const IPC_ERROR_PREFIX = 'DEVICE_ERROR::';
+
+/**
+ * Invoca um handler do processo principal, rejeitando com { code, message, details } em caso de erro
+ */
+const invoke = async (channel: string, ...args: any[]): Promise<any> => {
+  try {
+    return await ipcRenderer.invoke(channel, ...args);
+  } catch (error: any) {
+    const message: string = error?.message || String(error);
+    const index = message.indexOf(IPC_ERROR_PREFIX);
+    if (index === -1) {
+      throw { code: 'INTERNAL_ERROR', message } as DeviceErrorPayload;
+    }
+    throw JSON.parse(message.slice(index + IPC_ERROR_PREFIX.length)) as DeviceErrorPayload;
+  }
+};
+
+/**
+ * Evento de dispositivo repassado pelo processo principal (mesmo formato das notificações device.event da API)
+ */
+export interface DeviceEvent {
+  channel: SubscriptionChannel;
+  event: string;
+  target?: string;
+  data: any;
+}
+
+/**
+ * Dados de impressão aceitos por printDocument
+ */
+export interface PrintData {
+  content: string;
+  type?: 'text' | 'html' | 'pdf';
+  options?: PrintOptions;
+}
 
 // Exposição segura das APIs para o renderer
 contextBridge.exposeInMainWorld('electronAPI', {
   // APIs de dispositivos
-  getPrinters: () => ipcRenderer.invoke('get-printers'),
-  printDocument: (printData: any) => ipcRenderer.invoke('print-document', printData),
+  getPrinters: () => invoke('get-printers'),
+  printDocument: (printData: PrintData) => invoke('print-document', printData),
+  testPrinter: (printerName: string) => invoke('test-printer', printerName),
   
-  capturePhoto: () => ipcRenderer.invoke('capture-photo'),
-  getCameras: () => ipcRenderer.invoke('get-cameras'),
+  capturePhoto: (cameraId?: string, options?: CaptureOptions) => invoke('capture-photo', cameraId, options),
+  getCameras: () => invoke('get-cameras'),
+  startCameraStream: (cameraId: string, options?: Partial<CaptureOptions>) => invoke('start-camera-stream', cameraId, options),
+  stopCameraStream: (cameraId: string) => invoke('stop-camera-stream', cameraId),
   
-  getUSBDevices: () => ipcRenderer.invoke('get-usb-devices'),
+  getUSBDevices: () => invoke('get-usb-devices'),
+  getUSBDevice: (deviceId: string) => invoke('get-usb-device', deviceId),
+  getUSBDevicesByClass: (deviceClass: string) => invoke('get-usb-devices-by-class', deviceClass),
   
-  getSerialPorts: () => ipcRenderer.invoke('get-serial-ports'),
-  serialWrite: (port: string, data: string) => ipcRenderer.invoke('serial-write', port, data),
+  getSerialPorts: () => invoke('get-serial-ports'),
+  serialWrite: (port: string, data: string) => invoke('serial-write', port, data),
+  serialOpen: (port: string, options?: SerialPortOptions) => invoke('serial-open', port, options),
+  serialClose: (port: string) => invoke('serial-close', port),
+  serialRead: (port: string, timeout?: number) => invoke('serial-read', port, timeout),
   
   // APIs de scanner
-  getScanners: () => ipcRenderer.invoke('get-scanners'),
-  checkScannerConnection: () => ipcRenderer.invoke('check-scanner-connection'),
-  startScanner: (duplex: boolean) => ipcRenderer.invoke('start-scanner', duplex),
-  onScannerResponse: (callback: (response: any) => void) => {
-    const handler = (event: any, response: any) => callback(response);
+  getScanners: () => invoke('get-scanners'),
+  checkScannerConnection: () => invoke('check-scanner-connection'),
+  getDefaultScanner: () => invoke('get-default-scanner'),
+  setDefaultScanner: (scannerId: string) => invoke('set-default-scanner', scannerId),
+  testScanner: (scannerId: string) => invoke('test-scanner', scannerId),
+  scanDocument: (scannerId: string, options?: ScanOptions) => invoke('scan-document', scannerId, options),
+  startScanner: (duplex: boolean) => invoke('start-scanner', duplex),
+  onScannerResponse: (callback: (response: ScanResult) => void) => {
+    const handler = (event: any, response: ScanResult) => callback(response);
     ipcRenderer.on('scanner-response', handler);
     return handler; // Retorna o handler para remoção posterior
   },
@@ -29,19 +87,46 @@ contextBridge.exposeInMainWorld('electronAPI', {
     }
   },
   
+  // APIs de downloads
+  getDownloads: () => invoke('get-downloads'),
+  openDownload: (id: string) => invoke('open-download', id),
+  showDownloadInFolder: (id: string) => invoke('show-download-in-folder', id),
+  cancelDownload: (id: string) => invoke('cancel-download', id),
+  onDownloadEvent: (callback: (downloadEvent: DownloadEvent) => void) => {
+    const handler = (event: any, downloadEvent: DownloadEvent) => callback(downloadEvent);
+    ipcRenderer.on('download-event', handler);
+    return handler; // Retorna o handler para remoção posterior
+  },
+  removeDownloadEventListener: (handler: any) => {
+    if (handler) {
+      ipcRenderer.removeListener('download-event', handler);
+    }
+  },
+
   // APIs de diálogo
-  showMessageBox: (options: any) => ipcRenderer.invoke('show-message-box', options),
-  showSaveDialog: (options: any) => ipcRenderer.invoke('show-save-dialog', options),
-  showOpenDialog: (options: any) => ipcRenderer.invoke('show-open-dialog', options),
+  showMessageBox: (options: any) => invoke('show-message-box', options),
+  showSaveDialog: (options: any) => invoke('show-save-dialog', options),
+  showOpenDialog: (options: any) => invoke('show-open-dialog', options),
   
   // Eventos
-  onDeviceConnected: (callback: (device: any) => void) => {
+  onDeviceConnected: (callback: (device: USBDeviceInfo) => void) => {
     ipcRenderer.on('device-connected', (event, device) => callback(device));
   },
   
-  onDeviceDisconnected: (callback: (device: any) => void) => {
+  onDeviceDisconnected: (callback: (device: USBDeviceInfo) => void) => {
     ipcRenderer.on('device-disconnected', (event, device) => callback(device));
   },
+
+  onDeviceEvent: (callback: (deviceEvent: DeviceEvent) => void) => {
+    const handler = (event: any, deviceEvent: DeviceEvent) => callback(deviceEvent);
+    ipcRenderer.on('device-event', handler);
+    return handler; // Retorna o handler para remoção posterior
+  },
+  removeDeviceEventListener: (handler: any) => {
+    if (handler) {
+      ipcRenderer.removeListener('device-event', handler);
+    }
+  },
   
   removeAllListeners: (channel: string) => {
     ipcRenderer.removeAllListeners(channel);
@@ -52,23 +137,43 @@ contextBridge.exposeInMainWorld('electronAPI', {
 declare global {
   interface Window {
     electronAPI: {
-      getPrinters: () => Promise<any[]>;
-      printDocument: (printData: any) => Promise<boolean>;
-      capturePhoto: () => Promise<string>;
-      getCameras: () => Promise<any[]>;
-      getUSBDevices: () => Promise<any[]>;
-      getSerialPorts: () => Promise<any[]>;
+      getPrinters: () => Promise<PrinterInfo[]>;
+      printDocument: (printData: PrintData) => Promise<boolean>;
+      testPrinter: (printerName: string) => Promise<boolean>;
+      capturePhoto: (cameraId?: string, options?: CaptureOptions) => Promise<string>;
+      getCameras: () => Promise<CameraInfo[]>;
+      startCameraStream: (cameraId: string, options?: Partial<CaptureOptions>) => Promise<string>;
+      stopCameraStream: (cameraId: string) => Promise<boolean>;
+      getUSBDevices: () => Promise<USBDeviceInfo[]>;
+      getUSBDevice: (deviceId: string) => Promise<USBDeviceInfo & Record<string, any>>;
+      getUSBDevicesByClass: (deviceClass: string) => Promise<USBDeviceInfo[]>;
+      getSerialPorts: () => Promise<SerialPortInfo[]>;
       serialWrite: (port: string, data: string) => Promise<boolean>;
-      getScanners: () => Promise<any[]>;
-      checkScannerConnection: () => Promise<{ connected: boolean; scannerName?: string; error?: string }>;
-      startScanner: (duplex: boolean) => Promise<void>;
-      onScannerResponse: (callback: (response: any) => void) => any;
+      serialOpen: (port: string, options?: SerialPortOptions) => Promise<boolean>;
+      serialClose: (port: string) => Promise<boolean>;
+      serialRead: (port: string, timeout?: number) => Promise<string>;
+      getScanners: () => Promise<ScannerInfo[]>;
+      checkScannerConnection: () => Promise<ScannerConnectionStatus>;
+      getDefaultScanner: () => Promise<string | null>;
+      setDefaultScanner: (scannerId: string) => Promise<boolean>;
+      testScanner: (scannerId: string) => Promise<boolean>;
+      scanDocument: (scannerId: string, options?: ScanOptions) => Promise<string>;
+      startScanner: (duplex: boolean) => Promise<ScanResult>;
+      onScannerResponse: (callback: (response: ScanResult) => void) => any;
       removeScannerResponseListener: (handler: any) => void;
+      getDownloads: () => Promise<DownloadInfo[]>;
+      openDownload: (id: string) => Promise<void>;
+      showDownloadInFolder: (id: string) => Promise<void>;
+      cancelDownload: (id: string) => Promise<boolean>;
+      onDownloadEvent: (callback: (downloadEvent: DownloadEvent) => void) => any;
+      removeDownloadEventListener: (handler: any) => void;
       showMessageBox: (options: any) => Promise<any>;
       showSaveDialog: (options: any) => Promise<any>;
       showOpenDialog: (options: any) => Promise<any>;
-      onDeviceConnected: (callback: (device: any) => void) => void;
-      onDeviceDisconnected: (callback: (device: any) => void) => void;
+      onDeviceConnected: (callback: (device: USBDeviceInfo) => void) => void;
+      onDeviceDisconnected: (callback: (device: USBDeviceInfo) => void) => void;
+      onDeviceEvent: (callback: (deviceEvent: DeviceEvent) => void) => any;
+      removeDeviceEventListener: (handler: any) => void;
       removeAllListeners: (channel: string) => void;
     };
   }
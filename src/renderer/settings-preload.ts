@@ -0,0 +1,31 @@
+import { contextBridge, ipcRenderer } from 'electron';
+import type { AppConfig } from '../utils/ConfigManager';
+import type { PrinterInfo } from '../services/PrinterService';
+import type { ScannerInfo } from '../services/ScannerService';
+
+/**
+ * Campos da configuração editáveis na janela de configurações (tokens e segredos ficam de fora)
+ */
+export type SettingsConfig = Pick<AppConfig,
+  'webUrl' | 'environments' | 'currentEnvironment' | 'developmentEnvironment' | 'navigation' |
+  'apiPort' | 'apiTls' | 'allowedOrigins' | 'logLevel' | 'autoStart' | 'tray' |
+  'defaultScannerId' | 'defaultPrinter' | 'deviceSettings' | 'downloads'>;
+
+/**
+ * Resultado de salvar ou importar: errors traz as mensagens da validação
+ */
+export interface SettingsResult {
+  success: boolean;
+  canceled?: boolean;
+  errors?: string[];
+  filePath?: string;
+}
+
+// Exposto apenas na janela de configurações (a página da intranet usa o preload principal)
+contextBridge.exposeInMainWorld('settingsAPI', {
+  getConfig: (): Promise<SettingsConfig> => ipcRenderer.invoke('settings-get-config'),
+  saveConfig: (config: Partial<SettingsConfig>): Promise<SettingsResult> => ipcRenderer.invoke('settings-save-config', config),
+  exportConfig: (): Promise<SettingsResult> => ipcRenderer.invoke('settings-export-config'),
+  importConfig: (): Promise<SettingsResult> => ipcRenderer.invoke('settings-import-config'),
+  getDevices: (): Promise<{ printers: PrinterInfo[]; scanners: ScannerInfo[] }> => ipcRenderer.invoke('settings-get-devices')
+});
@@ -1,8 +1,15 @@
 import { DeviceService } from './DeviceService';
+import {
+  DeviceNotFoundError,
+  DeviceUnavailableError,
+  DeviceBusyError,
+  BackendMissingError,
+  OperationFailedError
+} from './DeviceError';
 import * as fs from 'fs';
 import * as path from 'path';
 
-interface CameraInfo {
+export interface CameraInfo {
   id: string;
   name: string;
   type: 'webcam' | 'usb' | 'ip';
@@ -10,7 +17,7 @@ interface CameraInfo {
   resolution?: string[];
 }
 
-interface CaptureOptions {
+export interface CaptureOptions {
   width?: number;
   height?: number;
   quality?: number;
@@ -58,6 +65,10 @@ export class CameraService extends DeviceService {
     console.log('CameraService finalizado');
   }
 
+  protected getDeviceCount(): number {
+    return this.cameras.size;
+  }
+
   async isDeviceAvailable(cameraId: string): Promise<boolean> {
     const camera = this.cameras.get(cameraId);
     return camera ? camera.status === 'available' : false;
@@ -101,11 +112,15 @@ export class CameraService extends DeviceService {
     try {
       const camera = await this.getDeviceInfo(cameraId);
       if (!camera) {
-        throw new Error(`Câmera ${cameraId} não encontrada`);
+        throw new DeviceNotFoundError(`Câmera ${cameraId} não encontrada`, { cameraId });
+      }
+
+      if (camera.status === 'busy') {
+        throw new DeviceBusyError(`Câmera ${cameraId} está em uso`, { cameraId });
       }
 
       if (camera.status !== 'available') {
-        throw new Error(`Câmera ${cameraId} não está disponível`);
+        throw new DeviceUnavailableError(`Câmera ${cameraId} não está disponível`, { cameraId });
       }
 
       // Configurações padrão
@@ -133,6 +148,7 @@ export class CameraService extends DeviceService {
       }
     } catch (error) {
       console.error('Erro ao capturar foto:', error);
+      this.recordError(error);
       this.emit('capture-error', { cameraId, error: error instanceof Error ? error.message : String(error) });
       throw error;
     }
@@ -145,11 +161,11 @@ export class CameraService extends DeviceService {
     try {
       const camera = await this.getDeviceInfo(cameraId);
       if (!camera) {
-        throw new Error(`Câmera ${cameraId} não encontrada`);
+        throw new DeviceNotFoundError(`Câmera ${cameraId} não encontrada`, { cameraId });
       }
 
       if (this.activeCaptures.has(cameraId)) {
-        throw new Error(`Câmera ${cameraId} já está em uso`);
+        throw new DeviceBusyError(`Câmera ${cameraId} já está em uso`, { cameraId });
       }
 
       // Implementar stream usando node-webcam ou biblioteca similar
@@ -159,6 +175,7 @@ export class CameraService extends DeviceService {
       return streamUrl;
     } catch (error) {
       console.error('Erro ao iniciar stream de vídeo:', error);
+      this.recordError(error);
       this.emit('stream-error', { cameraId, error: error instanceof Error ? error.message : String(error) });
       throw error;
     }
@@ -198,10 +215,16 @@ export class CameraService extends DeviceService {
       this.cameras.clear();
 
       // Método 1: Tentar detectar webcams usando enumeração de dispositivos
-      await this.detectWebcams();
+      const webcamsDetected = await this.detectWebcams();
 
       // Método 2: Detectar câmeras USB
-      await this.detectUSBCameras();
+      const usbCamerasDetected = await this.detectUSBCameras();
+
+      const backends = webcamsDetected || usbCamerasDetected ? ['powershell'] : [];
+      if (this.isWebcamLibraryAvailable()) {
+        backends.push('node-webcam');
+      }
+      this.recordRefresh(backends);
 
       // Se nenhuma câmera foi encontrada, adicionar câmera padrão
       if (this.cameras.size === 0) {
@@ -217,13 +240,14 @@ export class CameraService extends DeviceService {
       this.emit('cameras-updated', Array.from(this.cameras.values()));
     } catch (error) {
       console.error('Erro ao detectar câmeras:', error);
+      this.recordError(error);
     }
   }
 
   /**
    * Detecta webcams usando PowerShell
    */
-  private async detectWebcams(): Promise<void> {
+  private async detectWebcams(): Promise<boolean> {
     try {
       const { execSync } = require('child_process');
       
@@ -248,15 +272,18 @@ export class CameraService extends DeviceService {
           this.cameras.set(cameraInfo.id, cameraInfo);
         }
       });
+      return true;
     } catch (error) {
       console.error('Erro ao detectar webcams:', error);
+      this.recordError(error);
+      return false;
     }
   }
 
   /**
    * Detecta câmeras USB
    */
-  private async detectUSBCameras(): Promise<void> {
+  private async detectUSBCameras(): Promise<boolean> {
     try {
       const { execSync } = require('child_process');
       
@@ -283,8 +310,23 @@ export class CameraService extends DeviceService {
           }
         });
       }
+      return true;
     } catch (error) {
       console.error('Erro ao detectar câmeras USB:', error);
+      this.recordError(error);
+      return false;
+    }
+  }
+
+  /**
+   * Verifica se a biblioteca de captura (node-webcam) está instalada
+   */
+  private isWebcamLibraryAvailable(): boolean {
+    try {
+      require.resolve('node-webcam');
+      return true;
+    } catch (error) {
+      return false;
     }
   }
 
@@ -329,7 +371,13 @@ export class CameraService extends DeviceService {
     return new Promise((resolve, reject) => {
       try {
         // Usar node-webcam ou implementação similar
-        const NodeWebcam = require('node-webcam');
+        let NodeWebcam: any;
+        try {
+          NodeWebcam = require('node-webcam');
+        } catch (error) {
+          reject(new BackendMissingError('Biblioteca node-webcam não disponível', { backend: 'node-webcam' }));
+          return;
+        }
         
         const webcamOptions = {
           width: options.width,
@@ -348,7 +396,7 @@ export class CameraService extends DeviceService {
         
         webcam.capture(options.filePath, (error: any, data: string) => {
           if (error) {
-            reject(new Error(`Erro na captura: ${error}`));
+            reject(new OperationFailedError(`Erro na captura: ${error}`, { cameraId }));
           } else {
             resolve(data || options.filePath);
           }
@@ -402,7 +450,7 @@ export class CameraService extends DeviceService {
       const mimeType = this.getMimeType(path.extname(imagePath));
       return `data:${mimeType};base64,${imageBuffer.toString('base64')}`;
     } catch (error) {
-      throw new Error(`Erro ao converter imagem para base64: ${error}`);
+      throw new OperationFailedError(`Erro ao converter imagem para base64: ${error}`);
     }
   }
 
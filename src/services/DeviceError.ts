@@ -0,0 +1,137 @@
+export type DeviceErrorCode =
+  | 'DEVICE_NOT_FOUND'
+  | 'DEVICE_UNAVAILABLE'
+  | 'DEVICE_BUSY'
+  | 'DEVICE_NOT_OPEN'
+  | 'NO_PAGES'
+  | 'TIMEOUT'
+  | 'BACKEND_MISSING'
+  | 'INVALID_ARGUMENT'
+  | 'CANCELLED'
+  | 'OPERATION_FAILED'
+  | 'INTERNAL_ERROR';
+
+/**
+ * Status HTTP correspondente a cada código de erro
+ */
+export const DEVICE_ERROR_STATUS: Record<DeviceErrorCode, number> = {
+  DEVICE_NOT_FOUND: 404,
+  DEVICE_UNAVAILABLE: 503,
+  DEVICE_BUSY: 409,
+  DEVICE_NOT_OPEN: 409,
+  NO_PAGES: 422,
+  TIMEOUT: 504,
+  BACKEND_MISSING: 501,
+  INVALID_ARGUMENT: 400,
+  CANCELLED: 409,
+  OPERATION_FAILED: 500,
+  INTERNAL_ERROR: 500
+};
+
+export interface DeviceErrorPayload {
+  code: DeviceErrorCode;
+  message: string;
+  details?: any;
+}
+
+/**
+ * Prefixo usado para transportar o erro estruturado pela mensagem do IPC
+ */
+export const IPC_ERROR_PREFIX = 'DEVICE_ERROR::';
+
+/**
+ * Erro base dos serviços de dispositivos, com código estável para o cliente
+ */
+export class DeviceError extends Error {
+  constructor(public readonly code: DeviceErrorCode, message: string, public readonly details?: any) {
+    super(message);
+    this.name = 'DeviceError';
+  }
+
+  get statusCode(): number {
+    return DEVICE_ERROR_STATUS[this.code];
+  }
+
+  toJSON(): DeviceErrorPayload {
+    return { code: this.code, message: this.message, details: this.details };
+  }
+
+  /**
+   * Converte qualquer erro em DeviceError (erros desconhecidos viram INTERNAL_ERROR)
+   */
+  static from(error: unknown): DeviceError {
+    if (error instanceof DeviceError) return error;
+    const message = error instanceof Error ? error.message : String(error);
+    return new DeviceError('INTERNAL_ERROR', message);
+  }
+
+  /**
+   * Cria um erro para rejeitar handlers do IPC preservando código e detalhes
+   */
+  static toIpcError(error: unknown): Error {
+    return new Error(IPC_ERROR_PREFIX + JSON.stringify(DeviceError.from(error).toJSON()));
+  }
+}
+
+export class DeviceNotFoundError extends DeviceError {
+  constructor(message: string, details?: any) {
+    super('DEVICE_NOT_FOUND', message, details);
+    this.name = 'DeviceNotFoundError';
+  }
+}
+
+export class DeviceUnavailableError extends DeviceError {
+  constructor(message: string, details?: any) {
+    super('DEVICE_UNAVAILABLE', message, details);
+    this.name = 'DeviceUnavailableError';
+  }
+}
+
+export class DeviceBusyError extends DeviceError {
+  constructor(message: string, details?: any) {
+    super('DEVICE_BUSY', message, details);
+    this.name = 'DeviceBusyError';
+  }
+}
+
+export class DeviceNotOpenError extends DeviceError {
+  constructor(message: string, details?: any) {
+    super('DEVICE_NOT_OPEN', message, details);
+    this.name = 'DeviceNotOpenError';
+  }
+}
+
+export class TimeoutError extends DeviceError {
+  constructor(message: string, details?: any) {
+    super('TIMEOUT', message, details);
+    this.name = 'TimeoutError';
+  }
+}
+
+export class BackendMissingError extends DeviceError {
+  constructor(message: string, details?: any) {
+    super('BACKEND_MISSING', message, details);
+    this.name = 'BackendMissingError';
+  }
+}
+
+export class InvalidArgumentError extends DeviceError {
+  constructor(message: string, details?: any) {
+    super('INVALID_ARGUMENT', message, details);
+    this.name = 'InvalidArgumentError';
+  }
+}
+
+export class OperationCancelledError extends DeviceError {
+  constructor(message: string, details?: any) {
+    super('CANCELLED', message, details);
+    this.name = 'OperationCancelledError';
+  }
+}
+
+export class OperationFailedError extends DeviceError {
+  constructor(message: string, details?: any) {
+    super('OPERATION_FAILED', message, details);
+    this.name = 'OperationFailedError';
+  }
+}
@@ -1,3 +1,18 @@
+import { Logger } from '../utils/Logger';
+
+/**
+ * Estado de saúde de um serviço de dispositivos
+ */
+export interface ServiceHealth {
+  initialized: boolean;
+  ready: boolean;
+  backends: string[];
+  deviceCount: number;
+  lastRefresh: string | null;
+  lastError: string | null;
+  lastErrorAt: string | null;
+}
+
 /**
  * Serviço base para gerenciamento de dispositivos
  * Fornece funcionalidades comuns para todos os serviços de dispositivos
@@ -5,6 +20,9 @@
 export abstract class DeviceService {
   protected isInitialized: boolean = false;
   protected eventListeners: Map<string, Function[]> = new Map();
+  protected backends: Set<string> = new Set();
+  protected lastRefresh: Date | null = null;
+  protected lastError: { message: string; at: Date } | null = null;
 
   /**
    * Inicializa o serviço
@@ -39,6 +57,20 @@ export abstract class DeviceService {
     }
   }
 
+  /**
+   * Registra listener público para eventos do serviço (ex.: assinaturas da API)
+   */
+  on(event: string, callback: Function): void {
+    this.addEventListener(event, callback);
+  }
+
+  /**
+   * Remove listener registrado com on()
+   */
+  off(event: string, callback: Function): void {
+    this.removeEventListener(event, callback);
+  }
+
   /**
    * Emite um evento para todos os listeners
    */
@@ -55,6 +87,46 @@ export abstract class DeviceService {
     }
   }
 
+  /**
+   * Estado do serviço: inicialização, backends em uso, dispositivos e último erro.
+   * O serviço está pronto quando foi inicializado e ao menos um backend respondeu.
+   */
+  getHealth(): ServiceHealth {
+    return {
+      initialized: this.isInitialized,
+      ready: this.isInitialized && this.backends.size > 0,
+      backends: Array.from(this.backends),
+      deviceCount: this.getDeviceCount(),
+      lastRefresh: this.lastRefresh ? this.lastRefresh.toISOString() : null,
+      lastError: this.lastError ? this.lastError.message : null,
+      lastErrorAt: this.lastError ? this.lastError.at.toISOString() : null
+    };
+  }
+
+  /**
+   * Registra o fim de uma atualização da lista de dispositivos e os backends que responderam
+   */
+  protected recordRefresh(backends: string[]): void {
+    this.backends = new Set(backends);
+    this.lastRefresh = new Date();
+  }
+
+  /**
+   * Registra o último erro do serviço, também no log do aplicativo (exibido no diagnóstico)
+   */
+  protected recordError(error: unknown): void {
+    this.lastError = {
+      message: error instanceof Error ? error.message : String(error),
+      at: new Date()
+    };
+    Logger.getInstance().error(this.lastError.message, undefined, this.constructor.name);
+  }
+
+  /**
+   * Quantidade de dispositivos conhecidos pelo serviço
+   */
+  protected abstract getDeviceCount(): number;
+
   /**
    * Verifica se um dispositivo está disponível
    */
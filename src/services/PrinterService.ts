@@ -1,13 +1,27 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
 import { DeviceService } from './DeviceService';
+import {
+  DeviceError,
+  DeviceNotFoundError,
+  DeviceUnavailableError,
+  InvalidArgumentError,
+  OperationCancelledError,
+  OperationFailedError,
+  BackendMissingError
+} from './DeviceError';
+import { ConfigManager } from '../utils/ConfigManager';
 
-interface PrinterInfo {
+export interface PrinterInfo {
   name: string;
   status: string;
   isDefault: boolean;
   description?: string;
 }
 
-interface PrintOptions {
+export interface PrintOptions {
   printer?: string;
   copies?: number;
   paperSize?: string;
@@ -41,6 +55,10 @@ export class PrinterService extends DeviceService {
     console.log('PrinterService finalizado');
   }
 
+  protected getDeviceCount(): number {
+    return this.printers.size;
+  }
+
   async isDeviceAvailable(printerName: string): Promise<boolean> {
     await this.refreshPrinterList();
     return this.printers.has(printerName);
@@ -77,23 +95,29 @@ export class PrinterService extends DeviceService {
   }
 
   /**
-   * Imprime um documento
+   * Imprime um documento (o sinal opcional permite cancelar a impressão em andamento)
    */
   async print(printData: {
     content: string;
     type?: 'text' | 'html' | 'pdf';
     options?: PrintOptions;
-  }): Promise<boolean> {
+  }, signal?: AbortSignal): Promise<boolean> {
+    const startedAt = Date.now();
+    const { content, type = 'text', options = {} } = printData;
+    let targetPrinter = options.printer;
+
     try {
-      const { content, type = 'text', options = {} } = printData;
+      // Sem impressora informada, usa a padrão das configurações e, sem ela, a padrão do sistema
+      if (!targetPrinter) {
+        targetPrinter = ConfigManager.getInstance().get('defaultPrinter') || undefined;
+      }
 
       // Valida se existe impressora selecionada ou padrão
-      let targetPrinter = options.printer;
       if (!targetPrinter) {
         const printers = await this.getPrinters();
         const defaultPrinter = printers.find(p => p.isDefault);
         if (!defaultPrinter) {
-          throw new Error('Nenhuma impressora padrão encontrada');
+          throw new DeviceNotFoundError('Nenhuma impressora padrão encontrada');
         }
         targetPrinter = defaultPrinter.name;
       }
@@ -101,53 +125,92 @@ export class PrinterService extends DeviceService {
       // Verifica se a impressora está disponível
       const isAvailable = await this.isDeviceAvailable(targetPrinter);
       if (!isAvailable) {
-        throw new Error(`Impressora ${targetPrinter} não está disponível`);
+        throw new DeviceUnavailableError(`Impressora ${targetPrinter} não está disponível`, { printer: targetPrinter });
       }
 
       // Implementar lógica de impressão baseada no tipo
+      let printed: boolean;
       switch (type) {
         case 'text':
-          return await this.printText(content, targetPrinter, options);
+          printed = await this.printText(content, targetPrinter, options, signal);
+          break;
         case 'html':
-          return await this.printHTML(content, targetPrinter, options);
+          printed = await this.printHTML(content, targetPrinter, options, signal);
+          break;
         case 'pdf':
-          return await this.printPDF(content, targetPrinter, options);
+          printed = await this.printPDF(content, targetPrinter, options, signal);
+          break;
         default:
-          throw new Error(`Tipo de impressão não suportado: ${type}`);
+          throw new InvalidArgumentError(`Tipo de impressão não suportado: ${type}`, { field: 'type' });
       }
+
+      this.emit('print-success', { printer: targetPrinter, content: type, durationMs: Date.now() - startedAt });
+      return printed;
     } catch (error) {
       console.error('Erro ao imprimir:', error);
-      this.emit('print-error', { error: error instanceof Error ? error.message : String(error) });
-      return false;
+      this.recordError(error);
+      this.emit('print-error', {
+        printer: targetPrinter,
+        content: type,
+        error: error instanceof Error ? error.message : String(error),
+        code: DeviceError.from(error).code,
+        durationMs: Date.now() - startedAt
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Imprime um PDF recebido em base64 pelos canais remotos, que não podem indicar arquivos da estação:
+   * o conteúdo é gravado em um .pdf temporário, removido após a impressão
+   */
+  async printPdfData(base64: string, options: PrintOptions = {}, signal?: AbortSignal): Promise<boolean> {
+    const data = Buffer.from(base64, 'base64');
+    if (data.subarray(0, 5).toString('latin1') !== '%PDF-') {
+      throw new InvalidArgumentError('content deve ser um PDF em base64', { field: 'content' });
+    }
+
+    const directory = path.join(os.tmpdir(), 'intranet-desktop', 'print');
+    await fs.promises.mkdir(directory, { recursive: true });
+    const filePath = path.join(directory, `${crypto.randomUUID()}.pdf`);
+    await fs.promises.writeFile(filePath, data);
+
+    try {
+      return await this.print({ content: filePath, type: 'pdf', options }, signal);
+    } finally {
+      fs.promises.unlink(filePath).catch(() => undefined);
     }
   }
 
   /**
    * Imprime texto simples
    */
-  private async printText(content: string, printer: string, options: PrintOptions): Promise<boolean> {
+  private async printText(content: string, printer: string, options: PrintOptions, signal?: AbortSignal): Promise<boolean> {
     return new Promise((resolve, reject) => {
       try {
         // Implementação usando bibliotecas nativas do Windows
         const { spawn } = require('child_process');
         
-        // Usar comando nativo do Windows para impressão
+        // Usar comando nativo do Windows para impressão. Texto e impressora vão por variáveis de ambiente,
+        // nunca dentro do comando (um $(...) no conteúdo seria executado)
         const printProcess = spawn('powershell', [
+          '-NoProfile',
           '-Command',
-          `"${content}" | Out-Printer -Name "${printer}"`
-        ]);
+          '$env:PRINT_CONTENT | Out-Printer -Name $env:PRINT_PRINTER'
+        ], { env: { ...process.env, PRINT_CONTENT: content, PRINT_PRINTER: printer } });
+
+        this.killOnAbort(printProcess, signal, reject);
 
         printProcess.on('close', (code: number) => {
           if (code === 0) {
-            this.emit('print-success', { printer, content: 'text' });
             resolve(true);
           } else {
-            reject(new Error(`Processo de impressão falhou com código ${code}`));
+            reject(new OperationFailedError(`Processo de impressão falhou com código ${code}`, { exitCode: code }));
           }
         });
 
         printProcess.on('error', (error: Error) => {
-          reject(error);
+          reject(this.toSpawnError(error));
         });
       } catch (error) {
         reject(error);
@@ -158,7 +221,7 @@ export class PrinterService extends DeviceService {
   /**
    * Imprime conteúdo HTML
    */
-  private async printHTML(content: string, printer: string, options: PrintOptions): Promise<boolean> {
+  private async printHTML(content: string, printer: string, options: PrintOptions, signal?: AbortSignal): Promise<boolean> {
     // Para HTML, podemos usar uma webview temporária
     const { BrowserWindow } = require('electron');
     
@@ -171,6 +234,13 @@ export class PrinterService extends DeviceService {
         }
       });
 
+      signal?.addEventListener('abort', () => {
+        if (!printWindow.isDestroyed()) {
+          printWindow.close();
+        }
+        reject(new OperationCancelledError('Impressão cancelada'));
+      }, { once: true });
+
       printWindow.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(content)}`);
 
       printWindow.webContents.once('did-finish-load', () => {
@@ -180,12 +250,13 @@ export class PrinterService extends DeviceService {
           pageSize: options.paperSize || 'A4',
           landscape: options.orientation === 'landscape'
         }, (success: boolean, failureReason?: string) => {
-          printWindow.close();
+          if (!printWindow.isDestroyed()) {
+            printWindow.close();
+          }
           if (success) {
-            this.emit('print-success', { printer, content: 'html' });
             resolve(true);
           } else {
-            reject(new Error(failureReason || 'Falha na impressão'));
+            reject(new OperationFailedError(failureReason || 'Falha na impressão'));
           }
         });
       });
@@ -195,28 +266,31 @@ export class PrinterService extends DeviceService {
   /**
    * Imprime arquivo PDF
    */
-  private async printPDF(filePath: string, printer: string, options: PrintOptions): Promise<boolean> {
+  private async printPDF(filePath: string, printer: string, options: PrintOptions, signal?: AbortSignal): Promise<boolean> {
     return new Promise((resolve, reject) => {
       try {
         const { spawn } = require('child_process');
         
-        // Usar Adobe Reader ou SumatraPDF para imprimir PDF
+        // Usar Adobe Reader ou SumatraPDF para imprimir PDF. Caminho e impressora vão por variáveis de
+        // ambiente, nunca dentro do comando (um nome de arquivo com $(...) seria executado)
         const printProcess = spawn('powershell', [
+          '-NoProfile',
           '-Command',
-          `Start-Process -FilePath "${filePath}" -ArgumentList "/t","/p","${printer}" -Wait`
-        ]);
+          'Start-Process -FilePath $env:PRINT_FILE -ArgumentList "/t","/p",$env:PRINT_PRINTER -Wait'
+        ], { env: { ...process.env, PRINT_FILE: filePath, PRINT_PRINTER: printer } });
+
+        this.killOnAbort(printProcess, signal, reject);
 
         printProcess.on('close', (code: number) => {
           if (code === 0) {
-            this.emit('print-success', { printer, content: 'pdf' });
             resolve(true);
           } else {
-            reject(new Error(`Falha na impressão do PDF com código ${code}`));
+            reject(new OperationFailedError(`Falha na impressão do PDF com código ${code}`, { exitCode: code }));
           }
         });
 
         printProcess.on('error', (error: Error) => {
-          reject(error);
+          reject(this.toSpawnError(error));
         });
       } catch (error) {
         reject(error);
@@ -224,6 +298,36 @@ export class PrinterService extends DeviceService {
     });
   }
 
+  /**
+   * Encerra o processo de impressão quando o sinal for abortado
+   */
+  private killOnAbort(printProcess: any, signal: AbortSignal | undefined, reject: (error: Error) => void): void {
+    if (!signal) return;
+
+    const abort = () => {
+      printProcess.kill();
+      reject(new OperationCancelledError('Impressão cancelada'));
+    };
+
+    if (signal.aborted) {
+      abort();
+      return;
+    }
+
+    signal.addEventListener('abort', abort, { once: true });
+    printProcess.on('close', () => signal.removeEventListener('abort', abort));
+  }
+
+  /**
+   * Converte falha ao iniciar o processo de impressão em erro estruturado
+   */
+  private toSpawnError(error: NodeJS.ErrnoException): Error {
+    if (error.code === 'ENOENT') {
+      return new BackendMissingError('PowerShell não encontrado para impressão', { backend: 'powershell' });
+    }
+    return new OperationFailedError(error.message);
+  }
+
   /**
    * Atualiza a lista de impressoras disponíveis
    */
@@ -251,9 +355,11 @@ export class PrinterService extends DeviceService {
         this.printers.set(printer.Name, printerInfo);
       });
 
+      this.recordRefresh(['powershell']);
       this.emit('printers-updated', Array.from(this.printers.values()));
     } catch (error) {
       console.error('Erro ao atualizar lista de impressoras:', error);
+      this.recordError(error);
       // Em caso de erro, tentar método alternativo
       await this.fallbackPrinterList();
     }
@@ -288,8 +394,12 @@ export class PrinterService extends DeviceService {
           }
         }
       });
+
+      this.recordRefresh(['wmi']);
     } catch (error) {
       console.error('Erro no método alternativo de listagem de impressoras:', error);
+      this.recordRefresh([]);
+      this.recordError(error);
     }
   }
 }
\ No newline at end of file
@@ -3,6 +3,8 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { ConfigManager } from '../utils/ConfigManager';
+import { DeviceService } from './DeviceService';
+import { DeviceErrorCode, DeviceUnavailableError } from './DeviceError';
 import { spawn } from 'child_process';
 import PDFDocument from 'pdfkit';
 import sharp from 'sharp';
@@ -22,32 +24,105 @@ export interface ScanOptions {
   duplex?: boolean;
 }
 
+export interface ScanResult {
+  success: boolean;
+  base64?: string;
+  pages?: number;
+  error?: string;
+  code?: DeviceErrorCode;
+}
+
+export interface ScannerConnectionStatus {
+  connected: boolean;
+  scannerName?: string;
+  error?: string;
+  code?: DeviceErrorCode;
+}
+
+export interface ScanProgress {
+  stage: 'checking' | 'scanning' | 'processing' | 'completed' | 'failed';
+  duplex: boolean;
+  message?: string;
+  // Preenchidos ao concluir: páginas e duração (completed) ou código do erro (failed)
+  pages?: number;
+  durationMs?: number;
+  code?: DeviceErrorCode;
+}
+
 /**
  * Serviço para gerenciar scanners conectados ao sistema
  */
-export class ScannerService {
+export class ScannerService extends DeviceService {
   private configManager: ConfigManager;
   private connectedScanners: Map<string, ScannerInfo> = new Map();
   private readonly TEMP_DIR = path.join(os.tmpdir(), 'intranet-desktop');
+  private readonly NAPS2_PATH = 'C:\\Program Files\\NAPS2\\NAPS2.Console.exe';
+  private scanning: boolean = false;
 
   constructor() {
+    super();
     this.configManager = ConfigManager.getInstance();
-    this.initializeService();
   }
 
   /**
    * Inicializa o serviço de scanner
    */
-  private async initializeService(): Promise<void> {
+  async initialize(): Promise<void> {
+    if (this.isInitialized) return;
+
     try {
       // Limpa arquivos temporários antigos ao iniciar
       this.cleanupOldTempFiles();
       await this.refreshScanners();
+      this.isInitialized = true;
     } catch (error) {
       console.error('Erro ao inicializar serviço de scanner:', error);
     }
   }
 
+  async cleanup(): Promise<void> {
+    this.connectedScanners.clear();
+    this.eventListeners.clear();
+    this.isInitialized = false;
+    console.log('ScannerService finalizado');
+  }
+
+  protected getDeviceCount(): number {
+    // O scanner simulado não conta como dispositivo
+    return Array.from(this.connectedScanners.keys()).filter(id => id !== 'mock-scanner-001').length;
+  }
+
+  async isDeviceAvailable(scannerId: string): Promise<boolean> {
+    const scanner = this.connectedScanners.get(scannerId);
+    return scanner ? scanner.status === 'available' : false;
+  }
+
+  async getAvailableDevices(): Promise<ScannerInfo[]> {
+    return await this.getScanners();
+  }
+
+  async getDeviceInfo(scannerId: string): Promise<ScannerInfo | null> {
+    return this.connectedScanners.get(scannerId) || null;
+  }
+
+  async testDevice(scannerId: string): Promise<boolean> {
+    return await this.testScanner(scannerId);
+  }
+
+  /**
+   * Registra listener para o progresso dos escaneamentos
+   */
+  onScanProgress(callback: (progress: ScanProgress) => void): void {
+    this.addEventListener('scan-progress', callback);
+  }
+
+  /**
+   * Remove listener de progresso dos escaneamentos
+   */
+  offScanProgress(callback: (progress: ScanProgress) => void): void {
+    this.removeEventListener('scan-progress', callback);
+  }
+
   /**
    * Limpa arquivos temporários com mais de 1 hora
    */
@@ -106,6 +181,12 @@ export class ScannerService {
       scanners.forEach(scanner => {
         this.connectedScanners.set(scanner.id, scanner);
       });
+
+      // WIA detecta os scanners; a digitalização é feita pelo NAPS2
+      this.recordRefresh([
+        ...(scanners.length > 0 ? ['wia'] : []),
+        ...(fs.existsSync(this.NAPS2_PATH) ? ['naps2'] : [])
+      ]);
       
       // Se não encontrou nenhum, adiciona um scanner simulado para testes
       if (scanners.length === 0) {
@@ -121,6 +202,7 @@ export class ScannerService {
       
     } catch (error) {
       console.error('Erro ao atualizar lista de scanners:', error);
+      this.recordError(error);
     }
   }
 
@@ -209,7 +291,7 @@ export class ScannerService {
   /**
    * Verifica se o scanner está conectado e pronto para uso
    */
-  public async checkScannerConnection(): Promise<{ connected: boolean; scannerName?: string; error?: string }> {
+  public async checkScannerConnection(): Promise<ScannerConnectionStatus> {
     return new Promise((resolve) => {
       try {
         const psScript = `
@@ -257,26 +339,26 @@ export class ScannerService {
             const scannerName = result.replace('CONNECTED:', '');
             resolve({ connected: true, scannerName });
           } else if (result === 'NO_SCANNER') {
-            resolve({ connected: false, error: 'Nenhum scanner encontrado' });
+            resolve({ connected: false, error: 'Nenhum scanner encontrado', code: 'DEVICE_NOT_FOUND' });
           } else if (result.startsWith('ERROR:')) {
-            resolve({ connected: false, error: result.replace('ERROR:', '') });
+            resolve({ connected: false, error: result.replace('ERROR:', ''), code: 'DEVICE_UNAVAILABLE' });
           } else {
-            resolve({ connected: false, error: 'Erro desconhecido' });
+            resolve({ connected: false, error: 'Erro desconhecido', code: 'OPERATION_FAILED' });
           }
         });
 
-        ps.on('error', (err) => {
-          resolve({ connected: false, error: err.message });
+        ps.on('error', (err: NodeJS.ErrnoException) => {
+          resolve({ connected: false, error: err.message, code: err.code === 'ENOENT' ? 'BACKEND_MISSING' : 'OPERATION_FAILED' });
         });
 
         // Timeout de 10 segundos
         setTimeout(() => {
           ps.kill();
-          resolve({ connected: false, error: 'Timeout ao verificar scanner' });
+          resolve({ connected: false, error: 'Timeout ao verificar scanner', code: 'TIMEOUT' });
         }, 10000);
 
       } catch (error: any) {
-        resolve({ connected: false, error: error.message });
+        resolve({ connected: false, error: error.message, code: 'OPERATION_FAILED' });
       }
     });
   }
@@ -307,7 +389,7 @@ export class ScannerService {
   /**
    * Obtém ID do scanner padrão
    */
-  private getDefaultScannerId(): string | null {
+  public getDefaultScannerId(): string | null {
     try {
       return this.configManager.get('defaultScannerId') || null;
     } catch (error) {
@@ -338,11 +420,11 @@ export class ScannerService {
   /**
    * Realiza digitalização
    */
-  public async scan(scannerId: string, options: ScanOptions = {}): Promise<string | null> {
+  public async scan(scannerId: string, options: ScanOptions = {}): Promise<string> {
     try {
       const scanner = this.connectedScanners.get(scannerId);
       if (!scanner || scanner.status !== 'available') {
-        throw new Error('Scanner não disponível');
+        throw new DeviceUnavailableError('Scanner não disponível', { scannerId });
       }
 
       // Configurações padrão
@@ -374,42 +456,76 @@ export class ScannerService {
       return filePath;
     } catch (error) {
       console.error('Erro ao digitalizar:', error);
-      return null;
+      throw error;
     }
   }
 
   /**
-   * Inicia processo de escaneamento
+   * Inicia processo de escaneamento (o sinal opcional permite cancelar o escaneamento)
    */
-  public async startScanning(duplex: boolean): Promise<{ success: boolean; base64?: string; error?: string }> {
+  public async startScanning(duplex: boolean, signal?: AbortSignal): Promise<ScanResult> {
+    // O NAPS2 não suporta dois escaneamentos simultâneos
+    if (this.scanning) {
+      return { success: false, error: 'Scanner ocupado com outro escaneamento', code: 'DEVICE_BUSY' };
+    }
+
+    this.scanning = true;
+    const startedAt = Date.now();
     try {
       // Primeiro verifica se o scanner está conectado e pronto
       console.log('Verificando conexão do scanner...');
+      this.emitProgress({ stage: 'checking', duplex });
       const connectionCheck = await this.checkScannerConnection();
       
       if (!connectionCheck.connected) {
         console.log('Scanner não conectado:', connectionCheck.error);
-        return { success: false, error: connectionCheck.error || 'Scanner não conectado' };
+        const error = connectionCheck.error || 'Scanner não conectado';
+        const code = connectionCheck.code || 'DEVICE_UNAVAILABLE';
+        this.emitProgress({ stage: 'failed', duplex, message: error, code, durationMs: Date.now() - startedAt });
+        return { success: false, error, code };
       }
       
       console.log('Scanner conectado:', connectionCheck.scannerName);
+      this.emitProgress({ stage: 'scanning', duplex, message: connectionCheck.scannerName });
+
+      if (signal?.aborted) {
+        this.emitProgress({ stage: 'failed', duplex, message: 'Escaneamento cancelado', code: 'CANCELLED', durationMs: Date.now() - startedAt });
+        return { success: false, error: 'Escaneamento cancelado', code: 'CANCELLED' };
+      }
 
       // Tenta escaneamento real
-      const realScanResult = await this.performRealScan(duplex);
+      const realScanResult = await this.performRealScan(duplex, signal);
+      const durationMs = Date.now() - startedAt;
+      this.emitProgress(realScanResult.success
+        ? { stage: 'completed', duplex, pages: realScanResult.pages, durationMs }
+        : { stage: 'failed', duplex, message: realScanResult.error, code: realScanResult.code || 'OPERATION_FAILED', durationMs });
       
       // Retorna o resultado real (sucesso ou erro)
       return realScanResult;
       
     } catch (error) {
       console.error('Erro no escaneamento:', error);
-      return { success: false, error: 'Erro durante o escaneamento' };
+      this.emitProgress({ stage: 'failed', duplex, message: 'Erro durante o escaneamento', code: 'OPERATION_FAILED', durationMs: Date.now() - startedAt });
+      return { success: false, error: 'Erro durante o escaneamento', code: 'OPERATION_FAILED' };
+    } finally {
+      this.scanning = false;
     }
   }
 
+  /**
+   * Emite evento de progresso do escaneamento
+   */
+  private emitProgress(progress: ScanProgress): void {
+    if (progress.stage === 'failed') {
+      this.recordError(progress.message || 'Erro durante o escaneamento');
+    }
+    this.emit('scan-progress', progress);
+  }
+
   /**
    * Executa escaneamento usando NAPS2 - gera PDF diretamente
    */
-  private async performRealScan(duplex: boolean): Promise<{ success: boolean; base64?: string; error?: string }> {
+  private async performRealScan(duplex: boolean, signal?: AbortSignal): Promise<ScanResult> {
     return new Promise((resolve) => {
       try {
         const timestamp = Date.now();
@@ -421,10 +537,10 @@ export class ScannerService {
         }
 
         // Caminho do NAPS2 Console
-        const naps2Path = 'C:\\Program Files\\NAPS2\\NAPS2.Console.exe';
+        const naps2Path = this.NAPS2_PATH;
         
         if (!fs.existsSync(naps2Path)) {
-          resolve({ success: false, error: 'NAPS2 não encontrado. Por favor, instale o NAPS2.' });
+          resolve({ success: false, error: 'NAPS2 não encontrado. Por favor, instale o NAPS2.', code: 'BACKEND_MISSING' });
           return;
         }
 
@@ -451,6 +567,7 @@ export class ScannerService {
         naps2.stdout.on('data', (data) => {
           stdout += data.toString();
           console.log('NAPS2:', data.toString().trim());
+          this.emitProgress({ stage: 'scanning', duplex, message: data.toString().trim() });
         });
 
         naps2.stderr.on('data', (data) => {
@@ -462,6 +579,7 @@ export class ScannerService {
           console.log('NAPS2 finalizado com código:', code);
           
           if (code === 0 && fs.existsSync(outputPath)) {
+            this.emitProgress({ stage: 'processing', duplex });
             try {
               // Lê o PDF gerado pelo NAPS2 e converte para base64
               const pdfBuffer = fs.readFileSync(outputPath);
@@ -471,47 +589,64 @@ export class ScannerService {
               fs.unlinkSync(outputPath);
               
               console.log('PDF gerado com sucesso, tamanho:', pdfBuffer.length, 'bytes');
-              resolve({ success: true, base64 });
+              resolve({ success: true, base64, pages: this.countPdfPages(pdfBuffer) });
               
             } catch (error) {
               console.error('Erro ao ler PDF:', error);
-              resolve({ success: false, error: 'Erro ao ler arquivo PDF gerado' });
+              resolve({ success: false, error: 'Erro ao ler arquivo PDF gerado', code: 'OPERATION_FAILED' });
             }
           } else {
             let errorMsg = 'Erro ao escanear documento';
+            let code: DeviceErrorCode = 'OPERATION_FAILED';
             
             if (stderr.includes('No scanning device')) {
               errorMsg = 'Scanner não encontrado. Verifique se está conectado e ligado.';
+              code = 'DEVICE_NOT_FOUND';
             } else if (stderr.includes('No pages')) {
               errorMsg = 'Nenhuma página foi escaneada. Coloque um documento no scanner.';
+              code = 'NO_PAGES';
             } else if (stderr) {
               errorMsg = stderr.trim();
             } else if (stdout.includes('Error')) {
               errorMsg = stdout.trim();
             }
             
-            resolve({ success: false, error: errorMsg });
+            resolve({ success: false, error: errorMsg, code });
           }
         });
 
         naps2.on('error', (error) => {
           console.error('Erro ao executar NAPS2:', error);
-          resolve({ success: false, error: `Erro ao executar NAPS2: ${error.message}` });
+          resolve({ success: false, error: `Erro ao executar NAPS2: ${error.message}`, code: 'BACKEND_MISSING' });
         });
 
         // Timeout de 2 minutos para scan
-        setTimeout(() => {
+        const timeoutHandle = setTimeout(() => {
           naps2.kill();
-          resolve({ success: false, error: 'Timeout: escaneamento demorou muito' });
+          resolve({ success: false, error: 'Timeout: escaneamento demorou muito', code: 'TIMEOUT' });
         }, 120000);
 
+        // Cancelamento solicitado pelo chamador
+        signal?.addEventListener('abort', () => {
+          clearTimeout(timeoutHandle);
+          naps2.kill();
+          resolve({ success: false, error: 'Escaneamento cancelado', code: 'CANCELLED' });
+        }, { once: true });
+
       } catch (error: any) {
         console.error('Erro geral no scan:', error);
-        resolve({ success: false, error: `Erro: ${error.message}` });
+        resolve({ success: false, error: `Erro: ${error.message}`, code: 'OPERATION_FAILED' });
       }
     });
   }
 
+  /**
+   * Conta as páginas de um PDF pelos objetos /Type /Page (sem o /Pages da árvore)
+   */
+  private countPdfPages(pdfBuffer: Buffer): number {
+    return (pdfBuffer.toString('latin1').match(/\/Type\s*\/Page(?![a-zA-Z])/g) || []).length;
+  }
+
   /**
    * Cria PDF a partir de imagens escaneadas
    */
@@ -1,6 +1,16 @@
 import { DeviceService } from './DeviceService';
-
-interface SerialPortInfo {
+import {
+  DeviceNotFoundError,
+  DeviceUnavailableError,
+  DeviceBusyError,
+  DeviceNotOpenError,
+  TimeoutError,
+  BackendMissingError,
+  OperationFailedError,
+  OperationCancelledError
+} from './DeviceError';
+
+export interface SerialPortInfo {
   path: string;
   manufacturer?: string;
   serialNumber?: string;
@@ -12,7 +22,7 @@ interface SerialPortInfo {
   status: 'available' | 'busy' | 'error';
 }
 
-interface SerialPortOptions {
+export interface SerialPortOptions {
   baudRate?: number;
   dataBits?: 5 | 6 | 7 | 8;
   stopBits?: 1 | 1.5 | 2;
@@ -30,6 +40,7 @@ interface SerialPortOptions {
 export class SerialService extends DeviceService {
   private ports: Map<string, SerialPortInfo> = new Map();
   private openConnections: Map<string, any> = new Map();
+  private dataListeners: Map<string, ((data: Buffer) => void)[]> = new Map();
 
   async initialize(): Promise<void> {
     if (this.isInitialized) return;
@@ -57,12 +68,17 @@ export class SerialService extends DeviceService {
     }
 
     this.openConnections.clear();
+    this.dataListeners.clear();
     this.ports.clear();
     this.eventListeners.clear();
     this.isInitialized = false;
     console.log('SerialService finalizado');
   }
 
+  protected getDeviceCount(): number {
+    return this.ports.size;
+  }
+
   async isDeviceAvailable(portPath: string): Promise<boolean> {
     const port = this.ports.get(portPath);
     return port ? port.status === 'available' : false;
@@ -100,16 +116,20 @@ export class SerialService extends DeviceService {
   async openPort(portPath: string, options: SerialPortOptions = {}): Promise<boolean> {
     try {
       if (this.openConnections.has(portPath)) {
-        throw new Error(`Porta ${portPath} já está aberta`);
+        throw new DeviceBusyError(`Porta ${portPath} já está aberta`, { portPath });
       }
 
       const port = await this.getDeviceInfo(portPath);
       if (!port) {
-        throw new Error(`Porta ${portPath} não encontrada`);
+        throw new DeviceNotFoundError(`Porta ${portPath} não encontrada`, { portPath });
+      }
+
+      if (port.status === 'busy') {
+        throw new DeviceBusyError(`Porta ${portPath} está em uso`, { portPath });
       }
 
       if (port.status !== 'available') {
-        throw new Error(`Porta ${portPath} não está disponível`);
+        throw new DeviceUnavailableError(`Porta ${portPath} não está disponível`, { portPath });
       }
 
       // Configurações padrão
@@ -129,6 +149,11 @@ export class SerialService extends DeviceService {
       const connection = await this.createSerialConnection(portPath, serialOptions);
       this.openConnections.set(portPath, connection);
 
+      // Repassa os dados recebidos como evento do serviço (assinaturas da API)
+      connection.on('data', (data: Buffer) => {
+        this.emit('port-data', { portPath, data: data.toString(), bytes: data.length });
+      });
+
       // Atualizar status da porta
       port.status = 'busy';
       
@@ -136,8 +161,9 @@ export class SerialService extends DeviceService {
       return true;
     } catch (error) {
       console.error(`Erro ao abrir porta ${portPath}:`, error);
+      this.recordError(error);
       this.emit('port-error', { portPath, error: error instanceof Error ? error.message : String(error) });
-      return false;
+      throw error;
     }
   }
 
@@ -153,6 +179,7 @@ export class SerialService extends DeviceService {
 
       await this.closeSerialConnection(connection);
       this.openConnections.delete(portPath);
+      this.dataListeners.delete(portPath);
 
       // Atualizar status da porta
       const port = this.ports.get(portPath);
@@ -164,7 +191,7 @@ export class SerialService extends DeviceService {
       return true;
     } catch (error) {
       console.error(`Erro ao fechar porta ${portPath}:`, error);
-      return false;
+      throw new OperationFailedError(`Erro ao fechar porta ${portPath}: ${error instanceof Error ? error.message : String(error)}`, { portPath });
     }
   }
 
@@ -175,7 +202,7 @@ export class SerialService extends DeviceService {
     try {
       const connection = this.openConnections.get(portPath);
       if (!connection) {
-        throw new Error(`Porta ${portPath} não está aberta`);
+        throw new DeviceNotOpenError(`Porta ${portPath} não está aberta`, { portPath });
       }
 
       await this.writeToConnection(connection, data);
@@ -184,21 +211,64 @@ export class SerialService extends DeviceService {
     } catch (error) {
       console.error(`Erro ao escrever na porta ${portPath}:`, error);
       this.emit('write-error', { portPath, error: error instanceof Error ? error.message : String(error) });
-      return false;
+      throw error;
+    }
+  }
+
+  /**
+   * Abre a gaveta de dinheiro ligada à impressora da porta (pulso ESC p do ESC/POS; gaveta 1 ou 2
+   * conforme o conector). Se a porta estiver fechada, ela é aberta apenas para o comando.
+   */
+  async openCashDrawer(portPath: string, drawer: 1 | 2 = 1): Promise<boolean> {
+    const wasOpen = this.openConnections.has(portPath);
+    if (!wasOpen) {
+      await this.openPort(portPath);
+    }
+
+    try {
+      return await this.write(portPath, Buffer.from([0x1b, 0x70, drawer - 1, 0x19, 0xfa]));
+    } finally {
+      if (!wasOpen) {
+        await this.closePort(portPath).catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * Teste de loopback (TX ligado ao RX): envia uma sequência aleatória e confere se ela volta
+   * dentro do tempo limite. Se a porta estiver fechada, ela é aberta apenas para o teste.
+   */
+  async testLoopback(portPath: string, timeout: number = 2000): Promise<boolean> {
+    const wasOpen = this.openConnections.has(portPath);
+    if (!wasOpen) {
+      await this.openPort(portPath);
+    }
+
+    try {
+      const connection = this.openConnections.get(portPath);
+      const token = `LOOPBACK-${Math.random().toString(36).slice(2, 10)}`;
+      // O listener é registrado antes da escrita para não perder o eco
+      const echoed = this.waitForText(connection, token, timeout);
+      await this.write(portPath, token);
+      return await echoed;
+    } finally {
+      if (!wasOpen) {
+        await this.closePort(portPath).catch(() => undefined);
+      }
     }
   }
 
   /**
-   * Lê dados da porta serial
+   * Lê dados da porta serial (o sinal opcional permite cancelar a leitura em andamento)
    */
-  async read(portPath: string, timeout: number = 5000): Promise<string> {
+  async read(portPath: string, timeout: number = 5000, signal?: AbortSignal): Promise<string> {
     try {
       const connection = this.openConnections.get(portPath);
       if (!connection) {
-        throw new Error(`Porta ${portPath} não está aberta`);
+        throw new DeviceNotOpenError(`Porta ${portPath} não está aberta`, { portPath });
       }
 
-      const data = await this.readFromConnection(connection, timeout);
+      const data = await this.readFromConnection(connection, timeout, signal);
       this.emit('data-received', { portPath, data });
       return data;
     } catch (error) {
@@ -214,11 +284,12 @@ export class SerialService extends DeviceService {
   async onData(portPath: string, callback: (data: string) => void): Promise<void> {
     const connection = this.openConnections.get(portPath);
     if (!connection) {
-      throw new Error(`Porta ${portPath} não está aberta`);
+      throw new DeviceNotOpenError(`Porta ${portPath} não está aberta`, { portPath });
     }
 
     // Configurar listener na conexão
-    this.setupDataListener(connection, callback);
+    const listener = this.setupDataListener(connection, callback);
+    this.dataListeners.set(portPath, [...(this.dataListeners.get(portPath) || []), listener]);
   }
 
   /**
@@ -227,8 +298,9 @@ export class SerialService extends DeviceService {
   async removeDataListener(portPath: string): Promise<void> {
     const connection = this.openConnections.get(portPath);
     if (connection) {
-      this.removeDataListenerFromConnection(connection);
+      this.removeDataListenerFromConnection(connection, this.dataListeners.get(portPath) || []);
     }
+    this.dataListeners.delete(portPath);
   }
 
   /**
@@ -239,21 +311,27 @@ export class SerialService extends DeviceService {
       this.ports.clear();
 
       // Método 1: Usar PowerShell para listar portas COM
-      await this.scanWithPowerShell();
+      const powerShellAvailable = await this.scanWithPowerShell();
 
       // Método 2: Tentar usar biblioteca serialport
-      await this.scanWithSerialPortLibrary();
+      const libraryAvailable = await this.scanWithSerialPortLibrary();
+
+      this.recordRefresh([
+        ...(powerShellAvailable ? ['powershell'] : []),
+        ...(libraryAvailable ? ['serialport'] : [])
+      ]);
 
       this.emit('ports-updated', Array.from(this.ports.values()));
     } catch (error) {
       console.error('Erro ao escanear portas seriais:', error);
+      this.recordError(error);
     }
   }
 
   /**
    * Escaneia usando PowerShell
    */
-  private async scanWithPowerShell(): Promise<void> {
+  private async scanWithPowerShell(): Promise<boolean> {
     try {
       const { execSync } = require('child_process');
       
@@ -275,15 +353,18 @@ export class SerialService extends DeviceService {
           }
         });
       }
+      return true;
     } catch (error) {
       console.error('Erro no escaneamento PowerShell:', error);
+      this.recordError(error);
+      return false;
     }
   }
 
   /**
    * Tenta usar biblioteca serialport
    */
-  private async scanWithSerialPortLibrary(): Promise<void> {
+  private async scanWithSerialPortLibrary(): Promise<boolean> {
     try {
       const { SerialPort } = require('serialport');
       
@@ -306,8 +387,10 @@ export class SerialService extends DeviceService {
           this.ports.set(port.path, portInfo);
         }
       });
+      return true;
     } catch (error) {
       console.log('Biblioteca serialport não disponível, usando apenas PowerShell');
+      return false;
     }
   }
 
@@ -379,7 +462,13 @@ export class SerialService extends DeviceService {
   private async createSerialConnection(portPath: string, options: any): Promise<any> {
     return new Promise((resolve, reject) => {
       try {
-        const { SerialPort } = require('serialport');
+        let SerialPort: any;
+        try {
+          SerialPort = require('serialport').SerialPort;
+        } catch (error) {
+          reject(new BackendMissingError('Biblioteca serialport não disponível', { backend: 'serialport' }));
+          return;
+        }
         
         const port = new SerialPort(options);
 
@@ -390,7 +479,7 @@ export class SerialService extends DeviceService {
 
         port.on('error', (error: any) => {
           console.error(`Erro na porta ${portPath}:`, error);
-          reject(error);
+          reject(new OperationFailedError(`Erro na porta ${portPath}: ${error?.message || error}`, { portPath }));
         });
       } catch (error) {
         reject(error);
@@ -424,7 +513,7 @@ export class SerialService extends DeviceService {
     return new Promise((resolve, reject) => {
       connection.write(data, (error: any) => {
         if (error) {
-          reject(error);
+          reject(new OperationFailedError(`Erro ao escrever na porta: ${error.message || error}`));
         } else {
           resolve();
         }
@@ -435,13 +524,25 @@ export class SerialService extends DeviceService {
   /**
    * Lê dados da conexão
    */
-  private async readFromConnection(connection: any, timeout: number): Promise<string> {
+  private async readFromConnection(connection: any, timeout: number, signal?: AbortSignal): Promise<string> {
     return new Promise((resolve, reject) => {
       let buffer = '';
-      
+
+      if (signal?.aborted) {
+        reject(new OperationCancelledError('Leitura cancelada'));
+        return;
+      }
+
+      const onAbort = () => {
+        clearTimeout(timeoutHandle);
+        connection.removeListener('data', dataHandler);
+        reject(new OperationCancelledError('Leitura cancelada'));
+      };
+
       const timeoutHandle = setTimeout(() => {
         connection.removeListener('data', dataHandler);
-        reject(new Error('Timeout na leitura'));
+        signal?.removeEventListener('abort', onAbort);
+        reject(new TimeoutError('Timeout na leitura', { timeout }));
       }, timeout);
 
       const dataHandler = (data: Buffer) => {
@@ -450,9 +551,36 @@ export class SerialService extends DeviceService {
         // Você pode modificar para aguardar um terminador específico
         clearTimeout(timeoutHandle);
         connection.removeListener('data', dataHandler);
+        signal?.removeEventListener('abort', onAbort);
         resolve(buffer);
       };
 
+      connection.on('data', dataHandler);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Aguarda o texto nos dados recebidos (os dados podem chegar em partes); false no tempo limite
+   */
+  private waitForText(connection: any, text: string, timeout: number): Promise<boolean> {
+    return new Promise((resolve) => {
+      let buffer = '';
+
+      const timeoutHandle = setTimeout(() => {
+        connection.removeListener('data', dataHandler);
+        resolve(false);
+      }, timeout);
+
+      const dataHandler = (data: Buffer) => {
+        buffer += data.toString();
+        if (buffer.includes(text)) {
+          clearTimeout(timeoutHandle);
+          connection.removeListener('data', dataHandler);
+          resolve(true);
+        }
+      };
+
       connection.on('data', dataHandler);
     });
   }
@@ -460,16 +588,19 @@ export class SerialService extends DeviceService {
   /**
    * Configura listener de dados
    */
-  private setupDataListener(connection: any, callback: (data: string) => void): void {
-    connection.on('data', (data: Buffer) => {
+  private setupDataListener(connection: any, callback: (data: string) => void): (data: Buffer) => void {
+    const listener = (data: Buffer) => {
       callback(data.toString());
-    });
+    };
+    connection.on('data', listener);
+    return listener;
   }
 
   /**
    * Remove listener de dados
    */
-  private removeDataListenerFromConnection(connection: any): void {
-    connection.removeAllListeners('data');
+  private removeDataListenerFromConnection(connection: any, listeners: ((data: Buffer) => void)[]): void {
+    // Remove apenas os listeners de onData (mantém leituras pendentes e o evento port-data)
+    listeners.forEach(listener => connection.removeListener('data', listener));
   }
 }
\ No newline at end of file
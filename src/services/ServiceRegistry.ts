@@ -0,0 +1,188 @@
+import { DeviceService, ServiceHealth } from './DeviceService';
+import { PrinterService } from './PrinterService';
+import { CameraService } from './CameraService';
+import { USBService } from './USBService';
+import { SerialService } from './SerialService';
+import { ScannerService } from './ScannerService';
+import { ConfigManager, AppConfig } from '../utils/ConfigManager';
+
+export type ServiceName = 'printer' | 'camera' | 'usb' | 'serial' | 'scanner';
+
+/**
+ * Opção de deviceSettings que habilita cada serviço (o scanner não pode ser desabilitado)
+ */
+const SERVICE_SETTINGS: Partial<Record<ServiceName, keyof AppConfig['deviceSettings']>> = {
+  printer: 'enablePrinter',
+  camera: 'enableCamera',
+  usb: 'enableUSB',
+  serial: 'enableSerial'
+};
+
+export interface ServiceState {
+  name: ServiceName;
+  // Falso quando desabilitado em deviceSettings (vale a configuração da última inicialização)
+  enabled: boolean;
+  initialized: boolean;
+  error?: string;
+}
+
+export interface ServiceHealthReport extends ServiceHealth {
+  name: ServiceName;
+  enabled: boolean;
+}
+
+export interface HealthReport {
+  status: 'OK' | 'DEGRADED' | 'DOWN';
+  // Prontidão dos serviços pedidos (ou de todos os habilitados)
+  ready: boolean;
+  // Prontidão de cada serviço (ex.: capabilities.printer antes de exibir o botão de impressão)
+  capabilities: Record<ServiceName, boolean>;
+  timestamp: string;
+  services: ServiceHealthReport[];
+}
+
+/**
+ * Registro dos serviços de dispositivos.
+ * Mantém uma única instância de cada serviço, compartilhada entre os handlers IPC e a API,
+ * e controla a ordem de inicialização e finalização.
+ */
+export class ServiceRegistry {
+  readonly printer: PrinterService;
+  readonly camera: CameraService;
+  readonly usb: USBService;
+  readonly serial: SerialService;
+  readonly scanner: ScannerService;
+
+  private states: Map<ServiceName, ServiceState> = new Map();
+  private initializing: Promise<void> | null = null;
+
+  constructor() {
+    this.printer = new PrinterService();
+    this.camera = new CameraService();
+    this.usb = new USBService();
+    this.serial = new SerialService();
+    this.scanner = new ScannerService();
+
+    for (const name of this.getNames()) {
+      this.states.set(name, { name, enabled: true, initialized: false });
+    }
+  }
+
+  /**
+   * Obtém um serviço pelo nome
+   */
+  get(name: ServiceName): DeviceService {
+    return this[name];
+  }
+
+  /**
+   * Nomes dos serviços na ordem de inicialização
+   */
+  getNames(): ServiceName[] {
+    return ['printer', 'camera', 'usb', 'serial', 'scanner'];
+  }
+
+  /**
+   * Inicializa os serviços em ordem. A falha de um serviço (ex.: biblioteca opcional ausente)
+   * é registrada no seu estado e não impede a inicialização dos demais.
+   */
+  initializeAll(): Promise<void> {
+    if (!this.initializing) {
+      this.initializing = this.runInitialize();
+    }
+    return this.initializing;
+  }
+
+  /**
+   * Finaliza os serviços na ordem inversa da inicialização
+   */
+  async cleanupAll(): Promise<void> {
+    if (this.initializing) {
+      await this.initializing;
+    }
+
+    for (const name of [...this.getNames()].reverse()) {
+      try {
+        await this.get(name).cleanup();
+      } catch (error) {
+        console.error(`Erro ao finalizar serviço ${name}:`, error);
+      }
+      this.states.set(name, { ...this.states.get(name)!, initialized: false, error: undefined });
+    }
+
+    this.initializing = null;
+    console.log('Todos os serviços finalizados');
+  }
+
+  /**
+   * Estado de inicialização de cada serviço
+   */
+  getStates(): ServiceState[] {
+    return this.getNames().map(name => ({ ...this.states.get(name)! }));
+  }
+
+  /**
+   * Saúde de cada serviço. Os serviços desabilitados não contam para o estado: com todos os habilitados
+   * prontos o estado é OK, com parte deles indisponível, DEGRADED. ready considera os serviços pedidos
+   * (ex.: apenas printer e scanner) ou, sem eles, todos os habilitados.
+   */
+  getHealth(required?: ServiceName[]): HealthReport {
+    const services = this.getNames().map(name => {
+      const health = this.get(name).getHealth();
+      const state = this.states.get(name)!;
+      return {
+        name,
+        enabled: state.enabled,
+        ...health,
+        // Sem erro registrado pelo serviço, usa o erro da inicialização
+        lastError: health.lastError || state.error || null
+      };
+    });
+
+    const enabled = services.filter(service => service.enabled);
+    const readyCount = enabled.filter(service => service.ready).length;
+    const capabilities = Object.fromEntries(services.map(service => [service.name, service.ready])) as Record<ServiceName, boolean>;
+    const requiredNames = required?.length ? required : enabled.map(service => service.name);
+
+    return {
+      status: readyCount === enabled.length ? 'OK' : readyCount > 0 ? 'DEGRADED' : 'DOWN',
+      ready: requiredNames.every(name => capabilities[name]),
+      capabilities,
+      timestamp: new Date().toISOString(),
+      services
+    };
+  }
+
+  private async runInitialize(): Promise<void> {
+    const deviceSettings = ConfigManager.getInstance().get('deviceSettings');
+
+    for (const name of this.getNames()) {
+      // Serviços desabilitados não são inicializados (sem enumeração nem monitoramento)
+      const setting = SERVICE_SETTINGS[name];
+      if (setting && deviceSettings?.[setting] === false) {
+        this.states.set(name, { name, enabled: false, initialized: false, error: 'Desabilitado nas configurações' });
+        continue;
+      }
+
+      try {
+        await this.get(name).initialize();
+        this.states.set(name, { name, enabled: true, initialized: true });
+      } catch (error) {
+        console.error(`Erro ao inicializar serviço ${name}:`, error);
+        this.states.set(name, {
+          name,
+          enabled: true,
+          initialized: false,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    const failed = this.getStates().filter(state => state.enabled && !state.initialized);
+    if (failed.length === 0) {
+      console.log('Todos os serviços inicializados com sucesso');
+    } else {
+      console.warn(`Serviços não inicializados: ${failed.map(state => state.name).join(', ')}`);
+    }
+  }
+}
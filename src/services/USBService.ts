@@ -1,6 +1,7 @@
 import { DeviceService } from './DeviceService';
+import { DeviceNotFoundError } from './DeviceError';
 
-interface USBDeviceInfo {
+export interface USBDeviceInfo {
   deviceId: string;
   vendorId: string;
   productId: string;
@@ -45,6 +46,10 @@ export class USBService extends DeviceService {
     console.log('USBService finalizado');
   }
 
+  protected getDeviceCount(): number {
+    return Array.from(this.devices.values()).filter(device => device.status === 'connected').length;
+  }
+
   async isDeviceAvailable(deviceId: string): Promise<boolean> {
     const device = this.devices.get(deviceId);
     return device ? device.status === 'connected' : false;
@@ -83,7 +88,7 @@ export class USBService extends DeviceService {
     try {
       const device = await this.getDeviceInfo(deviceId);
       if (!device) {
-        throw new Error(`Dispositivo ${deviceId} não encontrado`);
+        throw new DeviceNotFoundError(`Dispositivo ${deviceId} não encontrado`, { deviceId });
       }
 
       // Obter informações detalhadas usando WMI
@@ -130,10 +135,15 @@ export class USBService extends DeviceService {
       const foundDevices = new Set<string>();
 
       // Método 1: Usar PowerShell/WMI
-      await this.scanWithWMI(foundDevices);
+      const wmiAvailable = await this.scanWithWMI(foundDevices);
 
       // Método 2: Tentar usar biblioteca usb (se disponível)
-      await this.scanWithUSBLibrary(foundDevices);
+      const libraryAvailable = await this.scanWithUSBLibrary(foundDevices);
+
+      this.recordRefresh([
+        ...(wmiAvailable ? ['powershell'] : []),
+        ...(libraryAvailable ? ['usb'] : [])
+      ]);
 
       // Verificar dispositivos desconectados
       for (const [deviceId, device] of currentDevices) {
@@ -146,13 +156,14 @@ export class USBService extends DeviceService {
       this.emit('devices-updated', Array.from(this.devices.values()));
     } catch (error) {
       console.error('Erro ao escanear dispositivos USB:', error);
+      this.recordError(error);
     }
   }
 
   /**
    * Escaneia usando WMI (Windows Management Instrumentation)
    */
-  private async scanWithWMI(foundDevices: Set<string>): Promise<void> {
+  private async scanWithWMI(foundDevices: Set<string>): Promise<boolean> {
     try {
       const { execSync } = require('child_process');
       
@@ -179,31 +190,38 @@ export class USBService extends DeviceService {
       if (output.trim()) {
         const devicesData = JSON.parse(output);
         const devicesList = Array.isArray(devicesData) ? devicesData : [devicesData];
+        // Dispositivos antes das suas interfaces (MI_xx), que são ignoradas quando o dispositivo já foi encontrado
+        devicesList.sort((a: any, b: any) => Number(/&MI_/i.test(a?.DeviceID || '')) - Number(/&MI_/i.test(b?.DeviceID || '')));
 
         devicesList.forEach((deviceData: any) => {
           if (deviceData && deviceData.DeviceID) {
             const deviceInfo = this.parseWMIDevice(deviceData);
-            if (deviceInfo) {
+            // Interfaces de um mesmo dispositivo composto aparecem como entradas separadas no WMI
+            if (deviceInfo && !(/&MI_/i.test(deviceInfo.deviceId) && this.isAlreadyFound(deviceInfo, foundDevices))) {
+              // Verificar se é um novo dispositivo (ou reconectado) antes de atualizar o mapa
+              const previous = this.devices.get(deviceInfo.deviceId);
               this.devices.set(deviceInfo.deviceId, deviceInfo);
               foundDevices.add(deviceInfo.deviceId);
-              
-              // Verificar se é um novo dispositivo
-              if (!this.devices.has(deviceInfo.deviceId)) {
+
+              if (!previous || previous.status === 'disconnected') {
                 this.emit('device-connected', deviceInfo);
               }
             }
           }
         });
       }
+      return true;
     } catch (error) {
       console.error('Erro no escaneamento WMI:', error);
+      this.recordError(error);
+      return false;
     }
   }
 
   /**
    * Tenta usar biblioteca USB nativa
    */
-  private async scanWithUSBLibrary(foundDevices: Set<string>): Promise<void> {
+  private async scanWithUSBLibrary(foundDevices: Set<string>): Promise<boolean> {
     try {
       // Tentar usar biblioteca 'usb' se disponível
       const usb = require('usb');
@@ -240,13 +258,23 @@ export class USBService extends DeviceService {
             // Ignorar erros de acesso aos descritores
           }
 
+          // O mesmo dispositivo físico já encontrado pelo WMI não é informado de novo
+          if (this.isAlreadyFound(deviceInfo, foundDevices)) return;
+
+          const previous = this.devices.get(deviceId);
           this.devices.set(deviceId, deviceInfo);
           foundDevices.add(deviceId);
+
+          if (!previous || previous.status === 'disconnected') {
+            this.emit('device-connected', deviceInfo);
+          }
         }
       });
+      return true;
     } catch (error) {
       // Biblioteca USB não disponível ou erro - ignorar
       console.log('Biblioteca USB não disponível, usando apenas WMI');
+      return false;
     }
   }
 
@@ -260,12 +288,16 @@ export class USBService extends DeviceService {
       // Extrair Vendor ID e Product ID do DeviceID
       const deviceIdMatch = deviceData.DeviceID.match(/VID_([0-9A-Fa-f]{4})&PID_([0-9A-Fa-f]{4})/);
       
+      // O último trecho do DeviceID é o número de série; gerado pelo Windows (sem série), contém '&'
+      const instanceId = deviceData.DeviceID.split('\\').pop() || '';
+
       const deviceInfo: USBDeviceInfo = {
         deviceId: deviceData.DeviceID,
         vendorId: deviceIdMatch ? deviceIdMatch[1] : 'unknown',
         productId: deviceIdMatch ? deviceIdMatch[2] : 'unknown',
         manufacturer: deviceData.Manufacturer || undefined,
         product: deviceData.Name || undefined,
+        serialNumber: deviceIdMatch && instanceId && !instanceId.includes('&') ? instanceId : undefined,
         status: deviceData.Status === 'OK' ? 'connected' : 'error'
       };
 
@@ -276,6 +308,23 @@ export class USBService extends DeviceService {
     }
   }
 
+  /**
+   * Verifica se o dispositivo físico já foi encontrado nesta varredura com outro id (WMI e biblioteca usb
+   * identificam o mesmo dispositivo de formas diferentes). Compara VID:PID e, quando os dois têm, o número
+   * de série; sem série, o mesmo VID:PID é considerado o mesmo dispositivo.
+   */
+  private isAlreadyFound(device: USBDeviceInfo, foundDevices: Set<string>): boolean {
+    if (device.vendorId === 'unknown') return false;
+
+    return Array.from(foundDevices).some(id => {
+      const found = this.devices.get(id);
+      return !!found && found.deviceId !== device.deviceId &&
+        found.vendorId.toLowerCase() === device.vendorId.toLowerCase() &&
+        found.productId.toLowerCase() === device.productId.toLowerCase() &&
+        (!found.serialNumber || !device.serialNumber || found.serialNumber === device.serialNumber);
+    });
+  }
+
   /**
    * Obtém informações detalhadas via WMI
    */
@@ -0,0 +1,240 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { app } from 'electron';
+import { ConfigManager } from './ConfigManager';
+import { DeviceError } from '../services/DeviceError';
+
+export type AuditChannel = 'ipc' | 'rest' | 'websocket' | 'job' | 'command' | 'mqtt';
+export type AuditOutcome = 'success' | 'failure';
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  channel: AuditChannel;
+  origin?: string;
+  tokenId?: string;
+  appName?: string;
+  device: string;
+  target?: string;
+  operation: string;
+  payloadBytes?: number;
+  outcome: AuditOutcome;
+  errorCode?: string;
+  durationMs: number;
+}
+
+/**
+ * Quem executou a operação e por qual canal
+ */
+export interface AuditContext {
+  channel: AuditChannel;
+  origin?: string;
+  tokenId?: string;
+  appName?: string;
+}
+
+export interface AuditQuery {
+  from?: string;
+  to?: string;
+  channel?: AuditChannel;
+  device?: string;
+  operation?: string;
+  outcome?: AuditOutcome;
+  origin?: string;
+  tokenId?: string;
+  limit?: number;
+}
+
+const CSV_COLUMNS: (keyof AuditEntry)[] = [
+  'id', 'timestamp', 'channel', 'origin', 'tokenId', 'appName', 'device', 'target',
+  'operation', 'payloadBytes', 'outcome', 'errorCode', 'durationMs'
+];
+
+/**
+ * Trilha de auditoria das operações de dispositivos (impressão, digitalização, captura, serial).
+ * Registra quem, por onde, em qual dispositivo, tamanho dos dados e resultado; o conteúdo
+ * impresso ou digitalizado nunca é gravado. Um arquivo JSON Lines por dia, na pasta do usuário.
+ */
+export class AuditLog {
+  private static instance: AuditLog;
+  private auditPath: string;
+  private configManager: ConfigManager;
+
+  private constructor() {
+    this.configManager = ConfigManager.getInstance();
+    this.auditPath = path.join(app.getPath('userData'), 'audit');
+    this.purgeExpiredFiles();
+  }
+
+  public static getInstance(): AuditLog {
+    if (!AuditLog.instance) {
+      AuditLog.instance = new AuditLog();
+    }
+    return AuditLog.instance;
+  }
+
+  /**
+   * Registra uma operação
+   */
+  public record(entry: Omit<AuditEntry, 'id' | 'timestamp'>): void {
+    if (!this.configManager.get('audit').enabled) return;
+
+    const fullEntry: AuditEntry = {
+      id: crypto.randomUUID(),
+      timestamp: new Date().toISOString(),
+      ...entry
+    };
+
+    try {
+      if (!fs.existsSync(this.auditPath)) {
+        fs.mkdirSync(this.auditPath, { recursive: true });
+      }
+      fs.appendFileSync(this.getFilePath(fullEntry.timestamp), JSON.stringify(fullEntry) + '\n', 'utf8');
+    } catch (error) {
+      console.error('Erro ao gravar registro de auditoria:', error);
+    }
+  }
+
+  /**
+   * Executa a operação registrando duração e resultado (o erro é propagado).
+   * Resultados no formato { success: false, code } também são registrados como falha.
+   */
+  public async track<T>(
+    context: AuditContext,
+    operation: { device: string; operation: string; target?: string; payloadBytes?: number },
+    fn: () => Promise<T>
+  ): Promise<T> {
+    const startedAt = Date.now();
+    try {
+      const result = await fn();
+      const failed = !!result && typeof result === 'object' && (result as any).success === false;
+      this.record({
+        ...context,
+        ...operation,
+        outcome: failed ? 'failure' : 'success',
+        ...(failed ? { errorCode: (result as any).code || 'OPERATION_FAILED' } : {}),
+        durationMs: Date.now() - startedAt
+      });
+      return result;
+    } catch (error) {
+      this.record({
+        ...context,
+        ...operation,
+        outcome: 'failure',
+        errorCode: DeviceError.from(error).code,
+        durationMs: Date.now() - startedAt
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Consulta registros, do mais recente para o mais antigo
+   */
+  public query(filter: AuditQuery = {}): AuditEntry[] {
+    const from = filter.from ? new Date(filter.from).getTime() : 0;
+    const to = filter.to ? new Date(filter.to).getTime() : Date.now();
+    const limit = filter.limit ?? 1000;
+    const results: AuditEntry[] = [];
+
+    // Os arquivos diários fora do período nem são lidos
+    const files = this.listFiles()
+      .filter(file => {
+        const day = this.getFileDate(file);
+        return day !== null && day + 24 * 60 * 60 * 1000 > from && day <= to;
+      })
+      .reverse();
+
+    for (const file of files) {
+      const entries = this.readFile(file).reverse();
+      for (const entry of entries) {
+        const time = new Date(entry.timestamp).getTime();
+        if (time < from || time > to) continue;
+        if (filter.channel && entry.channel !== filter.channel) continue;
+        if (filter.device && entry.device !== filter.device) continue;
+        if (filter.operation && entry.operation !== filter.operation) continue;
+        if (filter.outcome && entry.outcome !== filter.outcome) continue;
+        if (filter.origin && entry.origin !== filter.origin) continue;
+        if (filter.tokenId && entry.tokenId !== filter.tokenId) continue;
+
+        results.push(entry);
+        if (results.length >= limit) return results;
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Exporta registros em JSON ou CSV
+   */
+  public export(filter: AuditQuery, format: 'json' | 'csv'): string {
+    const entries = this.query(filter);
+    if (format === 'json') {
+      return JSON.stringify(entries, null, 2);
+    }
+
+    const escape = (value: unknown): string => {
+      if (value === undefined || value === null) return '';
+      const text = String(value);
+      return /[",\n\r;]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const lines = entries.map(entry => CSV_COLUMNS.map(column => escape(entry[column])).join(','));
+    return [CSV_COLUMNS.join(','), ...lines].join('\r\n');
+  }
+
+  /**
+   * Remove arquivos mais antigos que o período de retenção
+   */
+  private purgeExpiredFiles(): void {
+    try {
+      const retentionDays = this.configManager.get('audit').retentionDays;
+      const limit = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+
+      for (const file of this.listFiles()) {
+        const day = this.getFileDate(file);
+        if (day !== null && day < limit) {
+          fs.unlinkSync(path.join(this.auditPath, file));
+        }
+      }
+    } catch (error) {
+      console.error('Erro ao remover registros de auditoria antigos:', error);
+    }
+  }
+
+  private listFiles(): string[] {
+    if (!fs.existsSync(this.auditPath)) return [];
+    return fs.readdirSync(this.auditPath)
+      .filter(file => /^audit-\d{4}-\d{2}-\d{2}\.jsonl$/.test(file))
+      .sort();
+  }
+
+  private readFile(file: string): AuditEntry[] {
+    try {
+      const entries: AuditEntry[] = [];
+      for (const line of fs.readFileSync(path.join(this.auditPath, file), 'utf8').split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          entries.push(JSON.parse(line));
+        } catch (error) {
+          // Linha incompleta (ex.: gravação interrompida) - ignorar
+        }
+      }
+      return entries;
+    } catch (error) {
+      console.error(`Erro ao ler registros de auditoria de ${file}:`, error);
+      return [];
+    }
+  }
+
+  private getFilePath(timestamp: string): string {
+    return path.join(this.auditPath, `audit-${timestamp.split('T')[0]}.jsonl`);
+  }
+
+  private getFileDate(file: string): number | null {
+    const match = file.match(/^audit-(\d{4}-\d{2}-\d{2})\.jsonl$/);
+    return match ? new Date(`${match[1]}T00:00:00Z`).getTime() : null;
+  }
+}
@@ -0,0 +1,235 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as forge from 'node-forge';
+import { app } from 'electron';
+
+export interface TlsCredentials {
+  key: string;
+  cert: string;
+  ca: string;
+}
+
+// Validade da CA local e do certificado de localhost (navegadores limitam certificados a 398 dias)
+const CA_VALIDITY_YEARS = 10;
+const SERVER_VALIDITY_DAYS = 397;
+// Renova o certificado de localhost quando faltar menos que isso para expirar
+const RENEW_BEFORE_DAYS = 30;
+
+/**
+ * Gerenciador dos certificados do listener HTTPS da API local.
+ * Gera e persiste uma CA local e um certificado para localhost assinado por ela;
+ * a CA é instalada pelo usuário como confiável para que o navegador aceite a conexão.
+ */
+export class CertificateManager {
+  private static instance: CertificateManager;
+  private certDir: string;
+
+  private constructor() {
+    this.certDir = path.join(app.getPath('userData'), 'certs');
+  }
+
+  public static getInstance(): CertificateManager {
+    if (!CertificateManager.instance) {
+      CertificateManager.instance = new CertificateManager();
+    }
+    return CertificateManager.instance;
+  }
+
+  /**
+   * Obtém chave e certificado de localhost, gerando CA e certificado se necessário
+   */
+  public getCredentials(): TlsCredentials {
+    const ca = this.loadOrCreateCa();
+
+    let server = this.readPair('localhost');
+    if (!server || this.needsRenewal(server.cert)) {
+      server = this.createServerCertificate(ca);
+      this.writePair('localhost', server);
+      console.log('Certificado HTTPS de localhost gerado');
+    }
+
+    const caPem = forge.pki.certificateToPem(ca.cert);
+    return {
+      key: server.key,
+      // Cadeia completa: certificado de localhost seguido da CA
+      cert: server.cert + caPem,
+      ca: caPem
+    };
+  }
+
+  /**
+   * Certificado da CA local (PEM), para instalação como autoridade confiável
+   */
+  public getCaCertificate(): string {
+    return forge.pki.certificateToPem(this.loadOrCreateCa().cert);
+  }
+
+  /**
+   * Caminho do arquivo da CA local
+   */
+  public getCaCertificatePath(): string {
+    this.loadOrCreateCa();
+    return path.join(this.certDir, 'ca.crt');
+  }
+
+  /**
+   * Remove os certificados gerados (uma nova CA será criada no próximo uso)
+   */
+  public reset(): void {
+    for (const file of ['ca.key', 'ca.crt', 'localhost.key', 'localhost.crt']) {
+      const filePath = path.join(this.certDir, file);
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+      }
+    }
+  }
+
+  /**
+   * Carrega a CA persistida ou gera uma nova
+   */
+  private loadOrCreateCa(): { key: forge.pki.rsa.PrivateKey; cert: forge.pki.Certificate } {
+    const existing = this.readPair('ca');
+    if (existing) {
+      const cert = forge.pki.certificateFromPem(existing.cert);
+      // CAs geradas antes da restrição de nomes são substituídas (precisam ser instaladas novamente)
+      if (cert.validity.notAfter.getTime() > Date.now() && cert.getExtension('nameConstraints')) {
+        return { key: forge.pki.privateKeyFromPem(existing.key) as forge.pki.rsa.PrivateKey, cert };
+      }
+    }
+
+    const keys = forge.pki.rsa.generateKeyPair(2048);
+    const cert = forge.pki.createCertificate();
+    cert.publicKey = keys.publicKey;
+    cert.serialNumber = this.createSerialNumber();
+    cert.validity.notBefore = new Date();
+    cert.validity.notAfter = new Date();
+    cert.validity.notAfter.setFullYear(cert.validity.notBefore.getFullYear() + CA_VALIDITY_YEARS);
+
+    const attributes = [
+      { name: 'commonName', value: `Intranet Desktop CA Local (${os.hostname()})` },
+      { name: 'organizationName', value: 'BS TECH' }
+    ];
+    cert.setSubject(attributes);
+    cert.setIssuer(attributes);
+    cert.setExtensions([
+      { name: 'basicConstraints', cA: true, pathLenConstraint: 0, critical: true },
+      { name: 'keyUsage', keyCertSign: true, cRLSign: true, critical: true },
+      { name: 'subjectKeyIdentifier' },
+      CertificateManager.createNameConstraints()
+    ]);
+    cert.sign(keys.privateKey, forge.md.sha256.create());
+
+    this.writePair('ca', {
+      key: forge.pki.privateKeyToPem(keys.privateKey),
+      cert: forge.pki.certificateToPem(cert)
+    });
+
+    // O certificado anterior de localhost foi assinado pela CA antiga
+    const serverCertPath = path.join(this.certDir, 'localhost.crt');
+    if (fs.existsSync(serverCertPath)) {
+      fs.unlinkSync(serverCertPath);
+    }
+
+    console.log('CA local para HTTPS gerada');
+    return { key: keys.privateKey, cert };
+  }
+
+  /**
+   * Gera certificado para localhost/127.0.0.1 assinado pela CA local
+   */
+  private createServerCertificate(ca: { key: forge.pki.rsa.PrivateKey; cert: forge.pki.Certificate }): { key: string; cert: string } {
+    const keys = forge.pki.rsa.generateKeyPair(2048);
+    const cert = forge.pki.createCertificate();
+    cert.publicKey = keys.publicKey;
+    cert.serialNumber = this.createSerialNumber();
+    cert.validity.notBefore = new Date();
+    cert.validity.notAfter = new Date(Date.now() + SERVER_VALIDITY_DAYS * 24 * 60 * 60 * 1000);
+
+    cert.setSubject([{ name: 'commonName', value: 'localhost' }]);
+    cert.setIssuer(ca.cert.subject.attributes);
+    cert.setExtensions([
+      { name: 'basicConstraints', cA: false },
+      { name: 'keyUsage', digitalSignature: true, keyEncipherment: true, critical: true },
+      { name: 'extKeyUsage', serverAuth: true },
+      {
+        name: 'subjectAltName',
+        altNames: [
+          { type: 2, value: 'localhost' },
+          { type: 7, ip: '127.0.0.1' },
+          { type: 7, ip: '::1' }
+        ]
+      }
+    ]);
+    cert.sign(ca.key, forge.md.sha256.create());
+
+    return {
+      key: forge.pki.privateKeyToPem(keys.privateKey),
+      cert: forge.pki.certificateToPem(cert)
+    };
+  }
+
+  /**
+   * Restringe a CA a localhost, 127.0.0.1 e ::1: mesmo com a chave exposta, ela não emite
+   * certificados aceitos para outros sites. O node-forge não gera essa extensão, então o valor é montado em ASN.1.
+   */
+  private static createNameConstraints(): { id: string; critical: boolean; value: forge.asn1.Asn1 } {
+    const { asn1 } = forge;
+    // GeneralSubtree com o nome base (dNSName [2] ou iPAddress [7] com endereço e máscara)
+    const subtree = (tag: number, value: string) => asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+      asn1.create(asn1.Class.CONTEXT_SPECIFIC, tag, false, value)
+    ]);
+    const ipv4 = String.fromCharCode(127, 0, 0, 1) + String.fromCharCode(255, 255, 255, 255);
+    const ipv6 = String.fromCharCode(...new Array(15).fill(0), 1) + String.fromCharCode(...new Array(16).fill(255));
+
+    return {
+      // nameConstraints (RFC 5280, 4.2.1.10)
+      id: '2.5.29.30',
+      critical: true,
+      value: asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+        // permittedSubtrees [0]
+        asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, [
+          subtree(2, 'localhost'),
+          subtree(7, ipv4),
+          subtree(7, ipv6)
+        ])
+      ])
+    };
+  }
+
+  private needsRenewal(certPem: string): boolean {
+    const cert = forge.pki.certificateFromPem(certPem);
+    return cert.validity.notAfter.getTime() - Date.now() < RENEW_BEFORE_DAYS * 24 * 60 * 60 * 1000;
+  }
+
+  private createSerialNumber(): string {
+    // Número de série positivo (primeiro byte sem o bit de sinal)
+    return '01' + forge.util.bytesToHex(forge.random.getBytesSync(15));
+  }
+
+  private readPair(name: string): { key: string; cert: string } | null {
+    try {
+      const keyPath = path.join(this.certDir, `${name}.key`);
+      const certPath = path.join(this.certDir, `${name}.crt`);
+      if (!fs.existsSync(keyPath) || !fs.existsSync(certPath)) {
+        return null;
+      }
+      return {
+        key: fs.readFileSync(keyPath, 'utf8'),
+        cert: fs.readFileSync(certPath, 'utf8')
+      };
+    } catch (error) {
+      console.error(`Erro ao ler certificado ${name}:`, error);
+      return null;
+    }
+  }
+
+  private writePair(name: string, pair: { key: string; cert: string }): void {
+    if (!fs.existsSync(this.certDir)) {
+      fs.mkdirSync(this.certDir, { recursive: true });
+    }
+    // A chave privada fica legível apenas pelo usuário
+    fs.writeFileSync(path.join(this.certDir, `${name}.key`), pair.key, { encoding: 'utf8', mode: 0o600 });
+    fs.writeFileSync(path.join(this.certDir, `${name}.crt`), pair.cert, 'utf8');
+  }
+}
@@ -1,20 +1,137 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import * as crypto from 'crypto';
 import { app } from 'electron';
 
+export type ApiScope = 'printer' | 'camera' | 'usb' | 'serial' | 'scanner' | 'audit';
+
+export interface ApiTokenRecord {
+  id: string;
+  tokenHash: string;
+  appName: string;
+  origin: string;
+  scopes: ApiScope[];
+  createdAt: string;
+  expiresAt: string;
+  revokedAt?: string;
+}
+
+/**
+ * Endpoint que recebe os eventos de dispositivos por webhook. Os eventos aceitam curinga
+ * por canal (ex.: usb.*) ou * para todos; o segredo assina o corpo com HMAC-SHA256.
+ */
+export interface WebhookEndpoint {
+  id: string;
+  url: string;
+  events: string[];
+  secret: string;
+  enabled: boolean;
+}
+
+/**
+ * Ambiente da intranet carregado na janela principal. A cor identifica o ambiente no menu e
+ * na faixa exibida sobre a página; as origens permitidas também podem acessar a API local.
+ */
+export interface EnvironmentConfig {
+  id: string;
+  name: string;
+  url: string;
+  color: string;
+  showBanner: boolean;
+  allowedOrigins: string[];
+}
+
+/**
+ * O que fazer com o arquivo baixado: apenas salvar, abrir com o aplicativo padrão ou imprimir (apenas PDF)
+ */
+export type DownloadAction = 'save' | 'open' | 'print';
+
+/**
+ * Regra de download por tipo MIME (aceita curinga: image/* ou *); a primeira regra que combinar é usada.
+ * Sem directory, o arquivo vai para a pasta de downloads; printer vale para action print.
+ */
+export interface DownloadRule {
+  mimeType: string;
+  action: DownloadAction;
+  directory?: string;
+  printer?: string;
+}
+
+// Id do ambiente local, criado a partir de webUrl quando developmentEnvironment está habilitado
+export const DEVELOPMENT_ENVIRONMENT_ID = 'development';
+
 export interface AppConfig {
   webUrl: string;
+  environments: EnvironmentConfig[];
+  currentEnvironment: string;
+  developmentEnvironment: boolean;
   apiPort: number;
+  apiPrefix: string;
+  apiTls: {
+    enabled: boolean;
+    port: number;
+  };
   allowedOrigins: string[];
+  navigation: {
+    allowedOrigins: string[];
+  };
+  downloads: {
+    directory: string;
+    askWhereToSave: boolean;
+    rules: DownloadRule[];
+  };
   autoStart: boolean;
+  tray: {
+    enabled: boolean;
+    runInBackground: boolean;
+    startMinimized: boolean;
+  };
   logLevel: 'error' | 'warn' | 'info' | 'debug';
   defaultScannerId?: string;
+  defaultPrinter?: string;
   deviceSettings: {
     enablePrinter: boolean;
     enableCamera: boolean;
     enableUSB: boolean;
     enableSerial: boolean;
   };
+  apiAuth: {
+    enabled: boolean;
+    tokenTtlDays: number;
+  };
+  apiTokens: ApiTokenRecord[];
+  audit: {
+    enabled: boolean;
+    retentionDays: number;
+  };
+  metrics: {
+    enabled: boolean;
+    token: string;
+  };
+  webhooks: {
+    enabled: boolean;
+    maxAttempts: number;
+    logRetentionDays: number;
+    endpoints: WebhookEndpoint[];
+  };
+  commandChannel: {
+    enabled: boolean;
+    url: string;
+    token: string;
+    workstationId: string;
+    scopes: ApiScope[];
+  };
+  mqtt: {
+    enabled: boolean;
+    brokerUrl: string;
+    username: string;
+    password: string;
+    clientId: string;
+    topicPrefix: string;
+    workstationId: string;
+    qos: 0 | 1 | 2;
+    scopes: ApiScope[];
+  };
 }
 
 /**
@@ -24,6 +141,7 @@ export class ConfigManager {
   private static instance: ConfigManager;
   private config: AppConfig;
   private configPath: string;
+  private changeListeners: ((config: AppConfig, previous: AppConfig) => void)[] = [];
 
   private constructor() {
     this.configPath = this.getConfigPath();
@@ -45,12 +163,63 @@ export class ConfigManager {
     return { ...this.config };
   }
 
+  /**
+   * Ambientes disponíveis: os configurados e, se habilitado, o ambiente local (webUrl)
+   */
+  public getEnvironments(config: AppConfig = this.config): EnvironmentConfig[] {
+    const environments = [...config.environments];
+    if (config.developmentEnvironment && !environments.some(env => env.id === DEVELOPMENT_ENVIRONMENT_ID)) {
+      environments.push({
+        id: DEVELOPMENT_ENVIRONMENT_ID,
+        name: 'Desenvolvimento',
+        url: config.webUrl,
+        color: '#6f42c1',
+        showBanner: true,
+        allowedOrigins: []
+      });
+    }
+    return environments;
+  }
+
+  /**
+   * Ambiente selecionado (o primeiro, se o selecionado não existir mais)
+   */
+  public getCurrentEnvironment(config: AppConfig = this.config): EnvironmentConfig {
+    const environments = this.getEnvironments(config);
+    return environments.find(env => env.id === config.currentEnvironment) || environments[0];
+  }
+
+  /**
+   * Origens com acesso à API local: allowedOrigins, a origem de cada ambiente e as origens permitidas por ele
+   */
+  public getApiAllowedOrigins(config: AppConfig = this.config): string[] {
+    const origins = new Set(config.allowedOrigins);
+    for (const env of this.getEnvironments(config)) {
+      try {
+        origins.add(new URL(env.url).origin);
+      } catch (error) {
+        console.error(`URL inválida no ambiente ${env.id}:`, env.url);
+      }
+      env.allowedOrigins.forEach(origin => origins.add(origin));
+    }
+    return [...origins];
+  }
+
   /**
    * Atualiza configuração
    */
   public updateConfig(newConfig: Partial<AppConfig>): void {
+    const previous = this.config;
     this.config = { ...this.config, ...newConfig };
     this.saveConfig();
+    this.notifyChange(previous);
+  }
+
+  /**
+   * Registra listener chamado sempre que a configuração muda
+   */
+  public onChange(listener: (config: AppConfig, previous: AppConfig) => void): void {
+    this.changeListeners.push(listener);
   }
 
   /**
@@ -64,23 +233,29 @@ export class ConfigManager {
    * Define valor específico da configuração
    */
   public set<K extends keyof AppConfig>(key: K, value: AppConfig[K]): void {
-    this.config[key] = value;
+    const previous = this.config;
+    this.config = { ...this.config, [key]: value };
     this.saveConfig();
+    this.notifyChange(previous);
   }
 
   /**
    * Recarrega configuração do arquivo
    */
   public reload(): void {
+    const previous = this.config;
     this.loadConfig();
+    this.notifyChange(previous);
   }
 
   /**
    * Restaura configurações padrão
    */
   public resetToDefault(): void {
+    const previous = this.config;
     this.config = this.loadDefaultConfig();
     this.saveConfig();
+    this.notifyChange(previous);
   }
 
   /**
@@ -89,20 +264,95 @@ export class ConfigManager {
   private loadDefaultConfig(): AppConfig {
     return {
       webUrl: process.env.WEB_URL || 'http://localhost:3000',
+      environments: [
+        {
+          id: 'production',
+          name: 'Produção',
+          url: 'https://intranet.grupobig.com.br',
+          color: '#28a745',
+          showBanner: false,
+          allowedOrigins: []
+        },
+        {
+          id: 'homologation',
+          name: 'Homologação',
+          url: 'https://intraneth.grupobig.com.br',
+          color: '#ffc107',
+          showBanner: true,
+          allowedOrigins: []
+        }
+      ],
+      currentEnvironment: 'production',
+      developmentEnvironment: process.env.NODE_ENV === 'development',
       apiPort: parseInt(process.env.API_PORT || '8080'),
+      apiPrefix: '/api/v1',
+      apiTls: {
+        enabled: process.env.API_HTTPS === 'true',
+        port: parseInt(process.env.API_HTTPS_PORT || '8443')
+      },
       allowedOrigins: [
         'http://localhost:3000',
         'http://localhost:8000',
         'http://127.0.0.1:3000',
         'http://127.0.0.1:8000'
       ],
+      navigation: {
+        allowedOrigins: []
+      },
+      downloads: {
+        directory: '',
+        askWhereToSave: false,
+        rules: []
+      },
       autoStart: true,
+      tray: {
+        enabled: true,
+        runInBackground: true,
+        startMinimized: false
+      },
       logLevel: 'info',
       deviceSettings: {
         enablePrinter: true,
         enableCamera: true,
         enableUSB: true,
         enableSerial: true
+      },
+      apiAuth: {
+        enabled: true,
+        tokenTtlDays: 30
+      },
+      apiTokens: [],
+      audit: {
+        enabled: true,
+        retentionDays: 180
+      },
+      metrics: {
+        enabled: process.env.METRICS_ENABLED !== 'false',
+        token: process.env.METRICS_TOKEN || ''
+      },
+      webhooks: {
+        enabled: true,
+        maxAttempts: 8,
+        logRetentionDays: 30,
+        endpoints: []
+      },
+      commandChannel: {
+        enabled: !!process.env.COMMAND_CHANNEL_URL,
+        url: process.env.COMMAND_CHANNEL_URL || '',
+        token: process.env.COMMAND_CHANNEL_TOKEN || '',
+        workstationId: process.env.WORKSTATION_ID || '',
+        scopes: ['printer', 'camera', 'usb', 'serial', 'scanner']
+      },
+      mqtt: {
+        enabled: !!process.env.MQTT_URL,
+        brokerUrl: process.env.MQTT_URL || '',
+        username: process.env.MQTT_USERNAME || '',
+        password: process.env.MQTT_PASSWORD || '',
+        clientId: '',
+        topicPrefix: 'intranet-desktop',
+        workstationId: process.env.WORKSTATION_ID || '',
+        qos: 1,
+        scopes: ['printer', 'serial', 'scanner']
       }
     };
   }
@@ -152,62 +402,270 @@ export class ConfigManager {
     }
   }
 
+  /**
+   * Notifica os listeners de alteração
+   */
+  private notifyChange(previous: AppConfig): void {
+    this.changeListeners.forEach(listener => {
+      try {
+        listener(this.getConfig(), previous);
+      } catch (error) {
+        console.error('Erro ao notificar alteração de configuração:', error);
+      }
+    });
+  }
+
   /**
    * Valida configuração
    */
   public validateConfig(): boolean {
-    try {
+    const errors = this.getValidationErrors();
+    if (errors.length > 0) {
+      console.error('Configuração inválida:', errors.join('; '));
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Problemas encontrados na configuração, um por verificação (vazio quando válida)
+   */
+  public getValidationErrors(config: AppConfig = this.config): string[] {
+    const checks: [string, () => boolean][] = [
       // Validar URL
-      new URL(this.config.webUrl);
+      ['URL da aplicação web inválida', () => !!new URL(config.webUrl)],
 
       // Validar porta
-      if (this.config.apiPort < 1 || this.config.apiPort > 65535) {
+      ['A porta da API deve estar entre 1 e 65535', () => Number.isInteger(config.apiPort) && config.apiPort >= 1 && config.apiPort <= 65535],
+
+      // Validar porta HTTPS (separada da porta HTTP)
+      ['A porta HTTPS deve estar entre 1 e 65535 e ser diferente da porta HTTP', () => !config.apiTls.enabled ||
+        (Number.isInteger(config.apiTls.port) && config.apiTls.port >= 1 && config.apiTls.port <= 65535 && config.apiTls.port !== config.apiPort)],
+
+      // Validar prefixo da API
+      ['O prefixo da API deve começar com /', () => config.apiPrefix.startsWith('/')],
+
+      // Validar retenção da auditoria
+      ['A retenção da auditoria deve ser de ao menos 1 dia', () => Number.isInteger(config.audit.retentionDays) && config.audit.retentionDays >= 1],
+
+      // Validar webhooks
+      ['Configuração de webhooks inválida', () => this.isValidWebhookConfig(config.webhooks)],
+
+      // Validar canal de comandos (WebSocket com token)
+      ['O canal de comandos exige URL ws:// ou wss:// e token', () => !config.commandChannel.enabled ||
+        (['ws:', 'wss:'].includes(new URL(config.commandChannel.url).protocol) && !!config.commandChannel.token)],
+
+      // Validar ponte MQTT (URL do broker, QoS e prefixo sem curingas)
+      ['Configuração da ponte MQTT inválida', () => !config.mqtt.enabled ||
+        (['mqtt:', 'mqtts:', 'ws:', 'wss:'].includes(new URL(config.mqtt.brokerUrl).protocol) &&
+         [0, 1, 2].includes(config.mqtt.qos) &&
+         !!config.mqtt.topicPrefix && !/[#+]/.test(config.mqtt.topicPrefix))],
+
+      // Validar ambientes
+      ['Ambientes inválidos: verifique ids, nomes, URLs, cores e origens', () => this.isValidEnvironmentConfig(config)],
+
+      // Validar origens permitidas
+      ['Origem permitida inválida', () => config.allowedOrigins.every(origin => !!new URL(origin))],
+
+      // Validar origens da navegação (http/https, com curinga opcional de subdomínio)
+      ['Origem de navegação inválida: use https://site ou https://*.dominio', () => config.navigation.allowedOrigins.every(origin =>
+        /^https?:\/\/(\*\.)?[^/*]+$/.test(origin) && !!new URL(origin.replace('://*.', '://')))],
+
+      // Validar downloads
+      ['Configuração de downloads inválida: verifique pastas, tipos MIME e ações', () => this.isValidDownloadConfig(config.downloads)]
+    ];
+
+    return checks
+      .filter(([, check]) => {
+        try {
+          return !check();
+        } catch (error) {
+          return true;
+        }
+      })
+      .map(([message]) => message);
+  }
+
+  /**
+   * Aplica e salva as alterações apenas se a configuração resultante for válida;
+   * retorna os problemas encontrados (vazio quando aplicada)
+   */
+  public applyConfig(newConfig: Partial<AppConfig>): string[] {
+    const errors = this.getValidationErrors({ ...this.config, ...newConfig });
+    if (errors.length === 0) {
+      this.updateConfig(newConfig);
+    }
+    return errors;
+  }
+
+  /**
+   * Valida os ambientes (ao menos um, ids únicos, URL http/https, cor hexadecimal e origens permitidas)
+   */
+  private isValidEnvironmentConfig(config: AppConfig): boolean {
+    if (!Array.isArray(config.environments) || this.getEnvironments(config).length === 0) {
+      return false;
+    }
+
+    const ids = new Set<string>();
+    for (const env of config.environments) {
+      if (!env.id || ids.has(env.id) || !env.name || !/^#[0-9a-f]{6}$/i.test(env.color)) {
         return false;
       }
+      ids.add(env.id);
 
-      // Validar origens permitidas
-      for (const origin of this.config.allowedOrigins) {
+      if (!['http:', 'https:'].includes(new URL(env.url).protocol)) {
+        return false;
+      }
+      for (const origin of env.allowedOrigins) {
         new URL(origin);
       }
+    }
 
-      return true;
-    } catch (error) {
-      console.error('Configuração inválida:', error);
+    return true;
+  }
+
+  /**
+   * Valida a pasta de downloads e as regras (pastas absolutas, tipo MIME e impressão apenas de PDF)
+   */
+  private isValidDownloadConfig(downloads: AppConfig['downloads']): boolean {
+    if (downloads.directory && !path.isAbsolute(downloads.directory)) {
       return false;
     }
+
+    return Array.isArray(downloads.rules) && downloads.rules.every(rule =>
+      /^(\*|[\w.+-]+\/(\*|[\w.+-]+))$/.test(rule.mimeType) &&
+      ['save', 'open', 'print'].includes(rule.action) &&
+      (rule.action !== 'print' || rule.mimeType === 'application/pdf') &&
+      (!rule.directory || path.isAbsolute(rule.directory))
+    );
+  }
+
+  /**
+   * Valida tentativas, retenção e endpoints dos webhooks (URL http/https, segredo e filtro de eventos)
+   */
+  private isValidWebhookConfig(webhooks: AppConfig['webhooks']): boolean {
+    if (!Number.isInteger(webhooks.maxAttempts) || webhooks.maxAttempts < 1 || webhooks.maxAttempts > 20) {
+      return false;
+    }
+    if (!Number.isInteger(webhooks.logRetentionDays) || webhooks.logRetentionDays < 1) {
+      return false;
+    }
+
+    const ids = new Set<string>();
+    for (const endpoint of webhooks.endpoints) {
+      if (!endpoint.id || ids.has(endpoint.id) || !endpoint.secret) {
+        return false;
+      }
+      ids.add(endpoint.id);
+
+      if (!['http:', 'https:'].includes(new URL(endpoint.url).protocol)) {
+        return false;
+      }
+      if (!Array.isArray(endpoint.events) || endpoint.events.length === 0 ||
+          !endpoint.events.every(event => /^(\*|[a-z]+\.(\*|[a-z-]+))$/.test(event))) {
+        return false;
+      }
+    }
+
+    return true;
   }
 
   /**
-   * Exporta configuração para backup
+   * Exporta configuração para backup, sem tokens e segredos (pareamentos, métricas, webhooks,
+   * canal de comandos e MQTT), que valem apenas para esta estação
    */
   public exportConfig(): string {
-    return JSON.stringify(this.config, null, 2);
+    const { apiTokens, metrics, webhooks, commandChannel, mqtt, ...config } = this.config;
+    const { token: metricsToken, ...exportedMetrics } = metrics;
+    const { token: commandToken, ...exportedCommandChannel } = commandChannel;
+    const { password, ...exportedMqtt } = mqtt;
+
+    return JSON.stringify({
+      ...config,
+      metrics: exportedMetrics,
+      webhooks: { ...webhooks, endpoints: webhooks.endpoints.map(({ secret, ...endpoint }) => endpoint) },
+      commandChannel: exportedCommandChannel,
+      mqtt: exportedMqtt
+    }, null, 2);
   }
 
   /**
-   * Importa configuração de backup
+   * Importa configuração de backup (tokens e segredos desta estação são mantidos)
    */
   public importConfig(configJson: string): boolean {
+    const imported = this.parseImport(configJson);
+    if (!imported || this.getValidationErrors(imported).length > 0) {
+      return false;
+    }
+
+    const previous = this.config;
+    this.config = imported;
+    this.saveConfig();
+    this.notifyChange(previous);
+    return true;
+  }
+
+  /**
+   * Problemas do backup a importar (vazio quando pode ser importado)
+   */
+  public getImportErrors(configJson: string): string[] {
+    const imported = this.parseImport(configJson);
+    return imported ? this.getValidationErrors(imported) : ['Arquivo de configuração inválido'];
+  }
+
+  /**
+   * Configuração resultante do backup (padrões completados), ou null se o arquivo não for uma configuração
+   */
+  private parseImport(configJson: string): AppConfig | null {
     try {
       const importedConfig = JSON.parse(configJson) as AppConfig;
-      
+
       // Validar estrutura básica
       if (typeof importedConfig.webUrl !== 'string' ||
           typeof importedConfig.apiPort !== 'number') {
-        return false;
+        return null;
       }
 
-      this.config = { ...this.loadDefaultConfig(), ...importedConfig };
-      
-      if (this.validateConfig()) {
-        this.saveConfig();
-        return true;
-      }
-      
-      return false;
+      return this.withCurrentSecrets({ ...this.loadDefaultConfig(), ...importedConfig });
     } catch (error) {
       console.error('Erro ao importar configuração:', error);
-      return false;
+      return null;
     }
   }
+
+  /**
+   * Mantém os tokens e segredos da configuração atual, mesmo que o backup os traga (backups antigos
+   * ou de outra estação não validam pareamentos daqui nem revogam os existentes). Um segredo só é
+   * mantido para o mesmo destino: endpoint de webhook novo ou com outra URL recebe um novo segredo,
+   * e canal de comandos ou ponte MQTT com outro servidor ficam sem token ou senha; todos chegam
+   * desabilitados, assim como o canal de comandos sem token.
+   */
+  private withCurrentSecrets(config: AppConfig): AppConfig {
+    const current = this.config;
+    const endpoints = new Map(current.webhooks.endpoints.map(endpoint => [endpoint.id, endpoint]));
+    const commandToken = config.commandChannel.url === current.commandChannel.url ? current.commandChannel.token : '';
+    const sameBroker = config.mqtt.brokerUrl === current.mqtt.brokerUrl;
+
+    return {
+      ...config,
+      apiTokens: current.apiTokens,
+      metrics: { ...config.metrics, token: current.metrics.token },
+      webhooks: {
+        ...config.webhooks,
+        endpoints: config.webhooks.endpoints.map(endpoint => endpoints.get(endpoint.id)?.url === endpoint.url
+          ? { ...endpoint, secret: endpoints.get(endpoint.id)!.secret }
+          : { ...endpoint, secret: crypto.randomBytes(32).toString('hex'), enabled: false })
+      },
+      commandChannel: {
+        ...config.commandChannel,
+        token: commandToken,
+        enabled: config.commandChannel.enabled && !!commandToken
+      },
+      mqtt: {
+        ...config.mqtt,
+        password: sameBroker ? current.mqtt.password : '',
+        enabled: config.mqtt.enabled && sameBroker
+      }
+    };
+  }
 }
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { ServiceName } from '../services/ServiceRegistry';
+
+/**
+ * Eventos de dispositivos enviados a sistemas externos (webhooks e MQTT), no formato canal.evento
+ */
+export const DEVICE_EVENTS = [
+  'usb.connected', 'usb.disconnected',
+  'serial.data', 'serial.opened', 'serial.closed', 'serial.error',
+  'printer.printed', 'printer.failed',
+  'camera.captured', 'camera.failed',
+  'scanner.completed', 'scanner.failed'
+] as const;
+
+export type DeviceEventName = typeof DEVICE_EVENTS[number];
+
+/**
+ * Evento de serviço convertido em evento externo (payload null ignora o evento).
+ * O target identifica o dispositivo, quando o evento se refere a um só (porta, impressora, câmera).
+ */
+export interface DeviceEventMapping {
+  service: ServiceName;
+  serviceEvent: string;
+  event: DeviceEventName;
+  target?: (data: any) => string | undefined;
+  payload: (data: any) => any | null;
+}
+
+export const DEVICE_EVENT_MAPPINGS: DeviceEventMapping[] = [
+  // USB
+  { service: 'usb', serviceEvent: 'device-connected', event: 'usb.connected', payload: device => ({ device }) },
+  { service: 'usb', serviceEvent: 'device-disconnected', event: 'usb.disconnected', payload: device => ({ device }) },
+
+  // Serial (ex.: leitura de código de barras)
+  { service: 'serial', serviceEvent: 'port-data', event: 'serial.data', target: data => data?.portPath,
+    payload: data => ({ port: data.portPath, data: data.data }) },
+  { service: 'serial', serviceEvent: 'port-opened', event: 'serial.opened', target: data => data?.portPath,
+    payload: data => ({ port: data.portPath }) },
+  { service: 'serial', serviceEvent: 'port-closed', event: 'serial.closed', target: data => data?.portPath,
+    payload: data => ({ port: data.portPath }) },
+  { service: 'serial', serviceEvent: 'port-error', event: 'serial.error', target: data => data?.portPath,
+    payload: data => ({ port: data.portPath, error: data.error }) },
+
+  // Impressoras (o conteúdo impresso não é enviado, apenas o tipo)
+  { service: 'printer', serviceEvent: 'print-success', event: 'printer.printed', target: data => data?.printer,
+    payload: data => ({ printer: data.printer, content: data.content, durationMs: data.durationMs }) },
+  { service: 'printer', serviceEvent: 'print-error', event: 'printer.failed', target: data => data?.printer,
+    payload: data => ({ printer: data.printer, content: data.content, code: data.code, error: data.error }) },
+
+  // Câmeras (a imagem não é enviada)
+  { service: 'camera', serviceEvent: 'photo-captured', event: 'camera.captured', target: data => data?.cameraId,
+    payload: data => ({ cameraId: data.cameraId, filePath: data.filePath }) },
+  { service: 'camera', serviceEvent: 'capture-error', event: 'camera.failed', target: data => data?.cameraId,
+    payload: data => ({ cameraId: data.cameraId, error: data.error }) },
+
+  // Scanner (apenas os estágios finais)
+  { service: 'scanner', serviceEvent: 'scan-progress', event: 'scanner.completed',
+    payload: progress => progress?.stage === 'completed'
+      ? { duplex: progress.duplex, pages: progress.pages, durationMs: progress.durationMs }
+      : null },
+  { service: 'scanner', serviceEvent: 'scan-progress', event: 'scanner.failed',
+    payload: progress => progress?.stage === 'failed'
+      ? { duplex: progress.duplex, code: progress.code, message: progress.message }
+      : null }
+];
@@ -0,0 +1,152 @@
+export type MetricLabels = Record<string, string>;
+
+const formatLabels = (labels: MetricLabels): string => {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  const escape = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+  return `{${entries.map(([key, value]) => `${key}="${escape(String(value))}"`).join(',')}}`;
+};
+
+const formatValue = (value: number): string => {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+};
+
+/**
+ * Métrica no formato de exposição do Prometheus
+ */
+abstract class Metric {
+  protected series: Map<string, { labels: MetricLabels; value: any }> = new Map();
+
+  constructor(readonly name: string, readonly help: string, readonly type: 'counter' | 'gauge' | 'histogram') {}
+
+  /**
+   * Linhas da métrica no formato texto (HELP, TYPE e uma linha por série)
+   */
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+    for (const { labels, value } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, value));
+    }
+    return lines;
+  }
+
+  protected abstract renderSeries(labels: MetricLabels, value: any): string[];
+
+  protected getSeries<T>(labels: MetricLabels, initial: () => T): { labels: MetricLabels; value: T } {
+    const key = formatLabels(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels: { ...labels }, value: initial() };
+      this.series.set(key, series);
+    }
+    return series;
+  }
+}
+
+/**
+ * Contador (só aumenta)
+ */
+export class Counter extends Metric {
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  inc(labels: MetricLabels = {}, value: number = 1): void {
+    if (value < 0) return;
+    const series = this.getSeries(labels, () => 0);
+    series.value += value;
+  }
+
+  protected renderSeries(labels: MetricLabels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`];
+  }
+}
+
+/**
+ * Valor instantâneo (sobe e desce)
+ */
+export class Gauge extends Metric {
+  constructor(name: string, help: string) {
+    super(name, help, 'gauge');
+  }
+
+  set(labels: MetricLabels, value: number): void {
+    this.getSeries(labels, () => 0).value = value;
+  }
+
+  protected renderSeries(labels: MetricLabels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`];
+  }
+}
+
+/**
+ * Histograma com limites fixos (buckets cumulativos, soma e contagem)
+ */
+export class Histogram extends Metric {
+  private buckets: number[];
+
+  constructor(name: string, help: string, buckets: number[]) {
+    super(name, help, 'histogram');
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: MetricLabels, value: number): void {
+    const series = this.getSeries(labels, () => ({ counts: this.buckets.map(() => 0), sum: 0, count: 0 }));
+    this.buckets.forEach((bucket, index) => {
+      if (value <= bucket) series.value.counts[index]++;
+    });
+    series.value.sum += value;
+    series.value.count++;
+  }
+
+  protected renderSeries(labels: MetricLabels, value: { counts: number[]; sum: number; count: number }): string[] {
+    return [
+      ...this.buckets.map((bucket, index) =>
+        `${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bucket) })} ${value.counts[index]}`
+      ),
+      `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`,
+      `${this.name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`,
+      `${this.name}_count${formatLabels(labels)} ${value.count}`
+    ];
+  }
+}
+
+/**
+ * Conjunto de métricas expostas juntas
+ */
+export class MetricsRegistry {
+  private metrics: Map<string, Metric> = new Map();
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, buckets: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  /**
+   * Todas as métricas no formato texto do Prometheus (text/plain; version=0.0.4)
+   */
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(...metric.render());
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Métrica ${metric.name} já registrada`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
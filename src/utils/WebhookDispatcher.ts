@@ -0,0 +1,343 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { app, net } from 'electron';
+import { ConfigManager, WebhookEndpoint } from './ConfigManager';
+import { ServiceRegistry } from '../services/ServiceRegistry';
+import { DEVICE_EVENT_MAPPINGS, DeviceEventMapping, DeviceEventName } from './DeviceEvents';
+
+export type WebhookDeliveryOutcome = 'delivered' | 'retry' | 'failed';
+
+/**
+ * Entrega pendente (persistida na fila até ser entregue ou esgotar as tentativas)
+ */
+interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  event: DeviceEventName;
+  body: string;
+  attempts: number;
+  createdAt: string;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+/**
+ * Registro de cada tentativa de entrega
+ */
+export interface WebhookDeliveryLogEntry {
+  timestamp: string;
+  deliveryId: string;
+  endpointId: string;
+  url?: string;
+  event: DeviceEventName;
+  attempt: number;
+  outcome: WebhookDeliveryOutcome;
+  status?: number;
+  error?: string;
+  durationMs?: number;
+}
+
+// Tempo máximo de cada tentativa
+const DELIVERY_TIMEOUT_MS = 10000;
+
+// Intervalo entre tentativas: 10s, 20s, 40s... até 1 hora
+const RETRY_BASE_MS = 10000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+
+// Limite de entregas pendentes (acima dele, as mais antigas são descartadas)
+const MAX_QUEUE_SIZE = 1000;
+
+/**
+ * Envia os eventos dos serviços de dispositivos aos webhooks configurados em webhooks.endpoints.
+ * Cada entrega é um POST JSON assinado com HMAC-SHA256; falhas são repetidas com intervalo crescente
+ * até webhooks.maxAttempts. A fila de entregas pendentes fica em disco (sobrevive a reinícios) e cada
+ * tentativa é registrada no log de entregas (um arquivo JSON Lines por dia, na pasta do usuário).
+ */
+export class WebhookDispatcher {
+  private configManager: ConfigManager;
+  private webhooksPath: string;
+  private queue: WebhookDelivery[] = [];
+  private listeners: { mapping: DeviceEventMapping; listener: (data: any) => void }[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private processing = false;
+
+  constructor(private services: ServiceRegistry) {
+    this.configManager = ConfigManager.getInstance();
+    this.webhooksPath = path.join(app.getPath('userData'), 'webhooks');
+    this.queue = this.loadQueue();
+    this.purgeExpiredLogs();
+  }
+
+  /**
+   * Registra um listener em cada evento dos serviços e retoma as entregas pendentes
+   */
+  attach(): void {
+    if (this.listeners.length > 0) return;
+
+    for (const mapping of DEVICE_EVENT_MAPPINGS) {
+      const listener = (data: any) => {
+        const payload = mapping.payload(data);
+        if (payload !== null) {
+          this.dispatch(mapping.event, payload);
+        }
+      };
+      this.services.get(mapping.service).on(mapping.serviceEvent, listener);
+      this.listeners.push({ mapping, listener });
+    }
+
+    this.scheduleNext();
+  }
+
+  /**
+   * Remove os listeners e interrompe as entregas (a fila continua salva em disco)
+   */
+  detach(): void {
+    for (const { mapping, listener } of this.listeners) {
+      this.services.get(mapping.service).off(mapping.serviceEvent, listener);
+    }
+    this.listeners = [];
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Coloca o evento na fila de cada endpoint habilitado cujo filtro o aceita
+   */
+  dispatch(event: DeviceEventName, data: any): void {
+    const config = this.configManager.get('webhooks');
+    if (!config.enabled) return;
+
+    const endpoints = config.endpoints.filter(endpoint => endpoint.enabled && WebhookDispatcher.matches(endpoint, event));
+    if (endpoints.length === 0) return;
+
+    const timestamp = new Date().toISOString();
+    for (const endpoint of endpoints) {
+      // O id se mantém nas novas tentativas, permitindo ao destino descartar duplicatas
+      const id = crypto.randomUUID();
+      this.queue.push({
+        id,
+        endpointId: endpoint.id,
+        event,
+        body: JSON.stringify({ id, event, timestamp, data }),
+        attempts: 0,
+        createdAt: timestamp,
+        nextAttemptAt: Date.now()
+      });
+    }
+
+    while (this.queue.length > MAX_QUEUE_SIZE) {
+      const dropped = this.queue.shift()!;
+      this.log(dropped, 'failed', { error: 'Fila de webhooks cheia' });
+    }
+
+    this.saveQueue();
+    this.scheduleNext();
+  }
+
+  /**
+   * Número de entregas pendentes
+   */
+  getPendingCount(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Assinatura enviada em X-Webhook-Signature: HMAC-SHA256 de "<timestamp>.<corpo>" com o segredo do endpoint
+   */
+  static sign(secret: string, timestamp: string, body: string): string {
+    return `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+  }
+
+  private static matches(endpoint: WebhookEndpoint, event: DeviceEventName): boolean {
+    return endpoint.events.some(pattern =>
+      pattern === '*' ||
+      pattern === event ||
+      (pattern.endsWith('.*') && event.startsWith(pattern.slice(0, -1)))
+    );
+  }
+
+  /**
+   * Agenda o processamento para a próxima entrega vencida
+   */
+  private scheduleNext(): void {
+    if (this.processing || this.listeners.length === 0 || this.queue.length === 0) return;
+
+    if (this.timer) clearTimeout(this.timer);
+    const next = Math.min(...this.queue.map(delivery => delivery.nextAttemptAt));
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.processQueue().catch(error => console.error('Erro ao processar fila de webhooks:', error));
+    }, Math.max(0, next - Date.now()));
+  }
+
+  /**
+   * Entrega, uma de cada vez, as entregas vencidas
+   */
+  private async processQueue(): Promise<void> {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      let due = this.queue.find(delivery => delivery.nextAttemptAt <= Date.now());
+      while (due && this.listeners.length > 0) {
+        await this.deliver(due);
+        this.saveQueue();
+        due = this.queue.find(delivery => delivery.nextAttemptAt <= Date.now());
+      }
+    } finally {
+      this.processing = false;
+      this.scheduleNext();
+    }
+  }
+
+  private async deliver(delivery: WebhookDelivery): Promise<void> {
+    const config = this.configManager.get('webhooks');
+    const endpoint = config.endpoints.find(current => current.id === delivery.endpointId);
+    if (!config.enabled || !endpoint || !endpoint.enabled) {
+      this.remove(delivery);
+      this.log(delivery, 'failed', { error: 'Webhook removido ou desabilitado' });
+      return;
+    }
+
+    delivery.attempts++;
+    const startedAt = Date.now();
+    const timestamp = Math.floor(startedAt / 1000).toString();
+    let status: number | undefined;
+    let error: string | undefined;
+
+    try {
+      const response = await net.fetch(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': `IntranetDesktop/${app.getVersion()}`,
+          'X-Webhook-Id': delivery.id,
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Timestamp': timestamp,
+          'X-Webhook-Signature': WebhookDispatcher.sign(endpoint.secret, timestamp, delivery.body)
+        },
+        body: delivery.body,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+      });
+      status = response.status;
+      await response.arrayBuffer().catch(() => undefined);
+      if (!response.ok) {
+        error = `HTTP ${status}`;
+      }
+    } catch (fetchError) {
+      error = fetchError instanceof Error ? fetchError.message : String(fetchError);
+    }
+
+    const durationMs = Date.now() - startedAt;
+    if (!error) {
+      this.remove(delivery);
+      this.log(delivery, 'delivered', { url: endpoint.url, status, durationMs });
+      return;
+    }
+
+    // Erros 4xx (exceto 408 e 429) indicam que a repetição não vai resolver
+    const permanent = status !== undefined && status >= 400 && status < 500 && status !== 408 && status !== 429;
+    if (permanent || delivery.attempts >= config.maxAttempts) {
+      this.remove(delivery);
+      this.log(delivery, 'failed', { url: endpoint.url, status, error, durationMs });
+      return;
+    }
+
+    delivery.lastError = error;
+    delivery.nextAttemptAt = Date.now() + Math.min(RETRY_BASE_MS * 2 ** (delivery.attempts - 1), RETRY_MAX_MS);
+    this.log(delivery, 'retry', { url: endpoint.url, status, error, durationMs });
+  }
+
+  private remove(delivery: WebhookDelivery): void {
+    this.queue = this.queue.filter(current => current !== delivery);
+  }
+
+  /**
+   * Registra a tentativa no log de entregas (o corpo do evento não é gravado)
+   */
+  private log(
+    delivery: WebhookDelivery,
+    outcome: WebhookDeliveryOutcome,
+    details: Pick<WebhookDeliveryLogEntry, 'url' | 'status' | 'error' | 'durationMs'>
+  ): void {
+    const entry: WebhookDeliveryLogEntry = {
+      timestamp: new Date().toISOString(),
+      deliveryId: delivery.id,
+      endpointId: delivery.endpointId,
+      event: delivery.event,
+      attempt: delivery.attempts,
+      outcome,
+      ...details
+    };
+
+    if (outcome !== 'delivered') {
+      console.warn(`Webhook ${delivery.event} para ${delivery.endpointId}: ${outcome} (${details.error})`);
+    }
+
+    try {
+      this.ensureDirectory();
+      fs.appendFileSync(
+        path.join(this.webhooksPath, `deliveries-${entry.timestamp.split('T')[0]}.jsonl`),
+        JSON.stringify(entry) + '\n',
+        'utf8'
+      );
+    } catch (error) {
+      console.error('Erro ao gravar log de webhooks:', error);
+    }
+  }
+
+  private loadQueue(): WebhookDelivery[] {
+    try {
+      const queuePath = path.join(this.webhooksPath, 'queue.json');
+      if (!fs.existsSync(queuePath)) return [];
+      const queue = JSON.parse(fs.readFileSync(queuePath, 'utf8'));
+      return Array.isArray(queue) ? queue : [];
+    } catch (error) {
+      console.error('Erro ao carregar fila de webhooks:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Salva a fila em um arquivo temporário e o renomeia, para não corromper a fila em caso de interrupção
+   */
+  private saveQueue(): void {
+    try {
+      this.ensureDirectory();
+      const queuePath = path.join(this.webhooksPath, 'queue.json');
+      fs.writeFileSync(`${queuePath}.tmp`, JSON.stringify(this.queue), 'utf8');
+      fs.renameSync(`${queuePath}.tmp`, queuePath);
+    } catch (error) {
+      console.error('Erro ao salvar fila de webhooks:', error);
+    }
+  }
+
+  /**
+   * Remove logs de entregas mais antigos que webhooks.logRetentionDays
+   */
+  private purgeExpiredLogs(): void {
+    try {
+      if (!fs.existsSync(this.webhooksPath)) return;
+      const limit = Date.now() - this.configManager.get('webhooks').logRetentionDays * 24 * 60 * 60 * 1000;
+
+      for (const file of fs.readdirSync(this.webhooksPath)) {
+        const match = file.match(/^deliveries-(\d{4}-\d{2}-\d{2})\.jsonl$/);
+        if (match && new Date(`${match[1]}T00:00:00Z`).getTime() < limit) {
+          fs.unlinkSync(path.join(this.webhooksPath, file));
+        }
+      }
+    } catch (error) {
+      console.error('Erro ao remover logs de webhooks antigos:', error);
+    }
+  }
+
+  private ensureDirectory(): void {
+    if (!fs.existsSync(this.webhooksPath)) {
+      fs.mkdirSync(this.webhooksPath, { recursive: true });
+    }
+  }
+}
@@ -0,0 +1,72 @@
+import * as crypto from 'crypto';
+import { AuthManager, PairingError } from '../../src/api/AuthManager';
+import { ConfigManager } from '../../src/utils/ConfigManager';
+
+const ORIGIN = 'https://intranet.example.com';
+
+describe('AuthManager', () => {
+  const configManager = ConfigManager.getInstance();
+  const authManager = AuthManager.getInstance();
+
+  beforeEach(() => {
+    configManager.resetToDefault();
+    authManager.setPairingApprover(async () => true);
+  });
+
+  const pair = () => authManager.requestPairing({ origin: ORIGIN, appName: 'Intranet', scopes: ['printer', 'printer', 'usb'] });
+
+  it('guarda apenas o hash SHA-256 do token emitido', async () => {
+    const { id, token, scopes } = await pair();
+    const [record] = configManager.get('apiTokens');
+
+    expect(record.id).toBe(id);
+    expect(record.tokenHash).toBe(crypto.createHash('sha256').update(token).digest('hex'));
+    expect(JSON.stringify(configManager.get('apiTokens'))).not.toContain(token);
+    expect(scopes).toEqual(['printer', 'usb']);
+    expect(authManager.listTokens()[0]).not.toHaveProperty('tokenHash');
+  });
+
+  it('aceita o token apenas da origem para a qual foi emitido', async () => {
+    const { token } = await pair();
+
+    expect(authManager.validateToken(token, ORIGIN)?.origin).toBe(ORIGIN);
+    expect(authManager.validateToken(token)).not.toBeNull();
+    expect(authManager.validateToken(token, 'https://other.example.com')).toBeNull();
+    expect(authManager.validateToken(`${token}x`, ORIGIN)).toBeNull();
+  });
+
+  it('recusa tokens revogados ou expirados', async () => {
+    const revoked = await pair();
+    const expired = await pair();
+
+    authManager.revokeToken(revoked.id);
+    configManager.set('apiTokens', configManager.get('apiTokens').map(record =>
+      record.id === expired.id ? { ...record, expiresAt: new Date(Date.now() - 1000).toISOString() } : record));
+
+    expect(authManager.validateToken(revoked.token, ORIGIN)).toBeNull();
+    expect(authManager.validateToken(expired.token, ORIGIN)).toBeNull();
+    expect(authManager.listTokens()).toEqual([]);
+  });
+
+  it('recusa pareamento negado, sem escopos ou já pendente', async () => {
+    authManager.setPairingApprover(async () => false);
+    await expect(pair()).rejects.toMatchObject({ statusCode: 403, code: 'PAIRING_DENIED' });
+
+    await expect(authManager.requestPairing({ origin: ORIGIN, appName: 'Intranet', scopes: [] }))
+      .rejects.toBeInstanceOf(PairingError);
+
+    let approve!: (approved: boolean) => void;
+    authManager.setPairingApprover(() => new Promise(resolve => { approve = resolve; }));
+    const first = pair();
+    await expect(pair()).rejects.toMatchObject({ statusCode: 409, code: 'PAIRING_PENDING' });
+    approve(true);
+    await expect(first).resolves.toHaveProperty('token');
+  });
+
+  it('extrai o token Bearer e compara segredos fixos', () => {
+    expect(AuthManager.extractBearerToken('Bearer abc ')).toBe('abc');
+    expect(AuthManager.extractBearerToken('Basic abc')).toBeNull();
+    expect(authManager.matchesSecret('segredo', 'segredo')).toBe(true);
+    expect(authManager.matchesSecret('segredo', 'outro')).toBe(false);
+  });
+});
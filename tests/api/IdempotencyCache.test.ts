@@ -0,0 +1,68 @@
+import { IdempotencyCache } from '../../src/api/IdempotencyCache';
+
+const response = { statusCode: 200, body: { success: true } };
+
+describe('IdempotencyCache', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('reserva a chave e devolve a resposta guardada na repetição', () => {
+    const cache = new IdempotencyCache();
+
+    expect(cache.begin('a', 'POST /print {}')).toEqual({ state: 'new' });
+    expect(cache.begin('a', 'POST /print {}')).toEqual({ state: 'pending' });
+
+    cache.complete('a', response);
+    expect(cache.begin('a', 'POST /print {}')).toEqual({ state: 'done', response });
+  });
+
+  it('recusa a mesma chave para outra operação', () => {
+    const cache = new IdempotencyCache();
+    cache.begin('a', 'POST /print {}');
+
+    expect(cache.begin('a', 'POST /scan {}')).toEqual({ state: 'mismatch' });
+  });
+
+  it('libera a chave após falha', () => {
+    const cache = new IdempotencyCache();
+    cache.begin('a', 'POST /print {}');
+    cache.release('a');
+
+    expect(cache.begin('a', 'POST /print {}')).toEqual({ state: 'new' });
+  });
+
+  it('descarta respostas expiradas, mas nunca chaves em andamento', () => {
+    jest.useFakeTimers();
+    const cache = new IdempotencyCache(1000);
+    cache.begin('done', 'f');
+    cache.complete('done', response);
+    cache.begin('pending', 'f');
+
+    jest.advanceTimersByTime(5000);
+
+    expect(cache.begin('done', 'f')).toEqual({ state: 'new' });
+    expect(cache.begin('pending', 'f')).toEqual({ state: 'pending' });
+  });
+
+  it('no limite, descarta a resposta mais antiga e mantém as chaves em andamento', () => {
+    const cache = new IdempotencyCache(60000, 2);
+    cache.begin('pending', 'f');
+    cache.begin('done', 'f');
+    cache.complete('done', response);
+
+    expect(cache.begin('new', 'f')).toEqual({ state: 'new' });
+    expect(cache.begin('pending', 'f')).toEqual({ state: 'pending' });
+    expect(cache.begin('done', 'f')).toEqual({ state: 'full' });
+  });
+
+  it('informa cache cheio quando todas as chaves estão em andamento', () => {
+    const cache = new IdempotencyCache(60000, 2);
+    cache.begin('a', 'f');
+    cache.begin('b', 'f');
+
+    expect(cache.begin('c', 'f')).toEqual({ state: 'full' });
+    expect(cache.begin('a', 'f')).toEqual({ state: 'pending' });
+    expect(cache.begin('b', 'f')).toEqual({ state: 'pending' });
+  });
+});
@@ -0,0 +1,90 @@
+import { JobManager, Job, JobEvent } from '../../src/api/JobManager';
+import { DeviceBusyError } from '../../src/services/DeviceError';
+
+// Aguarda o job sair da fila e ser finalizado
+const waitForJob = (manager: JobManager, id: string): Promise<Job> =>
+  new Promise(resolve => {
+    const current = manager.get(id);
+    if (current && ['completed', 'failed', 'cancelled'].includes(current.status)) {
+      resolve(current);
+      return;
+    }
+    manager.onJobEvent((event, job) => {
+      if (event === 'job-completed' && job.id === id) resolve(job);
+    });
+  });
+
+const deferred = () => {
+  let resolve!: (value?: any) => void;
+  const promise = new Promise<any>(done => { resolve = done; });
+  return { promise, resolve };
+};
+
+describe('JobManager', () => {
+  it('executa o job e notifica progresso e conclusão', async () => {
+    const manager = new JobManager();
+    const events: [JobEvent, string][] = [];
+    manager.onJobEvent((event, job) => events.push([event, job.status]));
+
+    const job = manager.create('scan', async (signal, reportProgress) => {
+      reportProgress({ page: 1 });
+      return { pages: 1 };
+    }, 'token-1');
+
+    const finished = await waitForJob(manager, job.id);
+    expect(finished).toMatchObject({ status: 'completed', result: { pages: 1 }, ownerId: 'token-1' });
+    expect(events).toEqual([['job-progress', 'running'], ['job-progress', 'running'], ['job-completed', 'completed']]);
+  });
+
+  it('executa um job por vez para cada tipo', async () => {
+    const manager = new JobManager();
+    const first = deferred();
+
+    const a = manager.create('print', () => first.promise);
+    const b = manager.create('print', async () => 'b');
+    const c = manager.create('scan', async () => 'c');
+
+    expect(manager.get(a.id)!.status).toBe('running');
+    expect(manager.get(b.id)!.status).toBe('queued');
+    await waitForJob(manager, c.id);
+
+    first.resolve('a');
+    expect(await waitForJob(manager, b.id)).toMatchObject({ status: 'completed', result: 'b' });
+  });
+
+  it('registra a falha com o código do erro do dispositivo', async () => {
+    const manager = new JobManager();
+    const job = manager.create('scan', async () => {
+      throw new DeviceBusyError('Scanner ocupado');
+    });
+
+    expect(await waitForJob(manager, job.id)).toMatchObject({ status: 'failed', error: 'Scanner ocupado', errorCode: 'DEVICE_BUSY' });
+  });
+
+  it('cancela jobs na fila e em execução', async () => {
+    const manager = new JobManager();
+    const running = manager.create('scan', signal => new Promise(resolve => signal.addEventListener('abort', () => resolve(null))));
+    const queued = manager.create('scan', async () => 'nunca executado');
+
+    expect(manager.cancel(queued.id)).toBe(true);
+    expect(manager.get(queued.id)).toMatchObject({ status: 'cancelled', errorCode: 'CANCELLED' });
+
+    expect(manager.cancel(running.id)).toBe(true);
+    expect(await waitForJob(manager, running.id)).toMatchObject({ status: 'cancelled', errorCode: 'CANCELLED' });
+    expect(manager.cancel(running.id)).toBe(false);
+  });
+
+  it('filtra pelo dono e limita o histórico', async () => {
+    const manager = new JobManager(2);
+    const ids: string[] = [];
+    for (const owner of ['a', 'b', 'a']) {
+      const job = manager.create('capture', async () => owner, owner);
+      ids.push(job.id);
+      await waitForJob(manager, job.id);
+    }
+
+    expect(manager.get(ids[0])).toBeNull();
+    expect(manager.list('a').map(job => job.id)).toEqual([ids[2]]);
+    expect(manager.list()).toHaveLength(2);
+  });
+});
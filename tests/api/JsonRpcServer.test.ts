@@ -0,0 +1,110 @@
+import { JsonRpcServer, JsonRpcContext, JSON_RPC_ERRORS } from '../../src/api/JsonRpcServer';
+import { ServiceRegistry } from '../../src/services/ServiceRegistry';
+import { DeviceNotFoundError } from '../../src/services/DeviceError';
+import { ApiScope } from '../../src/utils/ConfigManager';
+import { AuditChannel } from '../../src/utils/AuditLog';
+
+const printer = {
+  getPrinters: jest.fn(async () => [{ name: 'HP' }]),
+  print: jest.fn(async () => true),
+  printPdfData: jest.fn(async () => true),
+  testDevice: jest.fn(async () => true)
+};
+
+const serial = {
+  getPorts: jest.fn(async () => []),
+  write: jest.fn(async () => true)
+};
+
+const usb = {
+  getDeviceDetails: jest.fn(async (id: string) => {
+    throw new DeviceNotFoundError(`Dispositivo ${id} não encontrado`);
+  })
+};
+
+const services = { printer, serial, usb, camera: {}, scanner: {} } as unknown as ServiceRegistry;
+
+const createContext = (scopes: ApiScope[], channel: AuditChannel = 'websocket'): JsonRpcContext => ({
+  hasScope: scope => scopes.includes(scope),
+  audit: { channel }
+});
+
+describe('JsonRpcServer', () => {
+  const server = new JsonRpcServer(services);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('executa o método pelo operationId com os parâmetros validados', async () => {
+    const response = await server.handle({ jsonrpc: '2.0', id: 1, method: 'writeSerialPort', params: { port: 'COM1', data: 'x' } },
+      createContext(['serial']));
+
+    expect(response).toEqual({ jsonrpc: '2.0', id: 1, result: true });
+    expect(serial.write).toHaveBeenCalledWith('COM1', 'x');
+  });
+
+  it('responde o lote na ordem das chamadas, sem resposta para notificações', async () => {
+    const response = await server.handle(JSON.stringify([
+      { jsonrpc: '2.0', id: 'a', method: 'listPrinters' },
+      { jsonrpc: '2.0', method: 'listSerialPorts' },
+      { jsonrpc: '2.0', id: 'b', method: 'unknownMethod' },
+      { id: 'c', method: 'listPrinters' }
+    ]), createContext(['printer', 'serial']));
+
+    expect(response).toEqual([
+      { jsonrpc: '2.0', id: 'a', result: [{ name: 'HP' }] },
+      { jsonrpc: '2.0', id: 'b', error: { code: JSON_RPC_ERRORS.METHOD_NOT_FOUND, message: 'Método unknownMethod não encontrado' } },
+      { jsonrpc: '2.0', id: 'c', error: { code: JSON_RPC_ERRORS.INVALID_REQUEST, message: 'Requisição JSON-RPC inválida' } }
+    ]);
+    expect(serial.getPorts).toHaveBeenCalled();
+  });
+
+  it('retorna null para um lote apenas de notificações', async () => {
+    expect(await server.handle([{ jsonrpc: '2.0', method: 'listPrinters' }], createContext(['printer']))).toBeNull();
+  });
+
+  it('recusa JSON inválido, lote vazio e lote acima do limite', async () => {
+    const context = createContext(['printer']);
+    const tooLarge = Array.from({ length: 51 }, (_, id) => ({ jsonrpc: '2.0', id, method: 'listPrinters' }));
+
+    expect(await server.handle('{', context)).toMatchObject({ id: null, error: { code: JSON_RPC_ERRORS.PARSE_ERROR } });
+    expect(await server.handle([], context)).toMatchObject({ id: null, error: { code: JSON_RPC_ERRORS.INVALID_REQUEST } });
+    expect(await server.handle(tooLarge, context)).toMatchObject({ id: null, error: { code: JSON_RPC_ERRORS.INVALID_REQUEST } });
+    expect(printer.getPrinters).not.toHaveBeenCalled();
+  });
+
+  it('exige o escopo da rota', async () => {
+    const response = await server.handle({ jsonrpc: '2.0', id: 1, method: 'listPrinters' }, createContext(['serial']));
+
+    expect(response).toEqual({
+      jsonrpc: '2.0',
+      id: 1,
+      error: { code: JSON_RPC_ERRORS.FORBIDDEN, message: 'Token sem permissão para o escopo printer', data: { code: 'FORBIDDEN' } }
+    });
+    expect(printer.getPrinters).not.toHaveBeenCalled();
+  });
+
+  it('converte erros de validação e de dispositivo', async () => {
+    const context = createContext(['serial', 'usb']);
+
+    expect(await server.handle({ jsonrpc: '2.0', id: 1, method: 'writeSerialPort', params: { port: 'COM1' } }, context))
+      .toMatchObject({ error: { code: JSON_RPC_ERRORS.INVALID_PARAMS, data: { code: 'INVALID_ARGUMENT' } } });
+    expect(await server.handle({ jsonrpc: '2.0', id: 2, method: 'writeSerialPort', params: ['COM1'] }, context))
+      .toMatchObject({ error: { code: JSON_RPC_ERRORS.INVALID_PARAMS } });
+    expect(await server.handle({ jsonrpc: '2.0', id: 3, method: 'getUsbDevice', params: { id: 'x' } }, context))
+      .toMatchObject({ error: { code: JSON_RPC_ERRORS.DEVICE_ERROR, message: 'Dispositivo x não encontrado', data: { code: 'DEVICE_NOT_FOUND' } } });
+  });
+
+  it('imprime PDF dos canais remotos apenas a partir do conteúdo em base64', async () => {
+    const params = { content: 'JVBERi0=', type: 'pdf' };
+
+    await server.handle({ jsonrpc: '2.0', id: 1, method: 'printDocument', params }, createContext(['printer'], 'command'));
+    await server.handle({ jsonrpc: '2.0', id: 2, method: 'printDocument', params }, createContext(['printer'], 'mqtt'));
+    expect(printer.printPdfData).toHaveBeenCalledTimes(2);
+    expect(printer.print).not.toHaveBeenCalled();
+
+    await server.handle({ jsonrpc: '2.0', id: 3, method: 'printDocument', params }, createContext(['printer'], 'websocket'));
+    expect(printer.print).toHaveBeenCalledTimes(1);
+  });
+});
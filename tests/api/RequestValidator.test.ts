@@ -0,0 +1,61 @@
+import { RequestValidator } from '../../src/api/RequestValidator';
+import { SchemaObject } from '../../src/api/ApiSchemas';
+import { InvalidArgumentError } from '../../src/services/DeviceError';
+
+const schema: SchemaObject = {
+  type: 'object',
+  required: ['port', 'data'],
+  properties: {
+    port: { type: 'string', minLength: 1 },
+    data: { type: 'string' },
+    baudRate: { type: 'integer', minimum: 1, default: 9600 },
+    parity: { type: 'string', enum: ['none', 'even', 'odd'] },
+    drawers: { type: 'array', minItems: 1, items: { type: 'integer', minimum: 1, maximum: 2 } }
+  }
+};
+
+describe('RequestValidator', () => {
+  it('aplica valores padrão e mantém campos desconhecidos', () => {
+    const result = RequestValidator.assert({ port: 'COM1', data: 'x', extra: true }, schema, 'params');
+
+    expect(result).toEqual({ port: 'COM1', data: 'x', baudRate: 9600, extra: true });
+  });
+
+  it('lança INVALID_ARGUMENT com o primeiro problema e a lista completa', () => {
+    expect.assertions(4);
+    try {
+      RequestValidator.assert({ port: 1, baudRate: 1.5 }, schema, 'params');
+    } catch (error) {
+      expect(error).toBeInstanceOf(InvalidArgumentError);
+      const { message, details } = error as InvalidArgumentError;
+      expect(message).toBe('Campo params.port deve ser texto');
+      expect(details.field).toBe('params.port');
+      expect(details.issues).toEqual([
+        { field: 'params.port', message: 'deve ser texto' },
+        { field: 'params.data', message: 'é obrigatório' },
+        { field: 'params.baudRate', message: 'deve ser um número inteiro' }
+      ]);
+    }
+  });
+
+  it('valida enum e itens de listas', () => {
+    const issues: any[] = [];
+    RequestValidator.validate({ port: 'COM1', data: 'x', parity: 'mark', drawers: [1, 3] }, schema, 'body', issues);
+
+    expect(issues).toEqual([
+      { field: 'body.parity', message: 'deve ser um de: none, even, odd' },
+      { field: 'body.drawers[1]', message: 'deve ser menor ou igual a 2' }
+    ]);
+  });
+
+  it('converte texto de params e query para o tipo do schema', () => {
+    const issues: any[] = [];
+
+    expect(RequestValidator.validate('115200', { type: 'integer' }, 'query.baudRate', issues, true)).toBe(115200);
+    expect(RequestValidator.validate('true', { type: 'boolean' }, 'query.duplex', issues, true)).toBe(true);
+    expect(issues).toEqual([]);
+
+    RequestValidator.validate('abc', { type: 'integer' }, 'query.timeout', issues, true);
+    expect(issues).toEqual([{ field: 'query.timeout', message: 'deve ser um número inteiro' }]);
+  });
+});
@@ -0,0 +1,19 @@
+import { CHANNEL_EVENTS } from '../../src/api/SubscriptionManager';
+
+const findMapping = (serviceEvent: string) => CHANNEL_EVENTS.find(mapping => mapping.serviceEvent === serviceEvent)!;
+
+describe('CHANNEL_EVENTS', () => {
+  it('usa o deviceId como alvo dos eventos USB', () => {
+    const device = { id: 'usb-0', deviceId: 'USB\\VID_04B8&PID_0202\\5&1A2B', vendorId: '04b8', productId: '0202' };
+
+    expect(findMapping('device-connected').target!(device)).toBe(device.deviceId);
+    expect(findMapping('device-disconnected').target!(device)).toBe(device.deviceId);
+  });
+
+  it('usa a porta como alvo dos eventos seriais', () => {
+    const mapping = findMapping('port-data');
+
+    expect(mapping.target!({ portPath: 'COM3', data: 'x' })).toBe('COM3');
+    expect(mapping.payload({ portPath: 'COM3', data: 'x' })).toEqual({ port: 'COM3', data: 'x' });
+  });
+});
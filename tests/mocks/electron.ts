@@ -0,0 +1,12 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Pasta de dados por arquivo de teste (config.json, auditoria e logs)
+const userData = fs.mkdtempSync(path.join(os.tmpdir(), 'intranet-desktop-test-'));
+
+export const app = {
+  getPath: (name: string) => (name === 'temp' ? os.tmpdir() : userData),
+  getVersion: () => '0.0.0-test',
+  isPackaged: false
+};
@@ -0,0 +1,122 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { app } from 'electron';
+import { ConfigManager, AppConfig, WebhookEndpoint } from '../../src/utils/ConfigManager';
+
+const endpoint = (id: string, url: string): WebhookEndpoint => ({ id, url, events: ['usb.*'], secret: `secret-${id}`, enabled: true });
+
+describe('ConfigManager', () => {
+  const configManager = ConfigManager.getInstance();
+
+  beforeEach(() => {
+    configManager.resetToDefault();
+  });
+
+  describe('validação', () => {
+    it('aceita a configuração padrão', () => {
+      expect(configManager.getValidationErrors()).toEqual([]);
+    });
+
+    it('lista um problema por verificação', () => {
+      const config: AppConfig = {
+        ...configManager.getConfig(),
+        apiPort: 70000,
+        apiPrefix: 'api',
+        commandChannel: { ...configManager.get('commandChannel'), enabled: true, url: 'http://server', token: 'x' },
+        navigation: { allowedOrigins: ['https://*.example.com', 'ftp://example.com'] }
+      };
+
+      expect(configManager.getValidationErrors(config)).toEqual([
+        'A porta da API deve estar entre 1 e 65535',
+        'O prefixo da API deve começar com /',
+        'O canal de comandos exige URL ws:// ou wss:// e token',
+        'Origem de navegação inválida: use https://site ou https://*.dominio'
+      ]);
+    });
+
+    it('recusa webhooks sem segredo ou com ids repetidos', () => {
+      const webhooks = configManager.get('webhooks');
+
+      expect(configManager.applyConfig({ webhooks: { ...webhooks, endpoints: [{ ...endpoint('a', 'https://hooks.example.com'), secret: '' }] } }))
+        .toEqual(['Configuração de webhooks inválida']);
+      expect(configManager.applyConfig({ webhooks: { ...webhooks, endpoints: [endpoint('a', 'https://a.example.com'), endpoint('a', 'https://b.example.com')] } }))
+        .toEqual(['Configuração de webhooks inválida']);
+      expect(configManager.get('webhooks').endpoints).toEqual([]);
+    });
+
+    it('aplica e salva apenas configurações válidas', () => {
+      expect(configManager.applyConfig({ apiPort: 0 })).toEqual(['A porta da API deve estar entre 1 e 65535']);
+      expect(configManager.get('apiPort')).toBe(8080);
+
+      expect(configManager.applyConfig({ apiPort: 9090 })).toEqual([]);
+      const saved = JSON.parse(fs.readFileSync(path.join(app.getPath('userData'), 'config.json'), 'utf8'));
+      expect(saved.apiPort).toBe(9090);
+    });
+  });
+
+  describe('exportação e importação', () => {
+    beforeEach(() => {
+      configManager.updateConfig({
+        apiTokens: [{ id: 't1', tokenHash: 'hash', appName: 'Intranet', origin: 'https://intranet.example.com', scopes: ['printer'], createdAt: '', expiresAt: '' }],
+        metrics: { enabled: true, token: 'metrics-token' },
+        webhooks: { ...configManager.get('webhooks'), endpoints: [endpoint('a', 'https://a.example.com'), endpoint('b', 'https://b.example.com')] },
+        commandChannel: { ...configManager.get('commandChannel'), enabled: true, url: 'wss://server.example.com', token: 'command-token' },
+        mqtt: { ...configManager.get('mqtt'), enabled: true, brokerUrl: 'mqtts://broker.example.com', password: 'mqtt-password' }
+      });
+    });
+
+    it('exporta sem tokens e segredos', () => {
+      const exported = configManager.exportConfig();
+      const backup = JSON.parse(exported);
+
+      expect(backup).not.toHaveProperty('apiTokens');
+      expect(backup.metrics).toEqual({ enabled: true });
+      expect(backup.commandChannel).not.toHaveProperty('token');
+      expect(backup.mqtt).not.toHaveProperty('password');
+      expect(backup.webhooks.endpoints.every((item: any) => !('secret' in item))).toBe(true);
+      expect(exported).not.toMatch(/metrics-token|command-token|mqtt-password|secret-a|hash/);
+    });
+
+    it('mantém os segredos desta estação ao importar para os mesmos destinos', () => {
+      const backup = JSON.parse(configManager.exportConfig());
+      backup.apiTokens = [];
+      backup.apiPort = 9090;
+
+      expect(configManager.importConfig(JSON.stringify(backup))).toBe(true);
+      const config = configManager.getConfig();
+      expect(config.apiPort).toBe(9090);
+      expect(config.apiTokens.map(token => token.id)).toEqual(['t1']);
+      expect(config.metrics.token).toBe('metrics-token');
+      expect(config.webhooks.endpoints).toEqual([endpoint('a', 'https://a.example.com'), endpoint('b', 'https://b.example.com')]);
+      expect(config.commandChannel).toMatchObject({ enabled: true, token: 'command-token' });
+      expect(config.mqtt).toMatchObject({ enabled: true, password: 'mqtt-password' });
+    });
+
+    it('não leva segredos para outro destino e desabilita o recurso', () => {
+      const backup = JSON.parse(configManager.exportConfig());
+      backup.webhooks.endpoints[1].url = 'https://attacker.example.com';
+      backup.webhooks.endpoints.push({ id: 'c', url: 'https://c.example.com', events: ['*'], enabled: true });
+      backup.commandChannel.url = 'wss://attacker.example.com';
+      backup.mqtt.brokerUrl = 'mqtts://attacker.example.com';
+
+      expect(configManager.importConfig(JSON.stringify(backup))).toBe(true);
+      const { webhooks, commandChannel, mqtt } = configManager.getConfig();
+      const [a, b, c] = webhooks.endpoints;
+      expect(a).toEqual(endpoint('a', 'https://a.example.com'));
+      expect(b).toMatchObject({ url: 'https://attacker.example.com', enabled: false });
+      expect(b.secret).not.toBe('secret-b');
+      expect(c).toMatchObject({ enabled: false });
+      expect(c.secret).toMatch(/^[0-9a-f]{64}$/);
+      expect(commandChannel).toMatchObject({ url: 'wss://attacker.example.com', token: '', enabled: false });
+      expect(mqtt).toMatchObject({ brokerUrl: 'mqtts://attacker.example.com', password: '', enabled: false });
+    });
+
+    it('recusa arquivos que não são configuração ou que são inválidos', () => {
+      expect(configManager.getImportErrors('não é JSON')).toEqual(['Arquivo de configuração inválido']);
+      expect(configManager.importConfig(JSON.stringify({ webUrl: 'http://localhost' }))).toBe(false);
+      expect(configManager.getImportErrors(JSON.stringify({ ...JSON.parse(configManager.exportConfig()), apiPrefix: 'api' })))
+        .toEqual(['O prefixo da API deve começar com /']);
+      expect(configManager.get('apiPort')).toBe(8080);
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { MetricsRegistry } from '../../src/utils/Metrics';
+
+describe('MetricsRegistry', () => {
+  it('gera o formato texto do Prometheus', () => {
+    const registry = new MetricsRegistry();
+    const requests = registry.counter('http_requests_total', 'Requisições HTTP');
+    const devices = registry.gauge('usb_devices', 'Dispositivos USB conectados');
+    const duration = registry.histogram('http_request_duration_seconds', 'Duração das requisições', [0.5, 0.1]);
+
+    requests.inc({ method: 'GET', route: '/printers' });
+    requests.inc({ method: 'GET', route: '/printers' }, 2);
+    requests.inc({ method: 'GET', route: '/printers' }, -1);
+    devices.set({}, 3);
+    duration.observe({ route: '/scan' }, 0.05);
+    duration.observe({ route: '/scan' }, 0.3);
+    duration.observe({ route: '/scan' }, 2);
+
+    expect(registry.render()).toBe([
+      '# HELP http_requests_total Requisições HTTP',
+      '# TYPE http_requests_total counter',
+      'http_requests_total{method="GET",route="/printers"} 3',
+      '# HELP usb_devices Dispositivos USB conectados',
+      '# TYPE usb_devices gauge',
+      'usb_devices 3',
+      '# HELP http_request_duration_seconds Duração das requisições',
+      '# TYPE http_request_duration_seconds histogram',
+      'http_request_duration_seconds_bucket{route="/scan",le="0.1"} 1',
+      'http_request_duration_seconds_bucket{route="/scan",le="0.5"} 2',
+      'http_request_duration_seconds_bucket{route="/scan",le="+Inf"} 3',
+      'http_request_duration_seconds_sum{route="/scan"} 2.35',
+      'http_request_duration_seconds_count{route="/scan"} 3',
+      ''
+    ].join('\n'));
+  });
+
+  it('escapa aspas, barras e quebras de linha nos rótulos', () => {
+    const registry = new MetricsRegistry();
+    registry.gauge('printer_up', 'Impressora disponível').set({ printer: 'HP "Sala"\\1\nA' }, 1);
+
+    expect(registry.render()).toContain('printer_up{printer="HP \\"Sala\\"\\\\1\\nA"} 1');
+  });
+
+  it('não registra duas métricas com o mesmo nome', () => {
+    const registry = new MetricsRegistry();
+    registry.counter('jobs_total', 'Jobs');
+
+    expect(() => registry.gauge('jobs_total', 'Jobs')).toThrow('Métrica jobs_total já registrada');
+  });
+});
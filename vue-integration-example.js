@@ -1,4 +1,5 @@
 // Exemplo de como ajustar o código Vue para funcionar corretamente
+// (para novos projetos, prefira o cliente tipado @intranet-desktop/client, na pasta sdk/)
 
 // No seu componente Vue, ajuste assim:
 
@@ -39,13 +40,16 @@ function handleScannerResponse(response) {
     adicionarArquivo(file)
     startLog("Escaneamento concluído e arquivo adicionado.")
   } else {
-    if (response.error === "Scanner não conectado") {
+    // Use o código estável (response.code) em vez de comparar a mensagem
+    if (response.code === "DEVICE_NOT_FOUND" || response.code === "DEVICE_UNAVAILABLE") {
       swalErro(
         "Erro Scanner",
         "Por favor, conecte o scanner e tente novamente."
       )
-    } else if (response.error === "Nenhuma página escaneada") {
+    } else if (response.code === "NO_PAGES") {
       swalErro("Aviso", "Nenhuma página foi capturada no scanner.")
+    } else if (response.code === "DEVICE_BUSY") {
+      swalErro("Aviso", "O scanner já está em uso. Aguarde e tente novamente.")
     } else {
       swalErro("Erro", response.error)
     }